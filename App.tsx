@@ -1,96 +1,562 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { Chat } from '@google/genai';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { flushSync } from 'react-dom';
 import ImageUpload from './components/ImageUpload';
 import ProductCard from './components/ProductCard';
 import ChatInterface from './components/ChatInterface';
 import Modal from './components/Modal';
+import CheckoutFlow from './components/CheckoutFlow';
+import SessionSidebar from './components/SessionSidebar';
+import WishlistView from './components/WishlistView';
+import ImageComparison from './components/ImageComparison';
+import ProductToolbar from './components/ProductToolbar';
+import ProductDetail from './components/ProductDetail';
+import ProductComparisonTable from './components/ProductComparisonTable';
+import ErrorNotice from './components/ErrorNotice';
+import LookBuilder from './components/LookBuilder';
+import ConstraintChips from './components/ConstraintChips';
+import StyleProfileSettings from './components/StyleProfileSettings';
+import TextQueryInput from './components/TextQueryInput';
+import LocalePicker from './components/LocalePicker';
+import ShareDialog from './components/ShareDialog';
+import SharedResultView from './components/SharedResultView';
+import { I18nProvider } from './components/I18nContext';
 import { LoadingSpinner } from './components/LoadingSpinner';
-import { Product, ChatMessage, AppState, LoadingState } from './types';
-import { analyzeImageAndSuggestProducts, startChatSession, sendMessageInChat } from './services/geminiService';
+import {
+  Product, ChatMessage, AppState, LoadingState, CartState, ProductListKind, ShoppingSessionSummary, WishlistState, UploadedImage, AnalysisMode,
+  ProductFilters, ProductTab, SearchBase, SearchConstraintKey, SearchConstraints, StyleProfile, GeminiAnalysisResponse, LocaleSettings, SharedResult,
+} from './types';
+import {
+  analyzeImagesAndSuggestProducts, analyzeTextQueryAndSuggestProducts, detectItemsInImage, getAIProvider, getCatalogCurrency, refineProductSearch, setResponseLocale,
+  setStyleProfile, startChatSession, streamMessageInChat, suggestProductsForItem, toSearchBase,
+} from './services/geminiService';
+import { AIParseError, isCancellation, toAIError } from './services/aiErrors';
+import { createI18n, loadLocaleSettings, MessageKey, saveLocaleSettings } from './services/i18nService';
+import { buildSessionTitle, createSessionId, deleteSession, getSession, listSessions, saveSession } from './services/sessionService';
+import { createThumbnail, toDataUrl } from './services/imageService';
+import { decodeSharePayload, getSharePayload, parseSharedResultFile } from './services/shareService';
+import { applyProductFilters, getProductCategories, hasActiveFilters, readFiltersFromQuery, writeFiltersToQuery } from './services/productFilterService';
+import {
+  loadWishlist, saveWishlist, isInWishlist, addToWishlist, removeFromWishlist, moveWishlistItem,
+  createCollection, renameCollection, deleteCollection,
+} from './services/wishlistService';
+import {
+  applyConstraintChange, hasConstraints, isSameConstraints, MAX_RESULTS_HISTORY, removeConstraint,
+} from './services/searchConstraintService';
+import {
+  applyStyleProfileUpdate, describeStyleProfile, isStyleProfileEmpty, loadStyleProfile, saveStyleProfile,
+} from './services/styleProfileService';
+import { addToCart, removeFromCart, updateCartQuantity, getCartQuantity, getCartItemCount } from './services/cartService';
 
 const initialState: AppState = {
+  sessionId: null,
+  sessionThumbnail: null,
   uploadedImage: null,
   uploadedImageType: null,
+  uploadedImages: [],
+  analysisMode: 'outfit',
+  imageResults: [],
+  imageAltTexts: [],
+  comparison: null,
+  detectedItems: [],
+  selectedItemId: null,
+  itemResults: {},
   analyzedText: null,
+  analyzedAttributes: null,
+  searchBase: null,
+  constraints: {},
+  resultsHistory: [],
   similarProducts: [],
   complementaryProducts: [],
+  validationIssues: [],
   chatMessages: [],
   currentChat: null,
   isLoading: false, // General loading state, specific states handled by loadingState
   loadingState: LoadingState.IDLE,
   error: null,
+  errorKind: null,
   isCheckoutModalOpen: false,
   userInput: '',
   activeTab: 'similar',
 };
 
+const MAX_COMPARE_PRODUCTS = 4;
+
+// Key under which the whole-photo results are cached next to the per-item ones.
+const WHOLE_PHOTO_RESULTS_KEY = 'whole-photo';
+
+// Everything a new photo or text query replaces.
+const clearedResults: Partial<AppState> = {
+  imageResults: [],
+  imageAltTexts: [],
+  comparison: null,
+  detectedItems: [],
+  selectedItemId: null,
+  itemResults: {},
+  error: null,
+  errorKind: null,
+  similarProducts: [],
+  complementaryProducts: [],
+  validationIssues: [],
+  chatMessages: [], // A new search starts a new chat
+  analyzedText: null,
+  analyzedAttributes: null,
+  searchBase: null,
+  constraints: {},
+  resultsHistory: [],
+};
+
+const toAnalysisState = (result: GeminiAnalysisResponse): Partial<AppState> => ({
+  analyzedText: result.analysis,
+  analyzedAttributes: result.attributes ?? null,
+  searchBase: result.searchBase ?? null,
+  constraints: result.constraints ?? {},
+  similarProducts: result.similarProducts,
+  complementaryProducts: result.complementaryProducts,
+  imageResults: result.imageResults || [],
+  imageAltTexts: result.altTexts ?? [],
+  comparison: result.comparison ?? null,
+  itemResults: {
+    [WHOLE_PHOTO_RESULTS_KEY]: { similarProducts: result.similarProducts, complementaryProducts: result.complementaryProducts },
+  },
+  validationIssues: result.validationIssues || [],
+});
+
+type QueryMode = 'photo' | 'text';
+
+const queryModes: { mode: QueryMode; label: MessageKey; icon: string }[] = [
+  { mode: 'photo', label: 'search.photo', icon: 'fa-camera' },
+  { mode: 'text', label: 'search.text', icon: 'fa-comment-dots' },
+];
+
+const productTabs: { tab: ProductTab; label: MessageKey; empty: MessageKey }[] = [
+  { tab: 'similar', label: 'discover.tabSimilar', empty: 'discover.noSimilar' },
+  { tab: 'complementary', label: 'discover.tabComplementary', empty: 'discover.noComplementary' },
+  { tab: 'all', label: 'discover.tabAll', empty: 'discover.noProducts' },
+];
+
+const PRODUCT_TABPANEL_ID = 'product-tabpanel';
+const getProductTabId = (tab: ProductTab): string => `product-tab-${tab}`;
+
+const initialCartState: CartState = {
+  items: [],
+};
+
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(initialState);
+  const [cart, setCart] = useState<CartState>(initialCartState);
   const [initialChatPrompt, setInitialChatPrompt] = useState<string | undefined>(undefined);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  // In-flight image analysis and item search; a newer upload or selection cancels the older one.
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const itemAbortRef = useRef<AbortController | null>(null);
+  const refineAbortRef = useRef<AbortController | null>(null);
+  // Repeats whatever produced the error currently shown, for the banner's retry button.
+  const retryRef = useRef<(() => void) | null>(null);
+  const [sessions, setSessions] = useState<ShoppingSessionSummary[]>([]);
+  const [wishlist, setWishlist] = useState<WishlistState>(loadWishlist);
+  const [isWishlistOpen, setIsWishlistOpen] = useState(false);
+  const [detailProduct, setDetailProduct] = useState<Product | null>(null);
+  const [compareSelection, setCompareSelection] = useState<Product[]>([]);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [filters, setFilters] = useState<ProductFilters>(() => readFiltersFromQuery(window.location.search));
+  const [styleProfile, setProfile] = useState<StyleProfile>(loadStyleProfile);
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [queryMode, setQueryMode] = useState<QueryMode>('photo');
+  const [localeSettings, setLocaleSettings] = useState<LocaleSettings>(loadLocaleSettings);
+  const [sharedResult, setSharedResult] = useState<SharedResult | null>(null); // Shown read-only in place of the results
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const i18n = useMemo(() => createI18n(localeSettings), [localeSettings]);
+  const { t } = i18n;
+
+  useEffect(() => {
+    saveWishlist(wishlist);
+  }, [wishlist]);
+
+  // The AI prompts read the profile from the service, so keep it in step with what is saved.
+  useEffect(() => {
+    saveStyleProfile(styleProfile);
+    setStyleProfile(styleProfile);
+  }, [styleProfile]);
+
+  // Prompts read the language from the service; the page direction follows it for right-to-left languages.
+  useEffect(() => {
+    saveLocaleSettings(localeSettings);
+    setResponseLocale(localeSettings);
+    document.documentElement.lang = localeSettings.locale;
+    document.documentElement.dir = i18n.dir;
+  }, [localeSettings, i18n.dir]);
+
+  // Mirror the grid filters into the URL so a filtered view can be shared or bookmarked.
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    const nextSearch = writeFiltersToQuery(search, filters);
+    if (nextSearch !== search) {
+      window.history.replaceState(window.history.state, '', `${pathname}${nextSearch}${hash}`);
+    }
+  }, [filters]);
+
+  const showSharedOpenError = useCallback((err: unknown) => {
+    console.warn("Could not open shared result:", err);
+    retryRef.current = null;
+    setState(prev => ({ ...prev, error: t('shared.openFailed'), errorKind: null }));
+  }, [t]);
+
+  // Links made with "Share" carry the result in the URL fragment and open it read-only.
+  useEffect(() => {
+    const openFromHash = () => {
+      const payload = getSharePayload(window.location.hash);
+      if (!payload) return;
+      decodeSharePayload(payload).then(setSharedResult).catch(showSharedOpenError);
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, [showSharedOpenError]);
+
+  const handleExitShared = useCallback(() => {
+    const { pathname, search, hash } = window.location;
+    if (getSharePayload(hash)) {
+      window.history.replaceState(window.history.state, '', `${pathname}${search}`);
+    }
+    setSharedResult(null);
+  }, []);
+
+  const handleOpenSharedFile = useCallback(async (file: File) => {
+    try {
+      setSharedResult(parseSharedResultFile(await file.text()));
+    } catch (err) {
+      showSharedOpenError(err);
+    }
+  }, [showSharedOpenError]);
+
+  // Starting or opening a search of your own leaves the shared view.
+  useEffect(() => {
+    if (state.sessionId) handleExitShared();
+  }, [state.sessionId, handleExitShared]);
+
+  const refreshSessions = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => console.warn("Could not load saved sessions:", err));
+  }, []);
+
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  // Single and multi-image uploads share one flow; the first image stands in for the session thumbnail and chat.
+  const handleImagesUpload = useCallback(async (images: UploadedImage[], mode: AnalysisMode) => {
+    if (images.length === 0) return;
+    const [primary] = images;
+    // A reply still streaming, or an analysis still running, for the previous image is no longer relevant.
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
+    analysisAbortRef.current?.abort();
+    itemAbortRef.current?.abort();
+    refineAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    retryRef.current = null;
+
+    const sessionId = createSessionId();
+    createThumbnail(primary.base64, primary.mimeType)
+      .then(thumbnail => setState(prev => (prev.sessionId === sessionId ? { ...prev, sessionThumbnail: thumbnail } : prev)))
+      .catch(err => console.warn("Could not create session thumbnail:", err));
 
-  const handleImageUpload = useCallback(async (base64Image: string, imageType: string) => {
     setState(prev => ({ 
       ...prev, 
+      sessionId,
+      sessionThumbnail: null,
       isLoading: true, 
       loadingState: LoadingState.ANALYZING_IMAGE,
-      uploadedImage: base64Image, 
-      uploadedImageType: imageType,
-      error: null, 
-      similarProducts: [], 
-      complementaryProducts: [],
-      chatMessages: [], // Reset chat on new image
-      analyzedText: null,
+      uploadedImage: primary.base64, 
+      uploadedImageType: primary.mimeType,
+      uploadedImages: images,
+      analysisMode: mode,
+      ...clearedResults,
     }));
 
+    // Item detection only makes sense for a single photo; it runs alongside the analysis and
+    // adds its boxes whenever it finishes, without holding up the first results.
+    if (images.length === 1) {
+      detectItemsInImage(primary.base64, primary.mimeType, controller.signal).then(detectedItems =>
+        setState(prev => (prev.sessionId === sessionId ? { ...prev, detectedItems } : prev))
+      );
+    }
+
     try {
-      const result = await analyzeImageAndSuggestProducts(base64Image, imageType);
+      const result = await analyzeImagesAndSuggestProducts(images, mode, undefined, controller.signal);
+      if (analysisAbortRef.current !== controller) return;
       const newChat = startChatSession();
       
       let initialMessages: ChatMessage[] = [];
-      if(result.analysis && !result.analysis.startsWith("Error:")) {
+      if(result.analysis) {
         initialMessages.push({
           id: Date.now().toString(),
           sender: 'ai',
-          text: `Okay, I've analyzed your image! Here's what I see: ${result.analysis}`,
+          text: t('chat.analyzed', { count: images.length, analysis: result.analysis }),
           timestamp: new Date(),
         });
-        setInitialChatPrompt(`Tell me more about similar items or what I can pair with this.`);
+        setInitialChatPrompt(t('chat.suggestPairings'));
       } else {
          initialMessages.push({
           id: Date.now().toString(),
           sender: 'ai',
-          text: result.analysis.startsWith("Error:") ? result.analysis : "I've processed the image. How can I help you find what you're looking for?",
+          text: t('chat.processed'),
           timestamp: new Date(),
         });
-        setInitialChatPrompt(`Can you find products like in the image?`);
+        setInitialChatPrompt(t('chat.suggestFindLikeImage'));
       }
 
 
       setState(prev => ({
         ...prev,
-        analyzedText: result.analysis,
-        similarProducts: result.similarProducts,
-        complementaryProducts: result.complementaryProducts,
+        ...toAnalysisState(result),
         currentChat: newChat,
         chatMessages: initialMessages,
         isLoading: false,
         loadingState: LoadingState.IDLE,
       }));
     } catch (err) {
+      // Cancelled by a newer upload or session change, which has already reset the state.
+      if (isCancellation(err) || analysisAbortRef.current !== controller) return;
       console.error(err);
-      const errorMsg = err instanceof Error ? err.message : 'An unknown error occurred.';
+      const error = toAIError(err);
+      retryRef.current = () => handleImagesUpload(images, mode);
       setState(prev => ({ 
         ...prev, 
-        error: `Failed to analyze image: ${errorMsg}`, 
+        error: `${t('error.analyzeImages', { count: images.length })} ${t(`aiError.${error.kind}`)}`,
+        errorKind: error.kind,
+        validationIssues: error instanceof AIParseError ? error.issues : [],
+        isLoading: false,
+        loadingState: LoadingState.IDLE,
+      }));
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+      }
+    }
+  }, [t]);
+
+  // Typed and spoken requests take the photo flow's place: same tabs and chat, no thumbnail or item detection.
+  // The query opens the chat, so follow-up messages have it as context.
+  const handleTextQuery = useCallback(async (query: string) => {
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
+    analysisAbortRef.current?.abort();
+    itemAbortRef.current?.abort();
+    refineAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    retryRef.current = null;
+
+    setState(prev => ({
+      ...prev,
+      sessionId: createSessionId(),
+      sessionThumbnail: null,
+      isLoading: true,
+      loadingState: LoadingState.ANALYZING_QUERY,
+      uploadedImage: null,
+      uploadedImageType: null,
+      uploadedImages: [],
+      analysisMode: 'outfit',
+      ...clearedResults,
+    }));
+
+    try {
+      const result = await analyzeTextQueryAndSuggestProducts(query, controller.signal);
+      if (analysisAbortRef.current !== controller) return;
+      const now = Date.now();
+      const chatMessages: ChatMessage[] = [
+        { id: now.toString(), sender: 'user', text: query, timestamp: new Date(now) },
+        { id: (now + 1).toString(), sender: 'ai', text: t('chat.understood', { analysis: result.analysis }), timestamp: new Date(now) },
+      ];
+      setInitialChatPrompt(t('chat.suggestMoreOptions'));
+      setState(prev => ({
+        ...prev,
+        ...toAnalysisState(result),
+        currentChat: startChatSession(chatMessages),
+        chatMessages,
         isLoading: false,
         loadingState: LoadingState.IDLE,
       }));
+    } catch (err) {
+      if (isCancellation(err) || analysisAbortRef.current !== controller) return;
+      console.error(err);
+      const error = toAIError(err);
+      retryRef.current = () => handleTextQuery(query);
+      setState(prev => ({
+        ...prev,
+        error: `${t('error.textQuery', { query })} ${t(`aiError.${error.kind}`)}`,
+        errorKind: error.kind,
+        validationIssues: error instanceof AIParseError ? error.issues : [],
+        isLoading: false,
+        loadingState: LoadingState.IDLE,
+      }));
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+      }
+    }
+  }, [t]);
+
+  const handleImageUpload = useCallback((base64Image: string, imageType: string) => {
+    handleImagesUpload([{ id: 'image-0', base64: base64Image, mimeType: imageType }], 'outfit');
+  }, [handleImagesUpload]);
+
+  // Switching between detected items reuses cached results; only a first visit searches the catalog.
+  // Chat refinements belong to the item they were made on, so they start over.
+  const handleSelectItem = useCallback(async (itemId: string | null) => {
+    refineAbortRef.current?.abort();
+    const reset = { selectedItemId: itemId, constraints: {}, resultsHistory: [] };
+    const cached = state.itemResults[itemId ?? WHOLE_PHOTO_RESULTS_KEY];
+    if (cached) {
+      setState(prev => ({ ...prev, ...cached, ...reset, loadingState: LoadingState.IDLE, isLoading: false }));
+      return;
+    }
+    const item = state.detectedItems.find(detected => detected.id === itemId);
+    if (!item) return;
+
+    const sessionId = state.sessionId;
+    itemAbortRef.current?.abort();
+    const controller = new AbortController();
+    itemAbortRef.current = controller;
+    retryRef.current = null;
+    setState(prev => ({ ...prev, ...reset, loadingState: LoadingState.SEARCHING_ITEM, isLoading: true, error: null, errorKind: null }));
+    try {
+      const { validationIssues, ...products } = await suggestProductsForItem(item, undefined, controller.signal);
+      setState(prev => {
+        if (prev.sessionId !== sessionId) return prev;
+        const itemResults = { ...prev.itemResults, [item.id]: products };
+        // The shopper may have moved on to another box while this one was loading.
+        if (prev.selectedItemId !== item.id) return { ...prev, itemResults };
+        return {
+          ...prev,
+          ...products,
+          itemResults,
+          validationIssues,
+          activeTab: 'similar',
+          loadingState: LoadingState.IDLE,
+          isLoading: false,
+        };
+      });
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error(err);
+      const error = toAIError(err);
+      retryRef.current = () => handleSelectItem(item.id);
+      setState(prev => (prev.sessionId === sessionId && prev.selectedItemId === item.id
+        ? {
+            ...prev,
+            error: `${t('error.itemSearch', { label: item.label })} ${t(`aiError.${error.kind}`)}`,
+            errorKind: error.kind,
+            loadingState: LoadingState.IDLE,
+            isLoading: false,
+          }
+        : prev));
+    } finally {
+      if (itemAbortRef.current === controller) {
+        itemAbortRef.current = null;
+      }
     }
+  }, [state.itemResults, state.detectedItems, state.sessionId, t]);
+
+  const selectedItem = state.detectedItems.find(item => item.id === state.selectedItemId) ?? null;
+
+  // Re-runs the grid's search with new constraints, keeping the current results so they can be restored.
+  // Takes the new constraints, or a function of the current ones for changes that arrive late (a chat reply
+  // can finish after the shopper has dropped chips). A late change also names the session and item it was
+  // made for, and is dropped if the shopper has moved on. Nothing is searched when the constraints end up unchanged.
+  const applyConstraints = useCallback(async (
+    update: SearchConstraints | ((current: SearchConstraints) => SearchConstraints),
+    origin?: Pick<AppState, 'sessionId' | 'selectedItemId'>
+  ) => {
+    let applied = null as { constraints: SearchConstraints; base: SearchBase; sessionId: string | null; selectedItemId: string | null } | null;
+    // Flushed so the search below uses the state the update was applied to.
+    flushSync(() => setState(prev => {
+      applied = null;
+      if (origin && (origin.sessionId !== prev.sessionId || origin.selectedItemId !== prev.selectedItemId)) return prev;
+      const item = prev.detectedItems.find(detected => detected.id === prev.selectedItemId);
+      const base = item ? toSearchBase(item) : prev.searchBase;
+      const next = typeof update === 'function' ? update(prev.constraints) : update;
+      if (!base || isSameConstraints(next, prev.constraints)) return prev;
+      applied = { constraints: next, base, sessionId: prev.sessionId, selectedItemId: prev.selectedItemId };
+      return {
+        ...prev,
+        constraints: next,
+        resultsHistory: [
+          ...prev.resultsHistory,
+          { similarProducts: prev.similarProducts, complementaryProducts: prev.complementaryProducts, constraints: prev.constraints },
+        ].slice(-MAX_RESULTS_HISTORY),
+        loadingState: LoadingState.REFINING,
+        isLoading: true,
+        error: null,
+        errorKind: null,
+      };
+    }));
+    if (!applied) return;
+    const { constraints, base, sessionId, selectedItemId } = applied;
+    const isCurrent = (current: AppState) => current.sessionId === sessionId && current.selectedItemId === selectedItemId;
+    refineAbortRef.current?.abort();
+    const controller = new AbortController();
+    refineAbortRef.current = controller;
+    retryRef.current = null;
+    try {
+      const { validationIssues, ...products } = await refineProductSearch(base, constraints, controller.signal);
+      setState(prev => (isCurrent(prev)
+        ? { ...prev, ...products, validationIssues, loadingState: LoadingState.IDLE, isLoading: false }
+        : prev));
+    } catch (err) {
+      // Cancelled by undo, another refinement or a new upload, each of which has already set the state.
+      if (isCancellation(err)) return;
+      console.error(err);
+      const error = toAIError(err);
+      retryRef.current = () => applyConstraints(constraints);
+      // The grid still shows the old results, so the chips go back to the constraints that produced them.
+      setState(prev => {
+        if (!isCurrent(prev)) return prev;
+        const previous = prev.resultsHistory[prev.resultsHistory.length - 1];
+        return {
+          ...prev,
+          constraints: previous ? previous.constraints : prev.constraints,
+          resultsHistory: prev.resultsHistory.slice(0, -1),
+          error: `${t('error.refine')} ${t(`aiError.${error.kind}`)}`,
+          errorKind: error.kind,
+          loadingState: LoadingState.IDLE,
+          isLoading: false,
+        };
+      });
+    } finally {
+      if (refineAbortRef.current === controller) {
+        refineAbortRef.current = null;
+      }
+    }
+  }, [t]);
+
+  const handleRemoveConstraint = useCallback((key: SearchConstraintKey) => {
+    applyConstraints(current => removeConstraint(current, key));
+  }, [applyConstraints]);
+
+  const handleUndoResults = useCallback(() => {
+    refineAbortRef.current?.abort();
+    setState(prev => {
+      const previous = prev.resultsHistory[prev.resultsHistory.length - 1];
+      if (!previous) return prev;
+      return {
+        ...prev,
+        ...previous,
+        resultsHistory: prev.resultsHistory.slice(0, -1),
+        loadingState: prev.loadingState === LoadingState.REFINING ? LoadingState.IDLE : prev.loadingState,
+        isLoading: prev.loadingState === LoadingState.REFINING ? false : prev.isLoading,
+      };
+    });
   }, []);
 
   const handleSendMessage = useCallback(async (messageText: string) => {
     if (!state.currentChat) return;
+    // What the reply's refinements are for; they are dropped if the shopper opens another session or item meanwhile.
+    const origin = { sessionId: state.sessionId, selectedItemId: state.selectedItemId };
 
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
@@ -105,43 +571,277 @@ const App: React.FC = () => {
       isLoading: true,
       loadingState: LoadingState.CHATTING,
       error: null,
+      errorKind: null,
     }));
 
+    const aiMessageId = (Date.now() + 1).toString();
+    const aiTimestamp = new Date();
+    // Inserts the AI message on the first chunk, then updates it in place as more text arrives.
+    const upsertAiMessage = (messages: ChatMessage[], update: Partial<ChatMessage>): ChatMessage[] => {
+      if (messages.some(msg => msg.id === aiMessageId)) {
+        return messages.map(msg => (msg.id === aiMessageId ? { ...msg, ...update } : msg));
+      }
+      return [...messages, { id: aiMessageId, sender: 'ai', text: '', timestamp: aiTimestamp, ...update }];
+    };
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    const isSuperseded = () => chatAbortRef.current !== controller;
+
     try {
-      const aiResponseText = await sendMessageInChat(state.currentChat, messageText);
-      const aiMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        sender: 'ai',
-        text: aiResponseText,
-        timestamp: new Date(),
-      };
+      const aiReply = await streamMessageInChat(state.currentChat, messageText, (replySoFar) => {
+        if (isSuperseded()) return;
+        setState(prev => ({
+          ...prev,
+          chatMessages: upsertAiMessage(prev.chatMessages, {
+            text: replySoFar.text,
+            products: replySoFar.products,
+            productTarget: replySoFar.productTarget,
+            isStreaming: true,
+          }),
+          loadingState: LoadingState.STREAMING,
+        }));
+      }, controller.signal);
+      if (isSuperseded()) return;
+      const wasStopped = controller.signal.aborted;
       setState(prev => ({
         ...prev,
-        chatMessages: [...prev.chatMessages, aiMessage],
+        chatMessages: upsertAiMessage(prev.chatMessages, {
+          text: aiReply.text || (wasStopped ? t('chat.responseStopped') : ''),
+          products: aiReply.products,
+          productTarget: aiReply.productTarget,
+          isStreaming: false,
+          wasStopped,
+          ...(aiReply.profileUpdate && describeStyleProfile(aiReply.profileUpdate).length > 0
+            ? { profileUpdate: aiReply.profileUpdate, profileUpdateStatus: 'pending' as const }
+            : {}),
+        }),
         isLoading: false,
         loadingState: LoadingState.IDLE,
       }));
+      const { constraintChange } = aiReply;
+      if (constraintChange && !wasStopped) {
+        applyConstraints(current => applyConstraintChange(current, constraintChange), origin);
+      }
     } catch (err) {
       console.error(err);
-      const errorMsg = err instanceof Error ? err.message : 'An unknown error occurred during chat.';
-      const aiErrorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        sender: 'ai',
-        text: `Sorry, I encountered an error: ${errorMsg}`,
-        timestamp: new Date(),
-      };
+      if (isSuperseded()) return;
+      // Any partial text already streamed stays; the message shows what went wrong with a retry button.
       setState(prev => ({
         ...prev,
-        chatMessages: [...prev.chatMessages, aiErrorMessage],
+        chatMessages: upsertAiMessage(prev.chatMessages, {
+          isStreaming: false,
+          errorKind: toAIError(err).kind,
+        }),
         isLoading: false,
         loadingState: LoadingState.IDLE,
       }));
+    } finally {
+      if (!isSuperseded()) {
+        chatAbortRef.current = null;
+      }
     }
-  }, [state.currentChat]);
+  }, [state.currentChat, state.sessionId, state.selectedItemId, applyConstraints, t]);
+
+  // Drops a failed reply and the question before it, then asks that question again.
+  const handleRetryMessage = useCallback((messageId: string) => {
+    const index = state.chatMessages.findIndex(msg => msg.id === messageId);
+    const question = state.chatMessages.slice(0, index).reverse().find(msg => msg.sender === 'user');
+    if (index === -1 || !question) return;
+    setState(prev => ({ ...prev, chatMessages: prev.chatMessages.filter(msg => msg.id !== messageId && msg.id !== question.id) }));
+    handleSendMessage(question.text);
+  }, [state.chatMessages, handleSendMessage]);
+
+  // Saving from the settings panel restarts the chat with the same history, since the profile is part of its instructions.
+  const handleSaveProfile = useCallback((profile: StyleProfile) => {
+    setProfile(profile);
+    setStyleProfile(profile);
+    if (state.currentChat) {
+      const chat = startChatSession(state.chatMessages);
+      setState(prev => ({ ...prev, currentChat: chat }));
+    }
+  }, [state.currentChat, state.chatMessages]);
+
+  // The chat's instructions carry the reply language, so a new choice restarts it with the same history.
+  const handleChangeLocale = useCallback((settings: LocaleSettings) => {
+    setLocaleSettings(settings);
+    setResponseLocale(settings);
+    if (state.currentChat) {
+      const chat = startChatSession(state.chatMessages);
+      setState(prev => ({ ...prev, currentChat: chat }));
+    }
+  }, [state.currentChat, state.chatMessages]);
+
+  // A preference the AI offered to remember is only saved once the shopper agrees. The chat already knows
+  // about it from the conversation, so it keeps going as is.
+  const handleResolveProfileUpdate = useCallback((messageId: string, accepted: boolean) => {
+    const update = state.chatMessages.find(msg => msg.id === messageId)?.profileUpdate;
+    if (!update) return;
+    if (accepted) setProfile(prev => applyStyleProfileUpdate(prev, update));
+    setState(prev => ({
+      ...prev,
+      chatMessages: prev.chatMessages.map(msg =>
+        msg.id === messageId ? { ...msg, profileUpdateStatus: accepted ? 'saved' : 'dismissed' } : msg
+      ),
+    }));
+  }, [state.chatMessages]);
+
+  const handleToggleFavorite = useCallback((product: Product) => {
+    const source = {
+      sessionId: state.sessionId,
+      title: buildSessionTitle(state.analyzedText, state.analyzedAttributes),
+    };
+    setWishlist(prev => (isInWishlist(prev, product.id) ? removeFromWishlist(prev, product.id) : addToWishlist(prev, product, source)));
+  }, [state.sessionId, state.analyzedText, state.analyzedAttributes]);
+
+  // Chat suggestions can either replace a product tab or be appended to it, skipping items already shown.
+  const handleApplyChatProducts = useCallback((products: Product[], target: ProductListKind, mode: 'replace' | 'extend') => {
+    setState(prev => {
+      const key = target === 'similar' ? 'similarProducts' : 'complementaryProducts';
+      const existingIds = new Set(prev[key].map(p => p.id));
+      const nextProducts = mode === 'replace' ? products : [...prev[key], ...products.filter(p => !existingIds.has(p.id))];
+      return { ...prev, [key]: nextProducts, activeTab: target };
+    });
+  }, []);
+
+  const handleToggleCompare = useCallback((product: Product) => {
+    setCompareSelection(prev => {
+      if (prev.some(p => p.id === product.id)) return prev.filter(p => p.id !== product.id);
+      return prev.length < MAX_COMPARE_PRODUCTS ? [...prev, product] : prev;
+    });
+  }, []);
+
+  const handleDismissError = useCallback(() => {
+    retryRef.current = null;
+    setState(prev => ({ ...prev, error: null, errorKind: null }));
+  }, []);
+
+  const handleRetry = useCallback(() => {
+    const retry = retryRef.current;
+    handleDismissError();
+    retry?.();
+  }, [handleDismissError]);
+
+  const handleStopGenerating = useCallback(() => {
+    chatAbortRef.current?.abort();
+  }, []);
 
   const openCheckoutModal = () => setState(prev => ({ ...prev, isCheckoutModalOpen: true }));
   const closeCheckoutModal = () => setState(prev => ({ ...prev, isCheckoutModalOpen: false }));
 
+  const handleAddToCart = useCallback((product: Product) => {
+    setCart(prev => ({ ...prev, items: addToCart(prev.items, product) }));
+  }, []);
+
+  const handleRemoveFromCart = useCallback((productId: string) => {
+    setCart(prev => ({ ...prev, items: removeFromCart(prev.items, productId) }));
+  }, []);
+
+  const handleUpdateCartQuantity = useCallback((productId: string, quantity: number) => {
+    setCart(prev => ({ ...prev, items: updateCartQuantity(prev.items, productId, quantity) }));
+  }, []);
+
+  const handlePlaceOrder = useCallback(() => {
+    setCart(initialCartState);
+  }, []);
+
+  const handleOpenSession = useCallback(async (id: string) => {
+    try {
+      const session = await getSession(id);
+      if (!session) {
+        refreshSessions();
+        return;
+      }
+      chatAbortRef.current?.abort();
+      chatAbortRef.current = null;
+      analysisAbortRef.current?.abort();
+      itemAbortRef.current?.abort();
+      refineAbortRef.current?.abort();
+      retryRef.current = null;
+      setState(prev => ({
+        ...prev,
+        sessionId: session.id,
+        sessionThumbnail: session.thumbnail,
+        // Only the thumbnail is stored, which is enough to show what the session was about.
+        uploadedImage: session.thumbnail ? session.thumbnail.split(',')[1] : null,
+        uploadedImageType: session.thumbnail ? 'image/jpeg' : null,
+        uploadedImages: [],
+        imageResults: [],
+        imageAltTexts: [],
+        comparison: null,
+        detectedItems: [],
+        selectedItemId: null,
+        itemResults: {},
+        analyzedText: session.analyzedText,
+        analyzedAttributes: session.attributes ?? null,
+        searchBase: session.attributes
+          ? { description: session.analyzedText ?? '', attributes: [session.attributes], complementaryItemTypes: [] }
+          : null,
+        constraints: {},
+        resultsHistory: [],
+        similarProducts: session.similarProducts,
+        complementaryProducts: session.complementaryProducts,
+        validationIssues: [],
+        chatMessages: session.chatMessages,
+        currentChat: startChatSession(session.chatMessages),
+        isLoading: false,
+        loadingState: LoadingState.IDLE,
+        error: null,
+        errorKind: null,
+        activeTab: 'similar',
+      }));
+    } catch (err) {
+      console.error(err);
+      retryRef.current = null;
+      setState(prev => ({ ...prev, error: t('error.openSession'), errorKind: null }));
+    }
+  }, [refreshSessions, t]);
+
+  const handleDeleteSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+      // Stop auto-saving if the open session was deleted, so it doesn't reappear.
+      setState(prev => (prev.sessionId === id ? { ...prev, sessionId: null } : prev));
+    } catch (err) {
+      console.error(err);
+    }
+    refreshSessions();
+  }, [refreshSessions]);
+
+  const handleNewSession = useCallback(() => {
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
+    analysisAbortRef.current?.abort();
+    itemAbortRef.current?.abort();
+    refineAbortRef.current?.abort();
+    retryRef.current = null;
+    setState(prev => ({ ...initialState, isCheckoutModalOpen: prev.isCheckoutModalOpen }));
+  }, []);
+
+  // Save the session whenever its content settles (not while a reply is streaming in).
+  useEffect(() => {
+    if (!state.sessionId || !state.analyzedText || state.loadingState !== LoadingState.IDLE) return;
+    const timer = setTimeout(() => {
+      saveSession({
+        id: state.sessionId!,
+        title: buildSessionTitle(state.analyzedText, state.analyzedAttributes),
+        updatedAt: new Date(),
+        thumbnail: state.sessionThumbnail,
+        analyzedText: state.analyzedText,
+        attributes: state.analyzedAttributes ?? undefined,
+        similarProducts: state.similarProducts,
+        complementaryProducts: state.complementaryProducts,
+        chatMessages: state.chatMessages,
+      })
+        .then(refreshSessions)
+        .catch(err => console.warn("Could not save session:", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [
+    state.sessionId, state.sessionThumbnail, state.analyzedText, state.analyzedAttributes, state.loadingState,
+    state.similarProducts, state.complementaryProducts, state.chatMessages, refreshSessions,
+  ]);
+
   // Effect to clear initial chat prompt after it's used
   useEffect(() => {
     if (initialChatPrompt && state.chatMessages.length > 0) {
@@ -152,135 +852,415 @@ const App: React.FC = () => {
   }, [initialChatPrompt, state.chatMessages.length]);
 
 
-  const productsToDisplay = state.activeTab === 'similar' ? state.similarProducts : state.complementaryProducts;
+  const allProducts = [
+    ...state.similarProducts,
+    ...state.complementaryProducts.filter(p => !state.similarProducts.some(similar => similar.id === p.id)),
+  ];
+  const filteredByTab: Record<ProductTab, Product[]> = {
+    all: applyProductFilters(allProducts, filters),
+    similar: applyProductFilters(state.similarProducts, filters),
+    complementary: applyProductFilters(state.complementaryProducts, filters),
+  };
+  const productsToDisplay = filteredByTab[state.activeTab];
+  const favoriteProductIds = wishlist.items.map(item => item.product.id);
+  const isAnalyzing = state.loadingState === LoadingState.ANALYZING_IMAGE || state.loadingState === LoadingState.ANALYZING_QUERY;
+  const cartItemCount = getCartItemCount(cart.items);
+
+  // Arrow keys move between product tabs (mirrored in right-to-left layouts), Home and End jump to the ends.
+  const handleTabKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+    const current = productTabs.findIndex(({ tab }) => tab === state.activeTab);
+    const forward = i18n.dir === 'rtl' ? 'ArrowLeft' : 'ArrowRight';
+    const backward = i18n.dir === 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+    const next = event.key === forward ? (current + 1) % productTabs.length
+      : event.key === backward ? (current - 1 + productTabs.length) % productTabs.length
+      : event.key === 'Home' ? 0
+      : event.key === 'End' ? productTabs.length - 1
+      : -1;
+    if (next < 0) return;
+    event.preventDefault();
+    const { tab } = productTabs[next];
+    setState(prev => ({ ...prev, activeTab: tab }));
+    document.getElementById(getProductTabId(tab))?.focus();
+  };
 
   return (
+    <I18nProvider value={i18n}>
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white">
+      <a
+        href="#main-content"
+        className="sr-only focus:not-sr-only focus:absolute focus:top-2 focus:start-2 focus:z-50 focus:bg-white focus:text-indigo-700 focus:px-4 focus:py-2 focus:rounded-md focus:shadow-lg"
+      >
+        {t('app.skipToContent')}
+      </a>
       <header className="py-6 px-4 sm:px-8 shadow-2xl bg-opacity-50 bg-black backdrop-blur-md">
-        <div className="container mx-auto flex justify-between items-center">
+        <div className="container mx-auto flex flex-wrap gap-4 justify-between items-center">
             <h1 className="text-4xl font-bold tracking-tight">
-                <i className="fas fa-magic mr-3 text-indigo-400"></i>ShopSmarter AI
+                <i className="fas fa-magic me-3 text-indigo-400"></i>{t('app.title')}
             </h1>
-            { (state.similarProducts.length > 0 || state.complementaryProducts.length > 0) && (
+            <div className="flex flex-wrap items-center gap-3">
+                <LocalePicker settings={localeSettings} onChange={handleChangeLocale} />
                 <button
-                    onClick={openCheckoutModal}
-                    className="bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-6 rounded-lg shadow-md transition duration-150 ease-in-out transform hover:scale-105"
+                    onClick={() => setIsProfileOpen(true)}
+                    className="bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-lg shadow-md transition duration-150 ease-in-out"
+                    title={isStyleProfileEmpty(styleProfile) ? t('header.styleProfileSetUp') : t('header.styleProfileEdit')}
                 >
-                    <i className="fas fa-shopping-cart mr-2"></i>Proceed to Checkout
+                    <i className="fas fa-user-cog me-2 text-indigo-300"></i>{t('header.styleProfile')}
                 </button>
-            )}
+                <button
+                    onClick={() => setIsWishlistOpen(true)}
+                    className="bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-lg shadow-md transition duration-150 ease-in-out"
+                >
+                    <i className="fas fa-heart me-2 text-pink-400"></i>{t('header.wishlist', { count: wishlist.items.length })}
+                </button>
+                { (cartItemCount > 0 || state.similarProducts.length > 0 || state.complementaryProducts.length > 0) && (
+                    <button
+                        onClick={openCheckoutModal}
+                        className="bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-6 rounded-lg shadow-md transition duration-150 ease-in-out transform hover:scale-105"
+                    >
+                        <i className="fas fa-shopping-cart me-2"></i>{t('header.checkout', { count: cartItemCount })}
+                    </button>
+                )}
+            </div>
         </div>
       </header>
 
-      <main className="flex-grow container mx-auto p-4 sm:p-8 grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <main id="main-content" tabIndex={-1} className="focus:outline-none flex-grow container mx-auto p-4 sm:p-8 grid grid-cols-1 lg:grid-cols-12 gap-6">
         <div className="lg:col-span-4 space-y-6">
             <div className="bg-white/10 backdrop-blur-md p-6 rounded-xl shadow-xl">
-                <h2 className="text-2xl font-semibold mb-4 text-indigo-300">1. Upload Your Inspiration</h2>
-                <ImageUpload onImageUpload={handleImageUpload} isLoading={state.loadingState === LoadingState.ANALYZING_IMAGE} />
+                <h2 className="text-2xl font-semibold mb-4 text-indigo-300">{t('search.heading')}</h2>
+                <div className="flex gap-1 mb-4 p-1 bg-black/20 rounded-lg" role="group" aria-label={t('search.modes')}>
+                  {queryModes.map(({ mode, label, icon }) => (
+                    <button
+                      key={mode}
+                      onClick={() => setQueryMode(mode)}
+                      aria-pressed={queryMode === mode}
+                      className={`flex-1 py-1 px-2 text-sm rounded-md transition duration-150 ease-in-out ${
+                        queryMode === mode ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-white/10'
+                      }`}
+                    >
+                      <i className={`fas ${icon} me-1`}></i>{t(label)}
+                    </button>
+                  ))}
+                </div>
+                {queryMode === 'photo' ? (
+                  <ImageUpload
+                      onImageUpload={handleImageUpload}
+                      onImagesUpload={handleImagesUpload}
+                      detectedItems={state.detectedItems}
+                      selectedItemId={state.selectedItemId}
+                      onSelectItem={handleSelectItem}
+                      isLoading={isAnalyzing}
+                      previewUrl={state.uploadedImage && state.uploadedImageType ? toDataUrl(state.uploadedImage, state.uploadedImageType) : null}
+                      previewAlt={state.imageAltTexts[0] || undefined}
+                  />
+                ) : (
+                  <TextQueryInput onSubmit={handleTextQuery} isLoading={isAnalyzing} lang={localeSettings.locale} />
+                )}
+            </div>
+            <div className="bg-white/10 backdrop-blur-md p-6 rounded-xl shadow-xl">
+                <SessionSidebar
+                    sessions={sessions}
+                    activeSessionId={state.sessionId}
+                    onOpenSession={handleOpenSession}
+                    onDeleteSession={handleDeleteSession}
+                    onNewSession={handleNewSession}
+                    onOpenSharedFile={handleOpenSharedFile}
+                />
             </div>
             {state.error && (
-                <div className="bg-red-500/20 text-red-300 p-4 rounded-lg shadow-md">
-                    <p className="font-semibold">Error:</p>
-                    <p>{state.error}</p>
-                </div>
+                <ErrorNotice
+                    message={state.error}
+                    kind={state.errorKind}
+                    onRetry={retryRef.current ? handleRetry : undefined}
+                    onDismiss={handleDismissError}
+                />
             )}
         </div>
 
         <div className="lg:col-span-8 flex flex-col space-y-6 mt-6 lg:mt-0">
-          {state.loadingState === LoadingState.ANALYZING_IMAGE && (
+          {sharedResult ? (
+            <SharedResultView result={sharedResult} onExit={handleExitShared} />
+          ) : (<>
+          {isAnalyzing && (
              <div className="flex flex-col items-center justify-center bg-white/10 backdrop-blur-md p-10 rounded-xl shadow-xl min-h-[300px]">
-                <LoadingSpinner size="lg" message="Analyzing image and finding products..." />
+                <LoadingSpinner
+                  size="lg"
+                  message={state.loadingState === LoadingState.ANALYZING_QUERY ? t('search.analyzingQuery') : t('search.analyzingImage')}
+                />
              </div>
           )}
           
-          {state.loadingState !== LoadingState.ANALYZING_IMAGE && (state.similarProducts.length > 0 || state.complementaryProducts.length > 0) && (
+          {!isAnalyzing && state.analysisMode === 'compare' && state.imageResults.length > 1 && (
             <div className="bg-white/10 backdrop-blur-md p-6 rounded-xl shadow-xl">
-              <h2 className="text-2xl font-semibold mb-1 text-indigo-300">2. Discover Products</h2>
-              {state.analyzedText && !state.analyzedText.startsWith("Error:") && <p className="text-sm text-gray-300 mb-4 italic">"{state.analyzedText}"</p>}
+              <h2 className="text-2xl font-semibold mb-4 text-indigo-300">{t('comparison.heading')}</h2>
+              <ImageComparison
+                images={state.uploadedImages}
+                results={state.imageResults}
+                comparison={state.comparison}
+                cartItems={cart.items}
+                onAddToCart={handleAddToCart}
+                onRemoveFromCart={handleRemoveFromCart}
+                favoriteProductIds={favoriteProductIds}
+                onToggleFavorite={handleToggleFavorite}
+                onViewDetails={setDetailProduct}
+              />
+            </div>
+          )}
+
+          {!isAnalyzing && (state.similarProducts.length > 0 || state.complementaryProducts.length > 0 || state.detectedItems.length > 0 || hasConstraints(state.constraints)) && (
+            <div className="bg-white/10 backdrop-blur-md p-6 rounded-xl shadow-xl">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                <h2 className="text-2xl font-semibold text-indigo-300">{t('discover.heading')}</h2>
+                <button
+                  onClick={() => setIsShareOpen(true)}
+                  className="bg-white/10 hover:bg-white/20 text-white text-sm font-semibold py-2 px-4 rounded-lg transition duration-150 ease-in-out"
+                  title={t('share.openHint')}
+                >
+                  <i className="fas fa-share-alt me-2" aria-hidden="true"></i>{t('share.open')}
+                </button>
+              </div>
+              {state.analyzedText && <p className="text-sm text-gray-300 mb-4 italic">"{state.analyzedText}"</p>}
+              {selectedItem && (
+                <div className="mb-4 flex items-center text-sm">
+                  <span className="bg-indigo-500/30 text-indigo-100 px-3 py-1 rounded-full">
+                    <i className="fas fa-crosshairs me-2"></i>{t('discover.shoppingFor', { label: selectedItem.label })}
+                  </span>
+                  <button onClick={() => handleSelectItem(null)} className="ms-3 text-gray-300 hover:text-white underline">
+                    {t('discover.backToPhoto')}
+                  </button>
+                </div>
+              )}
               
               <div className="mb-4 border-b border-gray-200/30">
-                <nav className="-mb-px flex space-x-8" aria-label="Tabs">
+                <div className="-mb-px flex gap-8" role="tablist" aria-label={t('discover.tabs')}>
+                  {productTabs.map(({ tab, label }) => (
+                    <button
+                      key={tab}
+                      id={getProductTabId(tab)}
+                      role="tab"
+                      aria-selected={state.activeTab === tab}
+                      aria-controls={PRODUCT_TABPANEL_ID}
+                      tabIndex={state.activeTab === tab ? 0 : -1}
+                      onClick={() => setState(prev => ({ ...prev, activeTab: tab }))}
+                      onKeyDown={handleTabKeyDown}
+                      className={`whitespace-nowrap py-3 px-1 border-b-2 font-medium text-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400 rounded-t ${
+                        state.activeTab === tab
+                          ? 'border-indigo-400 text-indigo-300'
+                          : 'border-transparent text-gray-400 hover:text-gray-200 hover:border-gray-300/50'
+                      }`}
+                    >
+                      {t(label)} ({filteredByTab[tab].length})
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {state.validationIssues.length > 0 && (
+                <details className="mb-4 text-xs text-yellow-200 bg-yellow-500/10 rounded-md p-2">
+                  <summary className="cursor-pointer">
+                    {t('discover.issuesSummary', {
+                      dropped: state.validationIssues.filter(issue => issue.action === 'dropped').length,
+                      repaired: state.validationIssues.filter(issue => issue.action === 'repaired').length,
+                    })}
+                  </summary>
+                  <ul className="mt-2 space-y-1 font-mono">
+                    {state.validationIssues.map((issue, index) => (
+                      <li key={index}>[{issue.action}] {issue.path}: {issue.message}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
+              {compareSelection.length > 0 && (
+                <div className="mb-4 flex flex-wrap items-center gap-3 bg-indigo-500/20 rounded-lg px-4 py-2 text-sm">
+                  <span className="text-indigo-100">
+                    {t('discover.compareSelected', { count: compareSelection.length, max: MAX_COMPARE_PRODUCTS })}
+                  </span>
                   <button
-                    onClick={() => setState(prev => ({ ...prev, activeTab: 'similar' }))}
-                    className={`whitespace-nowrap py-3 px-1 border-b-2 font-medium text-lg ${
-                      state.activeTab === 'similar'
-                        ? 'border-indigo-400 text-indigo-300'
-                        : 'border-transparent text-gray-400 hover:text-gray-200 hover:border-gray-300/50'
-                    }`}
+                    onClick={() => setIsCompareOpen(true)}
+                    disabled={compareSelection.length < 2}
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-1 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50"
+                    title={compareSelection.length < 2 ? t('discover.compareNeedsTwo') : undefined}
                   >
-                    Similar Items ({state.similarProducts.length})
+                    <i className="fas fa-columns me-2"></i>{t('discover.compare')}
                   </button>
-                  <button
-                    onClick={() => setState(prev => ({ ...prev, activeTab: 'complementary' }))}
-                    className={`whitespace-nowrap py-3 px-1 border-b-2 font-medium text-lg ${
-                      state.activeTab === 'complementary'
-                        ? 'border-indigo-400 text-indigo-300'
-                        : 'border-transparent text-gray-400 hover:text-gray-200 hover:border-gray-300/50'
-                    }`}
-                  >
-                    Complementary ({state.complementaryProducts.length})
+                  <button onClick={() => setCompareSelection([])} className="text-gray-300 hover:text-white underline">
+                    {t('discover.clear')}
                   </button>
-                </nav>
-              </div>
+                </div>
+              )}
+
+              <ProductToolbar filters={filters} categories={getProductCategories(allProducts)} onChange={setFilters} />
 
-              {productsToDisplay.length > 0 ? (
+              <ConstraintChips
+                constraints={state.constraints}
+                catalogCurrency={getCatalogCurrency()}
+                locale={localeSettings.locale}
+                canUndo={state.resultsHistory.length > 0}
+                disabled={state.loadingState === LoadingState.REFINING}
+                onRemove={handleRemoveConstraint}
+                onClearAll={() => applyConstraints({})}
+                onUndo={handleUndoResults}
+              />
+
+              <div id={PRODUCT_TABPANEL_ID} role="tabpanel" aria-labelledby={getProductTabId(state.activeTab)}>
+              {state.loadingState === LoadingState.SEARCHING_ITEM ? (
+                <div className="py-8 flex justify-center">
+                  <LoadingSpinner message={t('discover.findingForItem', { label: selectedItem?.label ?? t('discover.thisItem') })} />
+                </div>
+              ) : state.loadingState === LoadingState.REFINING ? (
+                <div className="py-8 flex justify-center">
+                  <LoadingSpinner message={t('discover.updating')} />
+                </div>
+              ) : productsToDisplay.length > 0 ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6">
                   {productsToDisplay.map((product) => (
-                    <ProductCard key={product.id} product={product} />
+                    <ProductCard
+                      key={product.id}
+                      product={product}
+                      locale={localeSettings.locale}
+                      quantityInCart={getCartQuantity(cart.items, product.id)}
+                      onAddToCart={handleAddToCart}
+                      onRemoveFromCart={handleRemoveFromCart}
+                      isFavorite={favoriteProductIds.includes(product.id)}
+                      onToggleFavorite={handleToggleFavorite}
+                      onViewDetails={setDetailProduct}
+                      isSelectedForCompare={compareSelection.some(p => p.id === product.id)}
+                      onToggleCompare={handleToggleCompare}
+                      canSelectForCompare={compareSelection.length < MAX_COMPARE_PRODUCTS}
+                    />
                   ))}
                 </div>
               ) : (
-                <p className="text-gray-400 text-center py-8">No {state.activeTab} products found for this image yet. Try the chat!</p>
+                <p className="text-gray-400 text-center py-8">
+                  {hasActiveFilters(filters)
+                    ? t('discover.noFilterMatches')
+                    : hasConstraints(state.constraints)
+                    ? t('discover.noRefinementMatches')
+                    : t(productTabs.find(({ tab }) => tab === state.activeTab)!.empty)}
+                </p>
               )}
+              </div>
+            </div>
+          )}
+
+          {!isAnalyzing && state.analyzedText && state.similarProducts.length > 0 && state.analysisMode !== 'compare' && (
+            <div className="bg-white/10 backdrop-blur-md p-6 rounded-xl shadow-xl">
+              <h2 className="text-2xl font-semibold mb-1 text-indigo-300">{t('look.heading')}</h2>
+              <p className="text-sm text-gray-300 mb-4">
+                {t('look.intro', { label: selectedItem?.label ?? t('look.yourItem') })}
+              </p>
+              <LookBuilder
+                key={`${state.sessionId}:${state.selectedItemId ?? ''}`}
+                source={{
+                  analysis: selectedItem?.label ?? state.analyzedText,
+                  attributes: selectedItem ? selectedItem.attributes : state.searchBase?.attributes[0],
+                  similarProducts: state.similarProducts,
+                }}
+                onAddToCart={handleAddToCart}
+                onViewDetails={setDetailProduct}
+              />
             </div>
           )}
 
-          {state.uploadedImage && state.currentChat && (
+          {state.currentChat && (
              <div className="bg-white/10 backdrop-blur-md rounded-xl shadow-xl flex-grow min-h-[400px] lg:min-h-0">
                 <ChatInterface
                     messages={state.chatMessages}
                     onSendMessage={handleSendMessage}
-                    isLoading={state.loadingState === LoadingState.CHATTING}
+                    onRetryMessage={handleRetryMessage}
+                    onResolveProfileUpdate={handleResolveProfileUpdate}
+                    isLoading={state.loadingState === LoadingState.CHATTING || state.loadingState === LoadingState.STREAMING}
+                    onStopGenerating={handleStopGenerating}
+                    onApplyProducts={handleApplyChatProducts}
+                    onAddToCart={handleAddToCart}
+                    favoriteProductIds={favoriteProductIds}
+                    onToggleFavorite={handleToggleFavorite}
+                    onViewDetails={setDetailProduct}
                     initialPrompt={initialChatPrompt}
                 />
              </div>
            )}
 
-           {!state.uploadedImage && state.loadingState === LoadingState.IDLE && (
+           {!state.uploadedImage && !state.currentChat && state.loadingState === LoadingState.IDLE && (
              <div className="flex flex-col items-center justify-center bg-white/10 backdrop-blur-md p-10 rounded-xl shadow-xl min-h-[300px] text-center">
                 <i className="fas fa-search-plus fa-4x text-indigo-300 mb-4"></i>
-                <h3 className="text-2xl font-semibold text-indigo-200 mb-2">Ready to Shop Smarter?</h3>
-                <p className="text-gray-300">Upload an image to get started and discover products tailored to your style!</p>
+                <h3 className="text-2xl font-semibold text-indigo-200 mb-2">{t('empty.heading')}</h3>
+                <p className="text-gray-300">{t('empty.body')}</p>
              </div>
            )}
+          </>)}
         </div>
       </main>
 
-      <Modal isOpen={state.isCheckoutModalOpen} onClose={closeCheckoutModal} title="Checkout Simulation">
-        <div className="text-gray-700">
-          <p className="mb-4">This is a simulated checkout process.</p>
-          <p className="mb-2"><strong>Items in cart (example):</strong></p>
-          <ul className="list-disc list-inside mb-4">
-            {(state.similarProducts.length > 0 || state.complementaryProducts.length > 0) ? 
-              (state.similarProducts.slice(0,1).map(p => <li key={p.id}>{p.name} - {p.price}</li>)) : <li>No items selected</li>
-            }
-            {(state.complementaryProducts.length > 0) ? 
-              (state.complementaryProducts.slice(0,1).map(p => <li key={p.id}>{p.name} - {p.price}</li>)) : null
-            }
-          </ul>
-          <p className="font-semibold">Thank you for using ShopSmarter!</p>
-          <button
-            onClick={closeCheckoutModal}
-            className="mt-6 w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out"
-          >
-            Close
-          </button>
-        </div>
+      <Modal isOpen={isShareOpen} onClose={() => setIsShareOpen(false)} title={t('share.title')} size="lg">
+        <ShareDialog
+          source={{
+            title: buildSessionTitle(selectedItem?.label ?? state.analyzedText, selectedItem?.attributes ?? state.analyzedAttributes),
+            image: state.sessionThumbnail,
+            imageAlt: state.imageAltTexts[0] || undefined,
+            analysis: state.analyzedText,
+            attributes: selectedItem?.attributes ?? state.analyzedAttributes,
+            similarProducts: state.similarProducts,
+            complementaryProducts: state.complementaryProducts,
+          }}
+          messages={state.chatMessages}
+          photo={state.uploadedImages[0] ?? null}
+        />
+      </Modal>
+
+      <Modal isOpen={state.isCheckoutModalOpen} onClose={closeCheckoutModal} title={t('modal.checkout')}>
+        <CheckoutFlow
+          items={cart.items}
+          onUpdateQuantity={handleUpdateCartQuantity}
+          onRemoveItem={handleRemoveFromCart}
+          onPlaceOrder={handlePlaceOrder}
+          onClose={closeCheckoutModal}
+        />
+      </Modal>
+      <Modal isOpen={isWishlistOpen} onClose={() => setIsWishlistOpen(false)} title={t('modal.wishlist')} size="lg">
+        <WishlistView
+          wishlist={wishlist}
+          onRemoveItem={(productId) => setWishlist(prev => removeFromWishlist(prev, productId))}
+          onMoveItem={(productId, collectionId) => setWishlist(prev => moveWishlistItem(prev, productId, collectionId))}
+          onCreateCollection={(name) => setWishlist(prev => createCollection(prev, name))}
+          onRenameCollection={(collectionId, name) => setWishlist(prev => renameCollection(prev, collectionId, name))}
+          onDeleteCollection={(collectionId) => setWishlist(prev => deleteCollection(prev, collectionId))}
+          onSetActiveCollection={(collectionId) => setWishlist(prev => ({ ...prev, activeCollectionId: collectionId }))}
+        />
+      </Modal>
+      <Modal isOpen={isProfileOpen} onClose={() => setIsProfileOpen(false)} title={t('header.styleProfile')}>
+        <StyleProfileSettings profile={styleProfile} onSave={handleSaveProfile} onClose={() => setIsProfileOpen(false)} />
+      </Modal>
+      <Modal isOpen={detailProduct !== null} onClose={() => setDetailProduct(null)} title={t('modal.productDetails')} size="xl">
+        {detailProduct && (
+          <ProductDetail
+            key={detailProduct.id}
+            product={detailProduct}
+            locale={localeSettings.locale}
+            analyzedText={state.analyzedText}
+            quantityInCart={getCartQuantity(cart.items, detailProduct.id)}
+            onAddToCart={handleAddToCart}
+            isFavorite={favoriteProductIds.includes(detailProduct.id)}
+            onToggleFavorite={handleToggleFavorite}
+          />
+        )}
+      </Modal>
+      <Modal isOpen={isCompareOpen} onClose={() => setIsCompareOpen(false)} title={t('modal.compareProducts')} size="xl">
+        <ProductComparisonTable
+          products={compareSelection}
+          locale={localeSettings.locale}
+          analyzedText={state.analyzedText}
+          shopperNeeds={state.chatMessages.filter(msg => msg.sender === 'user').slice(-5).map(msg => msg.text)}
+          onRemoveProduct={(productId) => setCompareSelection(prev => prev.filter(p => p.id !== productId))}
+          onAddToCart={handleAddToCart}
+        />
       </Modal>
       <footer className="text-center py-4 text-sm text-gray-400 bg-black/30">
-        ShopSmarter AI &copy; {new Date().getFullYear()}. Powered by Gemini.
+        {t('app.footer', { year: new Date().getFullYear() })} {getAIProvider().id === 'mock' ? t('app.footerMock') : t('app.footerGemini')}
       </footer>
     </div>
+    </I18nProvider>
   );
 };
 
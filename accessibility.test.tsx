@@ -0,0 +1,101 @@
+// @vitest-environment jsdom
+import axe from 'axe-core';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import App from './App';
+import ChatInterface from './components/ChatInterface';
+import CheckoutFlow from './components/CheckoutFlow';
+import ImageCropper from './components/ImageCropper';
+import ImageUpload from './components/ImageUpload';
+import Modal from './components/Modal';
+import { sampleCatalog } from './data/sampleCatalog';
+import { saveLocaleSettings } from './services/i18nService';
+import { ChatMessage } from './types';
+
+// jsdom does no layout or painting, so contrast can't be measured here.
+const axeOptions: axe.RunOptions = { rules: { 'color-contrast': { enabled: false } } };
+
+const expectNoViolations = async (context: axe.ElementContext) => {
+  const { violations } = await axe.run(context, axeOptions);
+  expect(violations.map(violation => `${violation.id}: ${violation.nodes.map(node => node.target.join(' ')).join(', ')}`)).toEqual([]);
+};
+
+const messages: ChatMessage[] = [
+  { id: 'm1', sender: 'user', text: 'Show me black boots', timestamp: new Date('2026-01-01T10:00:00Z') },
+  { id: 'm2', sender: 'ai', text: 'Here are some boots.', timestamp: new Date('2026-01-01T10:00:05Z'), products: sampleCatalog.slice(0, 2), productTarget: 'similar' },
+];
+
+describe('accessibility', () => {
+  // What index.html and a real browser provide around the app.
+  beforeAll(() => {
+    document.title = 'ShopSmarter';
+    Element.prototype.scrollIntoView = () => {};
+  });
+
+  afterEach(() => {
+    cleanup();
+    localStorage.clear();
+  });
+
+  it('main screen', async () => {
+    render(<App />);
+    await act(async () => {});
+
+    await expectNoViolations(document);
+  });
+
+  it('main screen in Arabic', async () => {
+    saveLocaleSettings({ locale: 'ar-SA', currency: 'SAR' });
+    render(<App />);
+    await act(async () => {});
+
+    expect(document.documentElement.dir).toBe('rtl');
+    await expectNoViolations(document);
+  });
+
+  it('style profile dialog opened from the main screen', async () => {
+    render(<App />);
+    await act(async () => {});
+    fireEvent.click(screen.getByRole('button', { name: /style profile/i }));
+
+    await expectNoViolations(screen.getByRole('dialog'));
+  });
+
+  it('image upload', async () => {
+    const { container } = render(<ImageUpload onImageUpload={() => {}} onImagesUpload={() => {}} isLoading={false} />);
+
+    await expectNoViolations(container);
+  });
+
+  it('image cropper, used from the keyboard', async () => {
+    const confirmed: unknown[] = [];
+    const { container } = render(<ImageCropper src="data:image/png;base64," isLoading={false} onConfirm={crop => confirmed.push(crop)} onCancel={() => {}} />);
+    const area = screen.getByRole('group', { name: /crop area/i });
+
+    fireEvent.keyDown(area, { key: 'ArrowDown' });
+    fireEvent.keyDown(area, { key: 'ArrowRight' });
+    fireEvent.keyDown(area, { key: 'ArrowRight', shiftKey: true });
+    fireEvent.click(screen.getByRole('button', { name: /^crop$/i }));
+
+    expect(area.tabIndex).toBe(0);
+    expect(confirmed).toEqual([{ x: 0.27, y: 0.25, width: 0.52, height: 0.5 }]);
+    await expectNoViolations(container);
+  });
+
+  it('chat', async () => {
+    const { container } = render(<ChatInterface messages={messages} onSendMessage={() => {}} isLoading={false} title="Chat" />);
+
+    await expectNoViolations(container);
+  });
+
+  it('checkout dialog', async () => {
+    const [product] = sampleCatalog;
+    render(
+      <Modal isOpen onClose={() => {}} title="Checkout" size="lg">
+        <CheckoutFlow items={[{ product, quantity: 1 }]} onUpdateQuantity={() => {}} onRemoveItem={() => {}} onPlaceOrder={() => {}} onClose={() => {}} />
+      </Modal>
+    );
+
+    await expectNoViolations(screen.getByRole('dialog'));
+  });
+});
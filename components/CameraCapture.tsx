@@ -0,0 +1,165 @@
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { MessageKey } from '../services/i18nService';
+import { useI18n } from './I18nContext';
+
+type FacingMode = 'user' | 'environment';
+
+interface CameraCaptureProps {
+  onCapture: (base64Image: string, imageType: string) => void;
+  onCancel: () => void;
+}
+
+const CAPTURE_MIME_TYPE = 'image/jpeg';
+
+const describeCameraError = (error: unknown): MessageKey => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return 'camera.denied';
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return 'camera.notFound';
+  }
+  if (name === 'NotReadableError') {
+    return 'camera.inUse';
+  }
+  return 'camera.failed';
+};
+
+/** Live camera preview with capture, retake and front/rear switching. Stops the camera when unmounted. */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const { t } = useI18n();
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [captured, setCaptured] = useState<string | null>(null); // Data URL of the frame awaiting confirmation
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [isStarting, setIsStarting] = useState(true);
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (captured) return; // Keep the camera off while reviewing a shot
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('camera.unsupported');
+      setIsStarting(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsStarting(true);
+    setError(null);
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: facingMode }, width: { ideal: 1280 }, height: { ideal: 1280 } }, audio: false })
+      .then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+        // Device labels and counts are only reliable once permission has been granted.
+        return navigator.mediaDevices.enumerateDevices().then(devices => {
+          if (!cancelled) setHasMultipleCameras(devices.filter(device => device.kind === 'videoinput').length > 1);
+        });
+      })
+      .catch(err => {
+        console.warn("Could not start camera:", err);
+        if (!cancelled) setError(describeCameraError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsStarting(false);
+      });
+
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [facingMode, captured, stopStream]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      setError('camera.captureFailed');
+      return;
+    }
+    if (facingMode === 'user') {
+      // The front preview is mirrored; capture it the same way so the photo matches what was seen.
+      context.translate(canvas.width, 0);
+      context.scale(-1, 1);
+    }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    setCaptured(canvas.toDataURL(CAPTURE_MIME_TYPE, 0.9));
+  };
+
+  const handleUsePhoto = () => {
+    if (!captured) return;
+    onCapture(captured.split(',')[1], CAPTURE_MIME_TYPE);
+  };
+
+  const secondaryButtonClass = 'flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold py-2 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50';
+  const primaryButtonClass = 'flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50';
+
+  return (
+    <div className="w-full">
+      <div className="relative w-full bg-black rounded overflow-hidden mb-3 aspect-square flex items-center justify-center">
+        {captured ? (
+          <img src={captured} alt={t('camera.capturedAlt')} className="w-full h-full object-contain" />
+        ) : (
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            className={`w-full h-full object-cover ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+          />
+        )}
+        {isStarting && !captured && (
+          <span className="absolute text-gray-300 text-sm"><i className="fas fa-spinner fa-spin me-2"></i>{t('camera.starting')}</span>
+        )}
+        {error && !captured && <span className="absolute text-center text-red-300 text-sm px-4">{t(error)}</span>}
+      </div>
+
+      {captured ? (
+        <div className="flex gap-2">
+          <button onClick={() => setCaptured(null)} className={secondaryButtonClass}>
+            <i className="fas fa-redo me-1"></i>{t('camera.retake')}
+          </button>
+          <button onClick={handleUsePhoto} className={primaryButtonClass}>
+            <i className="fas fa-check me-1"></i>{t('camera.usePhoto')}
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button onClick={onCancel} className={secondaryButtonClass}>{t('camera.cancel')}</button>
+          {hasMultipleCameras && (
+            <button
+              onClick={() => setFacingMode(prev => (prev === 'user' ? 'environment' : 'user'))}
+              className={secondaryButtonClass}
+              disabled={isStarting}
+              title={facingMode === 'user' ? t('camera.switchToRear') : t('camera.switchToFront')}
+            >
+              <i className="fas fa-sync-alt me-1"></i>{facingMode === 'user' ? t('camera.rear') : t('camera.front')}
+            </button>
+          )}
+          <button onClick={handleCapture} className={primaryButtonClass} disabled={isStarting || !!error}>
+            <i className="fas fa-camera me-1"></i>{t('camera.capture')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -1,22 +1,79 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ChatMessage } from '../types';
+import { ChatMessage, Product, ProductListKind } from '../types';
+import { MessageKey } from '../services/i18nService';
+import { formatStyleProfile } from '../services/styleProfileService';
+import ErrorNotice from './ErrorNotice';
+import { useI18n } from './I18nContext';
 import { LoadingSpinner } from './LoadingSpinner';
+import ProductCard from './ProductCard';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
   onSendMessage: (message: string) => void;
   isLoading: boolean;
+  onStopGenerating?: () => void;
+  onApplyProducts?: (products: Product[], target: ProductListKind, mode: 'replace' | 'extend') => void;
+  onAddToCart?: (product: Product) => void;
+  favoriteProductIds?: string[];
+  onToggleFavorite?: (product: Product) => void;
   initialPrompt?: string;
+  title?: string;
+  placeholder?: string;
+  onViewDetails?: (product: Product) => void;
+  onRetryMessage?: (messageId: string) => void; // Re-asks the question behind a failed AI reply
+  onResolveProfileUpdate?: (messageId: string, accepted: boolean) => void; // Saves or dismisses a preference the AI offered to remember
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage, isLoading, initialPrompt }) => {
+const tabLabels: Record<ProductListKind, MessageKey> = {
+  similar: 'discover.tabSimilar',
+  complementary: 'discover.tabComplementary',
+};
+
+// The last finished AI message, which the live region reads out.
+const findLatestAIMessage = (messages: ChatMessage[]): ChatMessage | undefined => {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    if (messages[index].sender === 'ai') return messages[index];
+  }
+  return undefined;
+};
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage, isLoading, onStopGenerating, onApplyProducts, onAddToCart, favoriteProductIds = [], onToggleFavorite, initialPrompt, title, placeholder, onViewDetails, onRetryMessage, onResolveProfileUpdate }) => {
+  const i18n = useI18n();
+  const { locale, t, formatTime } = i18n;
   const [input, setInput] = useState('');
+  const [announcement, setAnnouncement] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Messages already on screen when the chat opens (e.g. a restored session) are not read out again.
+  const announcedRef = useRef<string | undefined>(findLatestAIMessage(messages)?.id);
+  const refocusInputRef = useRef(false);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
+
+  // Streaming replies would be read out token by token, so announce that a reply has started
+  // and then read the whole message once it is complete.
+  useEffect(() => {
+    const latest = findLatestAIMessage(messages);
+    if (!latest || announcedRef.current === latest.id) return;
+    if (latest.isStreaming) {
+      setAnnouncement(t('chat.aiReplying'));
+      return;
+    }
+    announcedRef.current = latest.id;
+    const error = latest.errorKind ? t(`aiError.${latest.errorKind}`) : '';
+    setAnnouncement([t('chat.ai'), latest.text, error].filter(Boolean).join(': '));
+  }, [messages, t]);
+
+  // The input is disabled while the AI replies, which drops keyboard focus; hand it back afterwards.
+  useEffect(() => {
+    if (!isLoading && refocusInputRef.current) {
+      refocusInputRef.current = false;
+      inputRef.current?.focus();
+    }
+  }, [isLoading]);
   
   useEffect(() => {
     if(initialPrompt){
@@ -26,6 +83,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage,
 
   const handleSend = () => {
     if (input.trim() && !isLoading) {
+      refocusInputRef.current = document.activeElement === inputRef.current;
       onSendMessage(input.trim());
       setInput('');
     }
@@ -41,20 +99,106 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage,
   return (
     <div className="bg-white rounded-lg shadow-lg flex flex-col h-full max-h-[calc(100vh-12rem)]">
       <div className="p-4 border-b border-gray-200">
-        <h2 className="text-xl font-semibold text-gray-800">Chat with ShopSmarter AI</h2>
+        <h2 className="text-xl font-semibold text-gray-800">{title ?? t('chat.title')}</h2>
       </div>
-      <div className="flex-grow p-4 space-y-4 overflow-y-auto">
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">{announcement}</div>
+      <div
+        className="flex-grow p-4 space-y-4 overflow-y-auto focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-indigo-500"
+        tabIndex={0}
+        role="region"
+        aria-label={t('chat.messages')}
+      >
         {messages.map((msg) => (
           <div key={msg.id} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div
-              className={`max-w-xs lg:max-w-md px-4 py-2 rounded-xl shadow ${
+              className={`${msg.products?.length ? 'w-full' : 'max-w-xs lg:max-w-md'} px-4 py-2 rounded-xl shadow ${
                 msg.sender === 'user'
                   ? 'bg-indigo-500 text-white'
                   : 'bg-gray-200 text-gray-800'
               }`}
             >
-              <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
-              <p className="text-xs mt-1 opacity-75 text-right">{new Date(msg.timestamp).toLocaleTimeString()}</p>
+              <span className="sr-only">{msg.sender === 'user' ? t('chat.you') : t('chat.ai')}: </span>
+              {(msg.text || msg.isStreaming || !msg.errorKind) && (
+                <p className="text-sm whitespace-pre-wrap">
+                  {msg.text}
+                  {msg.isStreaming && <span className="inline-block w-2 h-4 ms-0.5 align-text-bottom bg-gray-500 animate-pulse" aria-hidden="true"></span>}
+                </p>
+              )}
+              {msg.errorKind && (
+                <div className={msg.text ? 'mt-2' : ''}>
+                  <ErrorNotice
+                    variant="inline"
+                    kind={msg.errorKind}
+                    message={t(`aiError.${msg.errorKind}`)}
+                    onRetry={onRetryMessage && !isLoading ? () => onRetryMessage(msg.id) : undefined}
+                  />
+                </div>
+              )}
+              {msg.products && msg.products.length > 0 && (
+                <div className="mt-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {msg.products.map(product => (
+                      <ProductCard
+                        key={product.id}
+                        product={product}
+                        locale={locale}
+                        onAddToCart={onAddToCart}
+                        isFavorite={favoriteProductIds.includes(product.id)}
+                        onToggleFavorite={onToggleFavorite}
+                        onViewDetails={onViewDetails}
+                      />
+                    ))}
+                  </div>
+                  {onApplyProducts && !msg.isStreaming && (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      <button
+                        onClick={() => onApplyProducts(msg.products!, msg.productTarget ?? 'similar', 'replace')}
+                        className="text-xs bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-1 px-3 rounded-md transition duration-150 ease-in-out"
+                      >
+                        {t('chat.replaceList', { list: t(tabLabels[msg.productTarget ?? 'similar']) })}
+                      </button>
+                      <button
+                        onClick={() => onApplyProducts(msg.products!, msg.productTarget ?? 'similar', 'extend')}
+                        className="text-xs bg-white hover:bg-gray-100 text-indigo-700 border border-indigo-300 font-semibold py-1 px-3 rounded-md transition duration-150 ease-in-out"
+                      >
+                        {t('chat.addToList', { list: t(tabLabels[msg.productTarget ?? 'similar']) })}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+              {msg.profileUpdate && !msg.isStreaming && (
+                <div className="mt-3 bg-white border border-indigo-200 rounded-md p-3 text-sm">
+                  <p className="font-semibold text-indigo-700"><i className="fas fa-user-tag me-2" aria-hidden="true"></i>{t('chat.rememberPrompt')}</p>
+                  <ul className="mt-1 text-gray-700 list-disc list-inside">
+                    {formatStyleProfile(msg.profileUpdate, i18n).map(line => <li key={line}>{line}</li>)}
+                  </ul>
+                  {msg.profileUpdateStatus === 'pending' && onResolveProfileUpdate ? (
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={() => onResolveProfileUpdate(msg.id, true)}
+                        className="text-xs bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-1 px-3 rounded-md transition duration-150 ease-in-out"
+                      >
+                        {t('chat.saveToProfile')}
+                      </button>
+                      <button
+                        onClick={() => onResolveProfileUpdate(msg.id, false)}
+                        className="text-xs bg-white hover:bg-gray-100 text-gray-600 border border-gray-300 font-semibold py-1 px-3 rounded-md transition duration-150 ease-in-out"
+                      >
+                        {t('chat.notNow')}
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-xs mt-2 text-gray-500">
+                      {msg.profileUpdateStatus === 'saved' ? t('chat.savedToProfile') : t('chat.notSaved')}
+                    </p>
+                  )}
+                </div>
+              )}
+              {msg.wasStopped && <p className="text-xs mt-1 italic opacity-75">{t('chat.stopped')}</p>}
+              <p className="text-xs mt-1 opacity-75 text-end">
+                <time dateTime={new Date(msg.timestamp).toISOString()}>{formatTime(new Date(msg.timestamp))}</time>
+              </p>
             </div>
           </div>
         ))}
@@ -68,23 +212,37 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage,
         <div ref={messagesEndRef} />
       </div>
       <div className="p-4 border-t border-gray-200">
-        <div className="flex items-center space-x-2">
+        <div className="flex items-center gap-2">
           <input
+            ref={inputRef}
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder="Ask for modifications or other products..."
+            placeholder={placeholder ?? t('chat.placeholder')}
+            aria-label={placeholder ?? t('chat.placeholder')}
             className="flex-grow p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition duration-150"
             disabled={isLoading}
           />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || !input.trim()}
-            className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-5 rounded-lg transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <i className="fas fa-paper-plane"></i>
-          </button>
+          {isLoading && onStopGenerating ? (
+            <button
+              onClick={onStopGenerating}
+              className="bg-red-500 hover:bg-red-600 text-white font-semibold py-3 px-5 rounded-lg transition duration-150 ease-in-out"
+              title={t('chat.stopGenerating')}
+              aria-label={t('chat.stopGenerating')}
+            >
+              <i className="fas fa-stop" aria-hidden="true"></i>
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={isLoading || !input.trim()}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-5 rounded-lg transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={t('chat.send')}
+            >
+              <i className="fas fa-paper-plane rtl:-scale-x-100" aria-hidden="true"></i>
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,233 @@
+
+import React, { useState } from 'react';
+import { CartItem, CheckoutStep, Money, ShippingDetails } from '../types';
+import { getCartSubtotal, getLineTotal } from '../services/cartService';
+import { formatMoney, formatMoneyList } from '../services/priceService';
+import { MessageKey } from '../services/i18nService';
+import { useI18n } from './I18nContext';
+
+interface CheckoutFlowProps {
+  items: CartItem[];
+  onUpdateQuantity: (productId: string, quantity: number) => void;
+  onRemoveItem: (productId: string) => void;
+  onPlaceOrder: (details: ShippingDetails) => void;
+  onClose: () => void;
+}
+
+interface PlacedOrder {
+  orderId: string;
+  items: CartItem[];
+  subtotal: Money[];
+  shipping: ShippingDetails;
+}
+
+const emptyShippingDetails: ShippingDetails = {
+  fullName: '',
+  email: '',
+  address: '',
+  city: '',
+  postalCode: '',
+  country: '',
+};
+
+const shippingFields: { key: keyof ShippingDetails; label: MessageKey; type: string }[] = [
+  { key: 'fullName', label: 'checkout.fullName', type: 'text' },
+  { key: 'email', label: 'checkout.email', type: 'email' },
+  { key: 'address', label: 'checkout.address', type: 'text' },
+  { key: 'city', label: 'checkout.city', type: 'text' },
+  { key: 'postalCode', label: 'checkout.postalCode', type: 'text' },
+  { key: 'country', label: 'checkout.country', type: 'text' },
+];
+
+const steps: { id: CheckoutStep; label: MessageKey }[] = [
+  { id: CheckoutStep.REVIEW, label: 'checkout.stepReview' },
+  { id: CheckoutStep.SHIPPING, label: 'checkout.stepShipping' },
+  { id: CheckoutStep.CONFIRMATION, label: 'checkout.stepConfirmation' },
+];
+
+const CheckoutFlow: React.FC<CheckoutFlowProps> = ({ items, onUpdateQuantity, onRemoveItem, onPlaceOrder, onClose }) => {
+  const { t, locale } = useI18n();
+  const [step, setStep] = useState<CheckoutStep>(CheckoutStep.REVIEW);
+  const [shipping, setShipping] = useState<ShippingDetails>(emptyShippingDetails);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [placedOrder, setPlacedOrder] = useState<PlacedOrder | null>(null);
+
+  const subtotal = getCartSubtotal(items);
+
+  const handlePlaceOrder = (event: React.FormEvent) => {
+    event.preventDefault();
+    const missing = shippingFields.filter(field => !shipping[field.key].trim());
+    if (missing.length > 0) {
+      setFormError(t('checkout.missingFields', { fields: missing.map(field => t(field.label)).join(', ') }));
+      return;
+    }
+    if (!/^\S+@\S+\.\S+$/.test(shipping.email.trim())) {
+      setFormError(t('checkout.invalidEmail'));
+      return;
+    }
+    setFormError(null);
+    // The cart is cleared once the order is placed, so keep a snapshot for the confirmation step.
+    setPlacedOrder({
+      orderId: `SS-${Date.now().toString(36).toUpperCase()}`,
+      items,
+      subtotal,
+      shipping,
+    });
+    onPlaceOrder(shipping);
+    setStep(CheckoutStep.CONFIRMATION);
+  };
+
+  const currentStepIndex = steps.findIndex(s => s.id === step);
+
+  return (
+    <div className="text-gray-700">
+      <ol className="flex justify-between mb-6 text-sm" aria-label={t('checkout.steps')}>
+        {steps.map((s, index) => (
+          <li
+            key={s.id}
+            aria-current={s.id === step ? 'step' : undefined}
+            className={`flex-1 text-center pb-2 border-b-2 ${
+              index <= currentStepIndex ? 'border-indigo-500 text-indigo-600 font-semibold' : 'border-gray-200 text-gray-400'
+            }`}
+          >
+            {t('checkout.step', { number: index + 1, label: t(s.label) })}
+          </li>
+        ))}
+      </ol>
+
+      {step === CheckoutStep.REVIEW && (
+        <div>
+          {items.length === 0 ? (
+            <p className="text-center py-6 text-gray-500">{t('checkout.empty')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 mb-4 max-h-64 overflow-y-auto">
+              {items.map(({ product, quantity }) => (
+                <li key={product.id} className="py-3 flex items-center justify-between">
+                  <div className="min-w-0 me-3">
+                    <p className="font-medium text-gray-800 truncate" title={product.name}>{product.name}</p>
+                    <p className="text-sm text-gray-500">{t('checkout.each', { price: formatMoney(product.price, locale) })}</p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => onUpdateQuantity(product.id, quantity - 1)}
+                      className="w-7 h-7 rounded bg-gray-200 hover:bg-gray-300"
+                      aria-label={t('checkout.decrease', { name: product.name })}
+                    >
+                      -
+                    </button>
+                    <span className="w-6 text-center">{quantity}</span>
+                    <button
+                      onClick={() => onUpdateQuantity(product.id, quantity + 1)}
+                      className="w-7 h-7 rounded bg-gray-200 hover:bg-gray-300"
+                      aria-label={t('checkout.increase', { name: product.name })}
+                    >
+                      +
+                    </button>
+                    <span className="w-20 text-end font-semibold">
+                      {formatMoney(getLineTotal({ product, quantity }), locale)}
+                    </span>
+                    <button
+                      onClick={() => onRemoveItem(product.id)}
+                      className="text-gray-400 hover:text-red-500"
+                      aria-label={t('checkout.remove', { name: product.name })}
+                    >
+                      <i className="fas fa-trash-alt" aria-hidden="true"></i>
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-between font-semibold text-lg border-t border-gray-200 pt-3">
+            <span>{t('checkout.subtotal')}</span>
+            <span>{formatMoneyList(subtotal, locale)}</span>
+          </div>
+          <button
+            onClick={() => setStep(CheckoutStep.SHIPPING)}
+            disabled={items.length === 0}
+            className="mt-6 w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('checkout.continue')}
+          </button>
+        </div>
+      )}
+
+      {step === CheckoutStep.SHIPPING && (
+        <form onSubmit={handlePlaceOrder} noValidate>
+          <div className="space-y-3">
+            {shippingFields.map(field => (
+              <label key={field.key} className="block">
+                <span className="text-sm font-medium text-gray-600">{t(field.label)}</span>
+                <input
+                  type={field.type}
+                  value={shipping[field.key]}
+                  onChange={(e) => setShipping(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+                />
+              </label>
+            ))}
+          </div>
+          {formError && <p className="text-red-500 text-sm mt-3" role="alert">{formError}</p>}
+          <div className="flex justify-between font-semibold mt-4">
+            <span>{t('checkout.orderTotal')}</span>
+            <span>{formatMoneyList(subtotal, locale)}</span>
+          </div>
+          <div className="flex gap-3 mt-6">
+            <button
+              type="button"
+              onClick={() => setStep(CheckoutStep.REVIEW)}
+              className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-700 font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out"
+            >
+              {t('checkout.back')}
+            </button>
+            <button
+              type="submit"
+              className="flex-1 bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out"
+            >
+              {t('checkout.placeOrder')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === CheckoutStep.CONFIRMATION && placedOrder && (
+        <div className="text-center" role="status">
+          <i className="fas fa-check-circle fa-3x text-green-500 mb-3" aria-hidden="true"></i>
+          <p className="text-lg font-semibold text-gray-800">{t('checkout.placed')}</p>
+          <p className="text-sm text-gray-500 mb-4">{t('checkout.orderNumber')} <strong>{placedOrder.orderId}</strong> {t('checkout.simulated')}</p>
+          <ul className="text-start text-sm mb-4">
+            {placedOrder.items.map(({ product, quantity }) => (
+              <li key={product.id} className="flex justify-between py-1">
+                <span className="truncate me-2">{t('checkout.line', { quantity, name: product.name })}</span>
+                <span>{formatMoney(getLineTotal({ product, quantity }), locale)}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-between font-semibold border-t border-gray-200 pt-2 mb-4">
+            <span>{t('checkout.total')}</span>
+            <span>{formatMoneyList(placedOrder.subtotal, locale)}</span>
+          </div>
+          <p className="text-sm text-start">
+            {t('checkout.shippingTo', {
+              name: placedOrder.shipping.fullName,
+              address: placedOrder.shipping.address,
+              city: placedOrder.shipping.city,
+              postalCode: placedOrder.shipping.postalCode,
+              country: placedOrder.shipping.country,
+            })}{' '}
+            {t('checkout.confirmationTo', { email: placedOrder.shipping.email })}
+          </p>
+          <p className="font-semibold mt-4">{t('checkout.thanks')}</p>
+          <button
+            onClick={onClose}
+            className="mt-6 w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out"
+          >
+            {t('checkout.close')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CheckoutFlow;
@@ -0,0 +1,81 @@
+
+import React from 'react';
+import { SearchConstraintKey, SearchConstraints } from '../types';
+import { formatMoney } from '../services/priceService';
+import { getUnappliedPriceKeys, SEARCH_CONSTRAINT_KEYS } from '../services/searchConstraintService';
+import { MessageKey, Translate } from '../services/i18nService';
+import { useI18n } from './I18nContext';
+
+interface ConstraintChipsProps {
+  constraints: SearchConstraints;
+  catalogCurrency: string; // Price bounds in another currency can't be applied, and say so
+  locale?: string;
+  canUndo: boolean;
+  disabled?: boolean; // While a refined search is running
+  onRemove: (key: SearchConstraintKey) => void;
+  onClearAll: () => void;
+  onUndo: () => void;
+}
+
+const KEY_LABELS: Record<Exclude<SearchConstraintKey, 'minPrice' | 'maxPrice'>, MessageKey> = {
+  category: 'attribute.category',
+  itemType: 'attribute.itemType',
+  color: 'attribute.color',
+  material: 'attribute.material',
+  style: 'attribute.style',
+  size: 'attribute.size',
+};
+
+const chipLabel = (key: SearchConstraintKey, constraints: SearchConstraints, t: Translate, locale?: string): string => {
+  if (key === 'minPrice' || key === 'maxPrice') {
+    const price = formatMoney(constraints[key]!, locale);
+    return key === 'minPrice' ? t('chips.over', { price }) : t('chips.under', { price });
+  }
+  return t('chips.value', { name: t(KEY_LABELS[key]), value: constraints[key]! });
+};
+
+/** The refinements picked up from chat, shown above the grid so each one can be dropped again. */
+const ConstraintChips: React.FC<ConstraintChipsProps> = ({ constraints, catalogCurrency, locale, canUndo, disabled = false, onRemove, onClearAll, onUndo }) => {
+  const { t } = useI18n();
+  const activeKeys = SEARCH_CONSTRAINT_KEYS.filter(key => constraints[key] !== undefined);
+  const unappliedKeys = getUnappliedPriceKeys(constraints, catalogCurrency);
+  const label = (key: SearchConstraintKey) => (unappliedKeys.includes(key)
+    ? t('chips.notApplied', { label: chipLabel(key, constraints, t, locale), currency: catalogCurrency })
+    : chipLabel(key, constraints, t, locale));
+  if (activeKeys.length === 0 && !canUndo) return null;
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+      {activeKeys.length > 0 && <span className="text-xs text-gray-400">{t('chips.refinedBy')}</span>}
+      {activeKeys.map(key => (
+        <span
+          key={key}
+          className={`inline-flex items-center ps-3 pe-1 py-1 rounded-full ${unappliedKeys.includes(key) ? 'border border-dashed border-amber-300 text-amber-100' : 'bg-indigo-500/30 text-indigo-100'}`}
+        >
+          {label(key)}
+          <button
+            onClick={() => onRemove(key)}
+            disabled={disabled}
+            className="ms-1 w-5 h-5 rounded-full hover:bg-white/20 disabled:opacity-50"
+            title={t('chips.remove')}
+            aria-label={t('chips.removeNamed', { label: label(key) })}
+          >
+            <i className="fas fa-times text-xs"></i>
+          </button>
+        </span>
+      ))}
+      {canUndo && (
+        <button onClick={onUndo} className="text-gray-300 hover:text-white underline">
+          <i className="fas fa-undo me-1"></i>{t('chips.previous')}
+        </button>
+      )}
+      {activeKeys.length > 1 && (
+        <button onClick={onClearAll} disabled={disabled} className="text-gray-300 hover:text-white underline disabled:opacity-50">
+          {t('chips.clearAll')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConstraintChips;
@@ -0,0 +1,60 @@
+
+import React from 'react';
+import { AIErrorKind } from '../types';
+import { MessageKey } from '../services/i18nService';
+import { useI18n } from './I18nContext';
+
+interface ErrorNoticeProps {
+  message: string;
+  kind?: AIErrorKind | null; // null for failures that didn't come from a model call
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  variant?: 'panel' | 'inline'; // 'panel' sits on the dark page background, 'inline' inside white cards and chat
+}
+
+// Titles come from `errorNotice.<kind>`; only the icon and retry wording differ per kind here.
+const kindDetails: Record<AIErrorKind, { icon: string; retryLabel: MessageKey }> = {
+  quota: { icon: 'fa-hourglass-half', retryLabel: 'errorNotice.tryAgain' },
+  safety: { icon: 'fa-shield-alt', retryLabel: 'errorNotice.tryAnyway' },
+  network: { icon: 'fa-wifi', retryLabel: 'errorNotice.reconnect' },
+  parse: { icon: 'fa-file-code', retryLabel: 'errorNotice.retry' },
+  timeout: { icon: 'fa-clock', retryLabel: 'errorNotice.retry' },
+  cancelled: { icon: 'fa-ban', retryLabel: 'errorNotice.retry' },
+  unknown: { icon: 'fa-exclamation-triangle', retryLabel: 'errorNotice.retry' },
+};
+
+/** Explains a failure with a title and icon for its kind, plus an optional retry action. */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ message, kind, onRetry, onDismiss, variant = 'panel' }) => {
+  const { t } = useI18n();
+  const details = kindDetails[kind ?? 'unknown'];
+  const isPanel = variant === 'panel';
+
+  return (
+    <div
+      role="alert"
+      className={isPanel ? 'bg-red-500/20 text-red-300 p-4 rounded-lg shadow-md' : 'bg-red-50 text-red-700 border border-red-200 p-3 rounded-md text-sm'}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className="font-semibold"><i className={`fas ${details.icon} me-2`}></i>{kind ? t(`errorNotice.${kind}`) : t('errorNotice.error')}</p>
+        {onDismiss && (
+          <button onClick={onDismiss} className="opacity-75 hover:opacity-100" title={t('common.dismiss')} aria-label={t('common.dismiss')}>
+            <i className="fas fa-times" aria-hidden="true"></i>
+          </button>
+        )}
+      </div>
+      <p className={isPanel ? 'mt-1' : 'mt-1 text-xs'}>{message}</p>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className={`mt-2 text-xs font-semibold py-1 px-3 rounded-md transition duration-150 ease-in-out ${
+            isPanel ? 'bg-red-400/30 hover:bg-red-400/50 text-red-100' : 'bg-white hover:bg-red-100 border border-red-300 text-red-700'
+          }`}
+        >
+          <i className="fas fa-redo me-1"></i>{t(details.retryLabel)}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import { createI18n, DEFAULT_LOCALE_SETTINGS, I18n } from '../services/i18nService';
+
+// App provides the shopper's chosen locale; components rendered outside it fall back to US English.
+const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE_SETTINGS));
+
+export const I18nProvider = I18nContext.Provider;
+
+export const useI18n = (): I18n => useContext(I18nContext);
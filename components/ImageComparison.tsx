@@ -0,0 +1,84 @@
+
+import React from 'react';
+import { CartItem, ImageResult, Product, UploadedImage } from '../types';
+import { toDataUrl } from '../services/imageService';
+import { getCartQuantity } from '../services/cartService';
+import { useI18n } from './I18nContext';
+import ProductCard from './ProductCard';
+
+interface ImageComparisonProps {
+  images: UploadedImage[];
+  results: ImageResult[];
+  comparison: string | null;
+  cartItems: CartItem[];
+  onAddToCart: (product: Product) => void;
+  onRemoveFromCart: (productId: string) => void;
+  favoriteProductIds: string[];
+  onToggleFavorite: (product: Product) => void;
+  onViewDetails?: (product: Product) => void;
+}
+
+/** One column per uploaded image with its own analysis and closest catalog matches. */
+const ImageComparison: React.FC<ImageComparisonProps> = ({
+  images,
+  results,
+  comparison,
+  cartItems,
+  onAddToCart,
+  onRemoveFromCart,
+  favoriteProductIds,
+  onToggleFavorite,
+  onViewDetails,
+}) => {
+  const { t, locale } = useI18n();
+  const columns = [...results].sort((a, b) => a.imageIndex - b.imageIndex);
+
+  return (
+    <div>
+      {comparison && (
+        <p className="text-sm text-gray-200 bg-indigo-500/10 rounded-lg p-3 mb-4">
+          <i className="fas fa-balance-scale me-2 text-indigo-300"></i>{comparison}
+        </p>
+      )}
+      <div className={`grid grid-cols-1 gap-4 ${columns.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+        {columns.map(result => {
+          const image = images[result.imageIndex];
+          return (
+            <section key={result.imageIndex} className="bg-black/20 rounded-lg p-3 flex flex-col">
+              {image && (
+                <img
+                  src={toDataUrl(image.base64, image.mimeType)}
+                  alt={result.altText ?? t('upload.imageAlt', { index: result.imageIndex + 1 })}
+                  className="w-full h-40 object-contain rounded mb-2"
+                />
+              )}
+              <h3 className="text-sm font-semibold text-indigo-200 mb-1">{t('imageComparison.image', { index: result.imageIndex + 1 })}</h3>
+              <p className="text-sm text-gray-300 mb-3">{result.analysis || t('detail.noDescription')}</p>
+              {result.similarProducts.length > 0 ? (
+                <div className="space-y-3">
+                  {result.similarProducts.map(product => (
+                    <ProductCard
+                      key={product.id}
+                      product={product}
+                      locale={locale}
+                      quantityInCart={getCartQuantity(cartItems, product.id)}
+                      onAddToCart={onAddToCart}
+                      onRemoveFromCart={onRemoveFromCart}
+                      isFavorite={favoriteProductIds.includes(product.id)}
+                      onToggleFavorite={onToggleFavorite}
+                      onViewDetails={onViewDetails}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-gray-400">{t('imageComparison.noMatches')}</p>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ImageComparison;
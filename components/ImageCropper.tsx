@@ -0,0 +1,151 @@
+
+import React, { useId, useState, useRef } from 'react';
+import { CropRect } from '../services/imageService';
+import { useI18n } from './I18nContext';
+
+interface ImageCropperProps {
+  src: string;
+  isLoading: boolean;
+  onConfirm: (crop: CropRect | null) => void; // null analyzes the whole image
+  onCancel: () => void;
+}
+
+const MIN_CROP_FRACTION = 0.05; // Ignore accidental taps that would produce a sliver
+const KEY_STEP = 0.02; // How far one arrow press moves or resizes the box
+const KEYBOARD_START_CROP: CropRect = { x: 0.25, y: 0.25, width: 0.5, height: 0.5 };
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+const arrowSteps: Record<string, { dx: number; dy: number }> = {
+  ArrowLeft: { dx: -KEY_STEP, dy: 0 },
+  ArrowRight: { dx: KEY_STEP, dy: 0 },
+  ArrowUp: { dx: 0, dy: -KEY_STEP },
+  ArrowDown: { dx: 0, dy: KEY_STEP },
+};
+
+// Arrows move the box; with Shift they move its right or bottom edge instead. It always stays inside the photo.
+const nudgeCrop = (crop: CropRect, { dx, dy }: { dx: number; dy: number }, resize: boolean): CropRect =>
+  resize
+    ? {
+        ...crop,
+        width: clamp(crop.width + dx, MIN_CROP_FRACTION, 1 - crop.x),
+        height: clamp(crop.height + dy, MIN_CROP_FRACTION, 1 - crop.y),
+      }
+    : {
+        ...crop,
+        x: clamp(crop.x + dx, 0, 1 - crop.width),
+        y: clamp(crop.y + dy, 0, 1 - crop.height),
+      };
+
+const toPercent = (fraction: number) => Math.round(fraction * 100);
+
+/**
+ * Lets the shopper drag a box around the item they care about before it is analyzed. From the keyboard, the
+ * focused photo takes arrow keys: the first press places a box, later ones move it, and Shift+arrows resize it.
+ */
+const ImageCropper: React.FC<ImageCropperProps> = ({ src, isLoading, onConfirm, onCancel }) => {
+  const { t } = useI18n();
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const hintId = useId();
+
+  const toFraction = (event: React.PointerEvent) => {
+    const bounds = frameRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - bounds.left) / bounds.width),
+      y: clamp((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (isLoading) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStartRef.current = toFraction(event);
+    setCrop(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = toFraction(event);
+    setCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    setCrop(prev => (prev && prev.width >= MIN_CROP_FRACTION && prev.height >= MIN_CROP_FRACTION ? prev : null));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = arrowSteps[event.key];
+    if (!step || isLoading) return;
+    event.preventDefault();
+    setCrop(prev => (prev ? nudgeCrop(prev, step, event.shiftKey) : KEYBOARD_START_CROP));
+  };
+
+  return (
+    <div className="w-full">
+      <p id={hintId} className="text-sm text-gray-600 mb-2 text-center">{t('crop.hint')}</p>
+      <div
+        ref={frameRef}
+        role="group"
+        aria-label={t('crop.area')}
+        aria-describedby={hintId}
+        tabIndex={isLoading ? -1 : 0}
+        className="relative mx-auto mb-3 select-none touch-none cursor-crosshair w-fit rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+      >
+        <img src={src} alt={t('crop.photoAlt')} className="max-w-full max-h-64 h-auto block rounded" draggable={false} />
+        {crop && (
+          <div
+            className="absolute border-2 border-indigo-500 bg-indigo-500/10 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] pointer-events-none"
+            style={{
+              left: `${crop.x * 100}%`,
+              top: `${crop.y * 100}%`,
+              width: `${crop.width * 100}%`,
+              height: `${crop.height * 100}%`,
+            }}
+          />
+        )}
+      </div>
+      <p className="sr-only" aria-live="polite">
+        {crop && t('crop.position', { x: toPercent(crop.x), y: toPercent(crop.y), width: toPercent(crop.width), height: toPercent(crop.height) })}
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold py-2 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50"
+          disabled={isLoading}
+        >
+          {t('crop.cancel')}
+        </button>
+        <button
+          onClick={() => onConfirm(null)}
+          className="flex-1 bg-white border border-indigo-600 text-indigo-600 hover:bg-indigo-50 font-semibold py-2 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50"
+          disabled={isLoading}
+        >
+          {t('crop.wholePhoto')}
+        </button>
+        <button
+          onClick={() => onConfirm(crop)}
+          className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50"
+          disabled={isLoading || !crop}
+        >
+          <i className="fas fa-crop-alt me-1"></i>{t('crop.crop')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -1,81 +1,369 @@
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { AnalysisMode, DetectedItem, UploadedImage } from '../types';
+import { CropRect, MAX_SOURCE_FILE_BYTES, base64ToBlob, cropImage, preprocessImage, toDataUrl } from '../services/imageService';
+import { Translate } from '../services/i18nService';
+import CameraCapture from './CameraCapture';
+import { useI18n } from './I18nContext';
+import ImageCropper from './ImageCropper';
 
-import React, { useState, useCallback, useRef } from 'react';
+export const MAX_IMAGES = 4;
 
 interface ImageUploadProps {
   onImageUpload: (base64Image: string, imageType: string) => void;
+  onImagesUpload?: (images: UploadedImage[], mode: AnalysisMode) => void;
   isLoading: boolean;
+  previewUrl?: string | null; // Image restored from elsewhere (e.g. a saved session)
+  previewAlt?: string; // AI-written description of the previewed photo, once it has been analyzed
+  detectedItems?: DetectedItem[];
+  selectedItemId?: string | null;
+  onSelectItem?: (itemId: string | null) => void;
 }
 
-const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload, isLoading }) => {
+let nextImageId = 0;
+const createImageId = (): string => `image-${Date.now().toString(36)}-${nextImageId++}`;
+
+// Every image, picked or captured, is rotated, stripped of metadata and downsized before it is used.
+const prepareImage = async (source: Blob): Promise<UploadedImage> => {
+  const { base64, mimeType } = await preprocessImage(source);
+  return { id: createImageId(), base64, mimeType };
+};
+
+const validateImageFile = (file: File, t: Translate): string | null => {
+  if (!file.type.startsWith('image/')) {
+    return t('upload.invalidType');
+  }
+  if (file.size > MAX_SOURCE_FILE_BYTES) {
+    return t('upload.tooLarge', { size: MAX_SOURCE_FILE_BYTES / (1024 * 1024) });
+  }
+  return null;
+};
+
+const ImageUpload: React.FC<ImageUploadProps> = ({
+  onImageUpload,
+  onImagesUpload,
+  isLoading,
+  previewUrl,
+  previewAlt,
+  detectedItems = [],
+  selectedItemId = null,
+  onSelectItem,
+}) => {
+  const { t } = useI18n();
   const [preview, setPreview] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isMultiple, setIsMultiple] = useState(false);
+  const [gallery, setGallery] = useState<UploadedImage[]>([]);
+  const [mode, setMode] = useState<AnalysisMode>('outfit');
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [pendingImage, setPendingImage] = useState<UploadedImage | null>(null); // Single image waiting for the crop step
+  const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      if (!file.type.startsWith('image/')) {
-        setError('Invalid file type. Please upload an image (jpeg, png, gif, webp).');
-        setPreview(null);
-        return;
-      }
-      if (file.size > 5 * 1024 * 1024) { // 5MB limit
-         setError('File is too large. Maximum size is 5MB.');
-         setPreview(null);
-         return;
+  useEffect(() => {
+    if (previewUrl !== undefined) {
+      setPreview(previewUrl);
+    }
+  }, [previewUrl]);
+
+  const handleSingleSource = useCallback(async (source: Blob) => {
+    setIsProcessing(true);
+    try {
+      setPendingImage(await prepareImage(source));
+    } catch (readError) {
+      console.warn("Could not prepare image:", readError);
+      setError(t('upload.readFailed'));
+      setPreview(null);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [t]);
+
+  const handleCropConfirm = async (crop: CropRect | null) => {
+    if (!pendingImage) return;
+    let image = pendingImage;
+    if (crop) {
+      setIsProcessing(true);
+      try {
+        image = { ...pendingImage, ...(await cropImage(pendingImage.base64, pendingImage.mimeType, crop)) };
+      } catch (cropError) {
+        console.warn("Could not crop image, using the whole photo:", cropError);
+      } finally {
+        setIsProcessing(false);
       }
-      setError(null);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        setPreview(reader.result as string);
-        onImageUpload(base64String, file.type);
-      };
-      reader.onerror = () => {
-        setError('Failed to read file.');
-        setPreview(null);
+    }
+    setPendingImage(null);
+    setPreview(toDataUrl(image.base64, image.mimeType));
+    onImageUpload(image.base64, image.mimeType);
+  };
+
+  // Picked and dropped files share one path.
+  const handleFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const invalid = files.map(file => validateImageFile(file, t)).find(Boolean);
+    if (invalid) {
+      setError(invalid);
+      if (!isMultiple) setPreview(null);
+      return;
+    }
+    setError(null);
+
+    if (!isMultiple) {
+      await handleSingleSource(files[0]);
+      return;
+    }
+
+    const room = MAX_IMAGES - gallery.length;
+    if (files.length > room) {
+      setError(t('upload.tooMany', { max: MAX_IMAGES, count: Math.max(room, 0) }));
+    }
+    setIsProcessing(true);
+    try {
+      const images: UploadedImage[] = [];
+      for (const file of files.slice(0, Math.max(room, 0))) {
+        images.push(await prepareImage(file)); // One at a time keeps memory in check with large photos
       }
-      reader.readAsDataURL(file);
+      setGallery(prev => [...prev, ...images].slice(0, MAX_IMAGES));
+    } catch (readError) {
+      console.warn("Could not prepare images:", readError);
+      setError(t('upload.readOneFailed'));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [gallery.length, isMultiple, handleSingleSource, t]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = ''; // Let the same file be picked again after removing it
+    void handleFiles(files);
+  };
+
+  const canDrop = !isLoading && !isProcessing && !pendingImage && !isCameraOpen;
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!canDrop || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Moving between children fires leave on the parent; only count leaving the drop zone itself.
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDragging(false);
     }
-  }, [onImageUpload]);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (!canDrop) return;
+    void handleFiles(Array.from(event.dataTransfer.files));
+  };
 
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
+  // Captured frames go down the same path as picked files.
+  const handleCameraCapture = async (base64: string, mimeType: string) => {
+    setIsCameraOpen(false);
+    setError(null);
+    const source = base64ToBlob(base64, mimeType);
+    if (!isMultiple) {
+      await handleSingleSource(source);
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      const image = await prepareImage(source);
+      setGallery(prev => [...prev, image].slice(0, MAX_IMAGES));
+    } catch (readError) {
+      console.warn("Could not prepare captured photo:", readError);
+      setError(t('upload.photoFailed'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const takePhotoButton = (
+    <button
+      onClick={() => setIsCameraOpen(true)}
+      className="w-full mt-2 bg-white border border-indigo-600 text-indigo-600 hover:bg-indigo-50 font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50"
+      disabled={isLoading}
+    >
+      <i className="fas fa-camera me-2" aria-hidden="true"></i>{t('upload.takePhoto')}
+    </button>
+  );
+
+  const handleRemoveImage = (id: string) => {
+    setGallery(prev => prev.filter(image => image.id !== id));
+    setError(null);
+  };
+
+  const handleAnalyzeGallery = () => {
+    if (gallery.length === 0 || !onImagesUpload) return;
+    setPreview(toDataUrl(gallery[0].base64, gallery[0].mimeType));
+    onImagesUpload(gallery, mode);
+  };
+
+  const modeButtonClass = (active: boolean) =>
+    `flex-1 py-1 px-2 text-sm rounded-md transition duration-150 ease-in-out ${
+      active ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
   return (
-    <div className="p-4 border border-gray-300 rounded-lg shadow-sm bg-white h-full flex flex-col justify-center items-center">
+    <div
+      className={`p-4 border rounded-lg shadow-sm bg-white h-full flex flex-col justify-center items-center transition duration-150 ease-in-out ${
+        isDragging ? 'border-indigo-500 ring-4 ring-indigo-300' : 'border-gray-300'
+      }`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <input
         type="file"
         accept="image/jpeg,image/png,image/gif,image/webp"
         onChange={handleFileChange}
         className="hidden"
+        aria-hidden="true"
+        tabIndex={-1}
         ref={fileInputRef}
-        disabled={isLoading}
+        disabled={isLoading || isProcessing}
+        multiple={isMultiple}
       />
-      {preview ? (
+      {onImagesUpload && (
+        <div className="w-full flex gap-1 mb-4 p-1 bg-gray-50 rounded-lg" role="group" aria-label={t('upload.uploadMode')}>
+          <button onClick={() => setIsMultiple(false)} className={modeButtonClass(!isMultiple)} aria-pressed={!isMultiple} disabled={isLoading}>
+            <i className="fas fa-image me-1" aria-hidden="true"></i>{t('upload.single')}
+          </button>
+          <button onClick={() => setIsMultiple(true)} className={modeButtonClass(isMultiple)} aria-pressed={isMultiple} disabled={isLoading}>
+            <i className="fas fa-images me-1" aria-hidden="true"></i>{t('upload.multiple')}
+          </button>
+        </div>
+      )}
+      {isProcessing && !pendingImage ? (
+        <div className="w-full h-48 flex flex-col items-center justify-center text-gray-500" role="status">
+          <i className="fas fa-spinner fa-spin fa-2x mb-2" aria-hidden="true"></i>
+          <span>{t('upload.preparing')}</span>
+        </div>
+      ) : pendingImage ? (
+        <ImageCropper
+          src={toDataUrl(pendingImage.base64, pendingImage.mimeType)}
+          isLoading={isProcessing}
+          onConfirm={handleCropConfirm}
+          onCancel={() => setPendingImage(null)}
+        />
+      ) : isCameraOpen ? (
+        <CameraCapture onCapture={handleCameraCapture} onCancel={() => setIsCameraOpen(false)} />
+      ) : isMultiple ? (
+        <div className="w-full">
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {gallery.map((image, index) => (
+              <div key={image.id} className="relative">
+                <img
+                  src={toDataUrl(image.base64, image.mimeType)}
+                  alt={t('upload.imageAlt', { index: index + 1 })}
+                  className="w-full h-28 object-cover rounded"
+                />
+                <span className="absolute top-1 start-1 bg-black/60 text-white text-xs px-1.5 rounded">{index + 1}</span>
+                <button
+                  onClick={() => handleRemoveImage(image.id)}
+                  className="absolute top-1 end-1 bg-white/90 text-gray-600 hover:text-red-500 rounded-full w-6 h-6 text-xs"
+                  title={t('upload.removeImage')}
+                  aria-label={t('upload.removeImage')}
+                  disabled={isLoading}
+                >
+                  <i className="fas fa-times" aria-hidden="true"></i>
+                </button>
+              </div>
+            ))}
+            {gallery.length < MAX_IMAGES && (
+              <button
+                onClick={handleUploadClick}
+                className="h-28 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded hover:border-indigo-500 text-gray-500 text-sm disabled:opacity-50"
+                disabled={isLoading}
+              >
+                <i className="fas fa-plus mb-1" aria-hidden="true"></i>
+                {t('upload.addImage')}
+              </button>
+            )}
+          </div>
+          {gallery.length < MAX_IMAGES && <div className="mb-3">{takePhotoButton}</div>}
+          <div className="flex gap-1 mb-3 p-1 bg-gray-50 rounded-lg" role="group" aria-label={t('upload.analysisMode')}>
+            <button onClick={() => setMode('outfit')} className={modeButtonClass(mode === 'outfit')} aria-pressed={mode === 'outfit'} title={t('upload.outfitHint')}>
+              {t('upload.outfit')}
+            </button>
+            <button onClick={() => setMode('compare')} className={modeButtonClass(mode === 'compare')} aria-pressed={mode === 'compare'} title={t('upload.compareHint')}>
+              {t('upload.compare')}
+            </button>
+          </div>
+          <button
+            onClick={handleAnalyzeGallery}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50"
+            disabled={isLoading || isProcessing || gallery.length === 0}
+          >
+            {isLoading ? t('upload.processing') : t('upload.analyze', { count: gallery.length })}
+          </button>
+          <p className="text-xs text-gray-500 mt-1 text-center">{t('upload.galleryHint', { max: MAX_IMAGES })}</p>
+        </div>
+      ) : preview ? (
         <div className="w-full text-center">
-          <img src={preview} alt="Uploaded preview" className="max-w-full max-h-64 h-auto object-contain mx-auto mb-4 rounded" />
+          <div className="relative w-fit mx-auto mb-4">
+            <img src={preview} alt={previewAlt ?? t('upload.previewAlt')} className="max-w-full max-h-64 h-auto block rounded" />
+            {onSelectItem && detectedItems.map(item => {
+              const isSelected = item.id === selectedItemId;
+              return (
+                <button
+                  key={item.id}
+                  onClick={() => onSelectItem(isSelected ? null : item.id)}
+                  className={`absolute border-2 rounded transition duration-150 ease-in-out ${
+                    isSelected ? 'border-pink-500 bg-pink-500/20' : 'border-indigo-400/80 hover:bg-indigo-400/20'
+                  }`}
+                  style={{
+                    left: `${item.box.x * 100}%`,
+                    top: `${item.box.y * 100}%`,
+                    width: `${item.box.width * 100}%`,
+                    height: `${item.box.height * 100}%`,
+                  }}
+                  title={isSelected ? t('upload.itemSelected', { label: item.label }) : t('upload.shopForItem', { label: item.label })}
+                  aria-pressed={isSelected}
+                >
+                  <span className={`absolute -top-px left-0 text-[10px] leading-tight px-1 rounded-br text-white ${isSelected ? 'bg-pink-500' : 'bg-indigo-500'}`}>
+                    {item.label}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+          {onSelectItem && detectedItems.length > 0 && (
+            <p className="text-xs text-gray-500 mb-3">{t('upload.tapItemHint')}</p>
+          )}
           <button
             onClick={handleUploadClick}
             className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50"
             disabled={isLoading}
           >
-            {isLoading ? 'Processing...' : 'Change Image'}
+            {isLoading ? t('upload.processing') : t('upload.changeImage')}
           </button>
+          {takePhotoButton}
         </div>
       ) : (
-        <button
-          onClick={handleUploadClick}
-          className="w-full h-48 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg hover:border-indigo-500 transition duration-150 ease-in-out text-gray-500 disabled:opacity-50"
-          disabled={isLoading}
-        >
-          <i className="fas fa-cloud-upload-alt fa-3x mb-2"></i>
-          <span>{isLoading ? 'Processing...' : 'Click to Upload Image'}</span>
-          <span className="text-xs mt-1">(Max 5MB: JPG, PNG, GIF, WEBP)</span>
-        </button>
+        <div className="w-full">
+          <button
+            onClick={handleUploadClick}
+            className="w-full h-48 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg hover:border-indigo-500 transition duration-150 ease-in-out text-gray-500 disabled:opacity-50"
+            disabled={isLoading}
+          >
+            <i className="fas fa-cloud-upload-alt fa-3x mb-2" aria-hidden="true"></i>
+            <span>{isLoading ? t('upload.processing') : isDragging ? t('upload.dropHere') : t('upload.clickToUpload')}</span>
+            <span className="text-xs mt-1">{t('upload.formats')}</span>
+          </button>
+          {takePhotoButton}
+        </div>
       )}
-      {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+      {error && <p className="text-red-500 text-sm mt-2" role="alert">{error}</p>}
     </div>
   );
 };
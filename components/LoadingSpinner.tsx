@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { useI18n } from './I18nContext';
 
 interface LoadingSpinnerProps {
   size?: 'sm' | 'md' | 'lg';
@@ -7,6 +8,7 @@ interface LoadingSpinnerProps {
 }
 
 export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ size = 'md', message }) => {
+  const { t } = useI18n();
   const sizeClasses = {
     sm: 'w-6 h-6 border-2',
     md: 'w-12 h-12 border-4',
@@ -14,11 +16,12 @@ export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ size = 'md', mes
   };
 
   return (
-    <div className="flex flex-col items-center justify-center space-y-2">
+    <div className="flex flex-col items-center justify-center space-y-2" role="status" aria-live="polite">
       <div
         className={`animate-spin rounded-full border-indigo-600 border-t-transparent ${sizeClasses[size]}`}
+        aria-hidden="true"
       ></div>
-      {message && <p className="text-indigo-600">{message}</p>}
+      {message ? <p className="text-indigo-600">{message}</p> : <span className="sr-only">{t('app.loading')}</span>}
     </div>
   );
 };
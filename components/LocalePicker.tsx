@@ -0,0 +1,45 @@
+
+import React from 'react';
+import { LocaleSettings } from '../types';
+import { SUPPORTED_CURRENCIES, SUPPORTED_LOCALES, toLocaleSettings } from '../services/i18nService';
+import { useI18n } from './I18nContext';
+
+interface LocalePickerProps {
+  settings: LocaleSettings;
+  onChange: (settings: LocaleSettings) => void;
+}
+
+const selectClass = 'bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg py-2 px-2 border border-white/20 focus:ring-2 focus:ring-indigo-400 outline-none';
+
+/** Language and currency selects for the header. Picking a language also picks its usual currency. */
+const LocalePicker: React.FC<LocalePickerProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-2" title={t('locale.currencyNote')}>
+      <i className="fas fa-globe text-indigo-300" aria-hidden="true"></i>
+      <select
+        value={settings.locale}
+        onChange={(e) => onChange(toLocaleSettings(e.target.value))}
+        className={selectClass}
+        aria-label={t('locale.language')}
+      >
+        {SUPPORTED_LOCALES.map(option => (
+          <option key={option.code} value={option.code} lang={option.code} className="text-gray-800">{option.label}</option>
+        ))}
+      </select>
+      <select
+        value={settings.currency}
+        onChange={(e) => onChange({ ...settings, currency: e.target.value })}
+        className={selectClass}
+        aria-label={t('locale.currency')}
+      >
+        {SUPPORTED_CURRENCIES.map(currency => (
+          <option key={currency} value={currency} className="text-gray-800">{currency}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LocalePicker;
@@ -0,0 +1,201 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AIErrorKind, GeminiAnalysisResponse, Look, Money, Product } from '../types';
+import { generateLooks, getCatalogCurrency } from '../services/geminiService';
+import { isCancellation, toAIError } from '../services/aiErrors';
+import { fitLookToBudget, getLookProducts, getLookTotal, isWithinBudget, selectLookItem, wouldExceedBudget } from '../services/lookService';
+import { formatMoney, formatMoneyList, fromMajorUnits } from '../services/priceService';
+import ErrorNotice from './ErrorNotice';
+import { useI18n } from './I18nContext';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface LookBuilderProps {
+  source: Pick<GeminiAnalysisResponse, 'analysis' | 'attributes' | 'similarProducts'>;
+  onAddToCart: (product: Product) => void;
+  onViewDetails?: (product: Product) => void;
+}
+
+const parseBudget = (value: string, currency: string): Money | null => {
+  const amount = Number(value);
+  return value.trim() !== '' && Number.isFinite(amount) && amount > 0 ? fromMajorUnits(amount, currency) : null;
+};
+
+/**
+ * Builds complete outfits or rooms around the shopper's item. Each slot can be swapped for one of its
+ * alternatives, and changing the budget re-fits the looks locally without asking the AI again.
+ */
+const LookBuilder: React.FC<LookBuilderProps> = ({ source, onAddToCart, onViewDetails }) => {
+  const { t, locale } = useI18n();
+  // Budgets are set in the catalog's currency, since look totals can't be compared with any other.
+  const currency = getCatalogCurrency();
+  const [looks, setLooks] = useState<Look[]>([]);
+  const [budgetText, setBudgetText] = useState('');
+  const [openSlot, setOpenSlot] = useState<string | null>(null); // `${lookId}:${slotIndex}` of the slot showing its alternatives
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<{ message: string; kind: AIErrorKind } | null>(null);
+  const [addedLookId, setAddedLookId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const budget = parseBudget(budgetText, currency);
+  const isBudgetInvalid = budgetText.trim() !== '' && !budget;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleBuild = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    setOpenSlot(null);
+    try {
+      const result = await generateLooks(source, budget, controller.signal);
+      setLooks(result.looks);
+      if (result.looks.length === 0) setError({ message: t('looks.notEnough'), kind: 'unknown' });
+    } catch (err) {
+      if (isCancellation(err)) return;
+      const aiError = toAIError(err);
+      setError({ message: `${t('looks.failed')} ${t(`aiError.${aiError.kind}`)}`, kind: aiError.kind });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleBudgetChange = (value: string) => {
+    setBudgetText(value);
+    const next = parseBudget(value, currency);
+    if (value.trim() === '' || next) setLooks(prev => prev.map(look => fitLookToBudget(look, next)));
+  };
+
+  const handleSwap = (lookId: string, slotIndex: number, productId: string) => {
+    setLooks(prev => prev.map(look => (look.id === lookId ? selectLookItem(look, slotIndex, productId) : look)));
+    setOpenSlot(null);
+  };
+
+  const handleAddLook = (look: Look) => {
+    getLookProducts(look).forEach(onAddToCart);
+    setAddedLookId(look.id);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <label className="block">
+          <span className="text-sm text-gray-300">{t('looks.budget', { currency })}</span>
+          <input
+            type="number"
+            min="0"
+            value={budgetText}
+            onChange={(e) => handleBudgetChange(e.target.value)}
+            placeholder={t('looks.noLimit')}
+            className="mt-1 block w-36 p-2 rounded-md bg-white text-gray-800 border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+          />
+        </label>
+        <button
+          onClick={handleBuild}
+          disabled={isLoading || isBudgetInvalid}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50"
+        >
+          <i className="fas fa-magic me-2"></i>{looks.length > 0 ? t('looks.rebuild') : t('looks.build')}
+        </button>
+      </div>
+      {isBudgetInvalid && <p className="text-red-300 text-sm mb-3">{t('looks.budgetInvalid')}</p>}
+
+      {isLoading ? (
+        <div className="py-8 flex justify-center">
+          <LoadingSpinner message={t('looks.building')} />
+        </div>
+      ) : error ? (
+        <ErrorNotice message={error.message} kind={error.kind} onRetry={handleBuild} onDismiss={() => setError(null)} />
+      ) : looks.length === 0 ? (
+        <p className="text-gray-400 text-sm">{t('looks.intro')}</p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          {looks.map(look => {
+            const total = getLookTotal(look);
+            const withinBudget = isWithinBudget(total, budget);
+            return (
+              <div key={look.id} className="bg-white rounded-lg shadow-md p-4 flex flex-col">
+                <h3 className="text-lg font-semibold text-gray-800">{look.name}</h3>
+                <p className="text-sm text-gray-500 mb-3">{look.description}</p>
+                <ul className="space-y-3 flex-grow">
+                  {look.slots.map((slot, slotIndex) => {
+                    const selected = slot.candidates.find(product => product.id === slot.selectedId);
+                    const slotKey = `${look.id}:${slotIndex}`;
+                    const alternatives = slot.candidates.filter(product => product.id !== slot.selectedId);
+                    return (
+                      <li key={slotKey}>
+                        <p className="text-xs font-semibold uppercase tracking-wide text-indigo-600">{slot.isAnchor ? (slot.name ? t('looks.yourItemType', { itemType: slot.name }) : t('looks.yourItem')) : slot.name}</p>
+                        {selected && (
+                          <div className="flex items-center gap-3 mt-1">
+                            <img src={selected.imageUrl} alt={selected.name} className="w-14 h-14 object-cover rounded-md" />
+                            <div className="flex-grow min-w-0">
+                              <button
+                                onClick={() => onViewDetails?.(selected)}
+                                className="block text-sm font-medium text-gray-800 truncate hover:text-indigo-600 text-start"
+                              >
+                                {selected.name}
+                              </button>
+                              <p className="text-sm text-gray-600">{formatMoney(selected.price, locale)}</p>
+                            </div>
+                            {alternatives.length > 0 && (
+                              <button
+                                onClick={() => setOpenSlot(openSlot === slotKey ? null : slotKey)}
+                                className="text-xs text-indigo-600 hover:text-indigo-800 border border-indigo-300 rounded-md py-1 px-2"
+                                aria-expanded={openSlot === slotKey}
+                              >
+                                <i className="fas fa-exchange-alt me-1"></i>{t('looks.swap')}
+                              </button>
+                            )}
+                          </div>
+                        )}
+                        {openSlot === slotKey && (
+                          <ul className="mt-2 ms-4 space-y-1 border-s-2 border-indigo-100 ps-3">
+                            {alternatives.map(product => {
+                              const overBudget = wouldExceedBudget(look, slotIndex, product, budget);
+                              return (
+                                <li key={product.id}>
+                                  <button
+                                    onClick={() => handleSwap(look.id, slotIndex, product.id)}
+                                    disabled={overBudget}
+                                    className="w-full flex items-center gap-2 text-start text-sm text-gray-700 hover:bg-indigo-50 rounded-md p-1 disabled:opacity-50 disabled:hover:bg-transparent"
+                                  >
+                                    <img src={product.imageUrl} alt="" className="w-8 h-8 object-cover rounded" />
+                                    <span className="flex-grow truncate">{product.name}</span>
+                                    <span className="whitespace-nowrap">{formatMoney(product.price, locale)}</span>
+                                    {overBudget && <span className="text-xs text-red-500 whitespace-nowrap">{t('looks.overBudget')}</span>}
+                                  </button>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+                <div className="mt-4 pt-3 border-t border-gray-200 flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm text-gray-500">{t('looks.total')}</p>
+                    <p className={`text-lg font-bold ${withinBudget ? 'text-gray-800' : 'text-red-600'}`}>{formatMoneyList(total, locale)}</p>
+                    {!withinBudget && budget && <p className="text-xs text-red-500">{t('looks.overBudgetNote', { budget: formatMoney(budget, locale) })}</p>}
+                  </div>
+                  <button
+                    onClick={() => handleAddLook(look)}
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out"
+                  >
+                    <i className="fas fa-cart-plus me-2"></i>{addedLookId === look.id ? t('looks.added') : t('looks.addLook')}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LookBuilder;
@@ -1,29 +1,109 @@
 
-import React from 'react';
+import React, { useId } from 'react';
 import { Product } from '../types';
+import { formatMoney } from '../services/priceService';
+import { useI18n } from './I18nContext';
 
 interface ProductCardProps {
   product: Product;
+  locale?: string;
+  quantityInCart?: number;
+  onAddToCart?: (product: Product) => void;
+  onRemoveFromCart?: (productId: string) => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: (product: Product) => void;
+  onViewDetails?: (product: Product) => void;
+  isSelectedForCompare?: boolean;
+  onToggleCompare?: (product: Product) => void;
+  canSelectForCompare?: boolean; // False once the comparison is full, unless this card is already in it
 }
 
-const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
+const ProductCard: React.FC<ProductCardProps> = ({ product, locale, quantityInCart = 0, onAddToCart, onRemoveFromCart, isFavorite = false, onToggleFavorite, onViewDetails, isSelectedForCompare = false, onToggleCompare, canSelectForCompare = true }) => {
+  const { t } = useI18n();
+  const titleId = useId();
+
   return (
-    <div className="bg-white rounded-lg shadow-md overflow-hidden transform hover:scale-105 transition-transform duration-200 ease-in-out flex flex-col h-full">
-      <img 
-        src={product.imageUrl || `https://picsum.photos/seed/${product.id}/300/200`} 
-        alt={product.name} 
-        className="w-full h-48 object-cover" 
+    <article
+      aria-labelledby={titleId}
+      className="relative bg-white rounded-lg shadow-md overflow-hidden transform hover:scale-105 focus-within:ring-2 focus-within:ring-indigo-400 transition-transform duration-200 ease-in-out flex flex-col h-full"
+    >
+      {onToggleFavorite && (
+        <button
+          onClick={() => onToggleFavorite(product)}
+          className={`absolute top-2 end-2 w-9 h-9 rounded-full bg-white/90 shadow flex items-center justify-center transition duration-150 ease-in-out ${
+            isFavorite ? 'text-pink-500' : 'text-gray-400 hover:text-pink-500'
+          }`}
+          title={isFavorite ? t('card.removeFromWishlist') : t('card.saveToWishlist')}
+          aria-label={t('card.saveNamed', { name: product.name })}
+          aria-pressed={isFavorite}
+        >
+          <i className={`${isFavorite ? 'fas' : 'far'} fa-heart`} aria-hidden="true"></i>
+        </button>
+      )}
+      {onToggleCompare && (
+        <label
+          className={`absolute top-2 start-2 flex items-center gap-1 bg-white/90 shadow rounded-full px-2 py-1 text-xs text-gray-700 ${
+            canSelectForCompare || isSelectedForCompare ? 'cursor-pointer' : 'opacity-60 cursor-not-allowed'
+          }`}
+          title={canSelectForCompare || isSelectedForCompare ? t('card.selectToCompare') : t('card.compareFull')}
+        >
+          <input
+            type="checkbox"
+            checked={isSelectedForCompare}
+            disabled={!canSelectForCompare && !isSelectedForCompare}
+            onChange={() => onToggleCompare(product)}
+            className="accent-indigo-600"
+            aria-label={t('card.compareNamed', { name: product.name })}
+          />
+          <span aria-hidden="true">{t('card.compare')}</span>
+        </label>
+      )}
+      <img
+        src={product.imageUrl || `https://picsum.photos/seed/${product.id}/300/200`}
+        alt={product.name}
+        className={`w-full h-48 object-cover ${onViewDetails ? 'cursor-pointer' : ''}`}
         onError={(e) => (e.currentTarget.src = 'https://picsum.photos/300/200?grayscale')}
+        onClick={onViewDetails ? () => onViewDetails(product) : undefined}
       />
       <div className="p-4 flex flex-col flex-grow">
-        <h3 className="text-lg font-semibold text-gray-800 mb-1 truncate" title={product.name}>{product.name}</h3>
+        <h3 id={titleId} className="text-lg font-semibold text-gray-800 mb-1 truncate" title={product.name}>
+          {onViewDetails ? (
+            <button onClick={() => onViewDetails(product)} className="hover:text-indigo-600 hover:underline text-start truncate max-w-full">
+              {product.name}
+            </button>
+          ) : product.name}
+        </h3>
         <p className="text-sm text-gray-600 mb-2 flex-grow min-h-[40px]">{product.description.substring(0, 100)}{product.description.length > 100 ? '...' : ''}</p>
+        {product.matchReason && (
+          <p className="text-xs text-indigo-500 italic mb-2"><i className="fas fa-lightbulb me-1" aria-hidden="true"></i>{product.matchReason}</p>
+        )}
         <div className="flex justify-between items-center mt-auto">
-          <p className="text-md font-bold text-indigo-600">{product.price}</p>
+          <p className="text-md font-bold text-indigo-600">{formatMoney(product.price, locale)}</p>
           <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-1 rounded-full">{product.category}</span>
         </div>
+        {onAddToCart && (
+          <div className="flex items-center gap-2 mt-3">
+            <button
+              onClick={() => onAddToCart(product)}
+              className="flex-grow bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold py-2 px-3 rounded-md transition duration-150 ease-in-out"
+            >
+              <i className="fas fa-cart-plus me-2" aria-hidden="true"></i>
+              {quantityInCart > 0 ? t('card.addAnother', { count: quantityInCart }) : t('card.addToCart')}
+            </button>
+            {quantityInCart > 0 && onRemoveFromCart && (
+              <button
+                onClick={() => onRemoveFromCart(product.id)}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-700 text-sm py-2 px-3 rounded-md transition duration-150 ease-in-out"
+                title={t('card.removeFromCart')}
+                aria-label={t('card.removeNamedFromCart', { name: product.name })}
+              >
+                <i className="fas fa-trash-alt" aria-hidden="true"></i>
+              </button>
+            )}
+          </div>
+        )}
       </div>
-    </div>
+    </article>
   );
 };
 
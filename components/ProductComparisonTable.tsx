@@ -0,0 +1,166 @@
+
+import React, { useState, useEffect } from 'react';
+import { AIErrorKind, ExtractedProductAttributes, MultiProductComparison, Product } from '../types';
+import { formatMoney } from '../services/priceService';
+import { compareProducts } from '../services/geminiService';
+import { isCancellation, toAIError } from '../services/aiErrors';
+import { MessageKey } from '../services/i18nService';
+import ErrorNotice from './ErrorNotice';
+import { useI18n } from './I18nContext';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface ProductComparisonTableProps {
+  products: Product[];
+  analyzedText: string | null;
+  shopperNeeds: string[];
+  locale?: string;
+  onRemoveProduct: (productId: string) => void;
+  onAddToCart?: (product: Product) => void;
+}
+
+type ExtractedKey = Exclude<keyof ExtractedProductAttributes, 'productId'>;
+
+const extractedRows: { key: ExtractedKey; label: MessageKey }[] = [
+  { key: 'material', label: 'attribute.material' },
+  { key: 'color', label: 'attribute.color' },
+  { key: 'style', label: 'attribute.style' },
+  { key: 'useCase', label: 'attribute.useCase' },
+];
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+// A row is highlighted when the products don't all share the same value.
+const differs = (values: string[]): boolean => new Set(values.map(normalise)).size > 1;
+
+/** Compares 2-4 products in a table of price, category and AI-extracted attributes, with a verdict. */
+const ProductComparisonTable: React.FC<ProductComparisonTableProps> = ({
+  products,
+  analyzedText,
+  shopperNeeds,
+  locale,
+  onRemoveProduct,
+  onAddToCart,
+}) => {
+  const { t } = useI18n();
+  const [comparison, setComparison] = useState<MultiProductComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<{ message: string; kind: AIErrorKind } | null>(null);
+  const [attempt, setAttempt] = useState(0); // Bumped by the retry button to run the comparison again
+  const productKey = products.map(p => p.id).join('|');
+
+  useEffect(() => {
+    if (products.length < 2) return;
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    compareProducts(products, analyzedText, shopperNeeds, controller.signal)
+      .then(result => {
+        if (!controller.signal.aborted) setComparison(result);
+      })
+      .catch(err => {
+        if (isCancellation(err)) return;
+        console.error(err);
+        const aiError = toAIError(err);
+        setError({ message: `${t('compare.failed')} ${t(`aiError.${aiError.kind}`)}`, kind: aiError.kind });
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+    // Re-run only when the set of products changes (or on retry), not on every parent render.
+  }, [productKey, attempt]);
+
+  if (products.length < 2) {
+    return <p className="text-gray-500 text-center py-8">{t('compare.needTwo')}</p>;
+  }
+
+  const extractedFor = (productId: string) => comparison?.attributes.find(row => row.productId === productId);
+  const rows: { label: string; values: string[]; isAi?: boolean }[] = [
+    { label: t('compare.price'), values: products.map(p => formatMoney(p.price, locale)) },
+    { label: t('compare.category'), values: products.map(p => p.category) },
+    ...extractedRows.map(({ key, label }) => ({
+      label: t(label),
+      values: products.map(p => extractedFor(p.id)?.[key] || (isLoading ? '…' : '—')),
+      isAi: true,
+    })),
+  ];
+
+  return (
+    <div className="text-gray-700">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="w-28"></th>
+              {products.map(product => (
+                <th key={product.id} className="p-2 align-top text-start font-normal">
+                  <div className="relative">
+                    <button
+                      onClick={() => onRemoveProduct(product.id)}
+                      className="absolute top-1 end-1 bg-white/90 text-gray-500 hover:text-red-500 rounded-full w-6 h-6 text-xs shadow"
+                      title={t('compare.remove')}
+                      aria-label={t('compare.removeNamed', { name: product.name })}
+                    >
+                      <i className="fas fa-times" aria-hidden="true"></i>
+                    </button>
+                    <img src={product.imageUrl} alt={product.name} className="w-full h-28 object-cover rounded mb-2" />
+                    <p className="font-semibold text-gray-800">{product.name}</p>
+                    {comparison?.recommendedProductId === product.id && (
+                      <span className="inline-block mt-1 text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">
+                        <i className="fas fa-award me-1"></i>{t('compare.bestFit')}
+                      </span>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const isDifferent = !(row.isAi && !comparison) && differs(row.values);
+              return (
+                <tr key={row.label} className={`border-t border-gray-200 ${isDifferent ? 'bg-amber-50' : ''}`}>
+                  <th scope="row" className="p-2 text-start font-medium text-gray-500 align-top">
+                    {row.label}
+                    {isDifferent && <span className="block text-[10px] font-normal text-amber-600">{t('compare.differs')}</span>}
+                  </th>
+                  {row.values.map((value, index) => (
+                    <td key={products[index].id} className="p-2 align-top capitalize">{value}</td>
+                  ))}
+                </tr>
+              );
+            })}
+            {onAddToCart && (
+              <tr className="border-t border-gray-200">
+                <td></td>
+                {products.map(product => (
+                  <td key={product.id} className="p-2">
+                    <button
+                      onClick={() => onAddToCart(product)}
+                      className="w-full bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-semibold py-2 px-2 rounded-md transition duration-150 ease-in-out"
+                    >
+                      <i className="fas fa-cart-plus me-1"></i>{t('compare.addToCart')}
+                    </button>
+                  </td>
+                ))}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <section className="mt-4 bg-indigo-50 rounded-lg p-4 text-sm">
+        <h4 className="font-semibold text-indigo-700 mb-1"><i className="fas fa-magic me-2"></i>{t('compare.verdict')}</h4>
+        {isLoading ? (
+          <LoadingSpinner size="sm" message={t('compare.comparing')} />
+        ) : error ? (
+          <ErrorNotice variant="inline" message={error.message} kind={error.kind} onRetry={() => setAttempt(n => n + 1)} />
+        ) : (
+          <p>{comparison?.verdict}</p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ProductComparisonTable;
@@ -0,0 +1,230 @@
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { AIChatSession, AIErrorKind, ChatMessage, Product, ProductAttributes, ProductComparison } from '../types';
+import { formatMoney } from '../services/priceService';
+import { compareProductWithUpload, startProductChatSession, streamMessageInChat } from '../services/geminiService';
+import { isCancellation, toAIError } from '../services/aiErrors';
+import { MessageKey } from '../services/i18nService';
+import ChatInterface from './ChatInterface';
+import ErrorNotice from './ErrorNotice';
+import { useI18n } from './I18nContext';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface ProductDetailProps {
+  product: Product;
+  analyzedText: string | null; // Description of the uploaded item, used for the comparison
+  locale?: string;
+  quantityInCart?: number;
+  onAddToCart?: (product: Product) => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: (product: Product) => void;
+}
+
+const attributeLabels: Record<keyof ProductAttributes, MessageKey> = {
+  category: 'attribute.category',
+  itemType: 'attribute.itemType',
+  color: 'attribute.color',
+  material: 'attribute.material',
+  style: 'attribute.style',
+};
+
+/** Full product details with an AI comparison against the uploaded item and a Q&A chat about this product only. */
+const ProductDetail: React.FC<ProductDetailProps> = ({
+  product,
+  analyzedText,
+  locale,
+  quantityInCart = 0,
+  onAddToCart,
+  isFavorite = false,
+  onToggleFavorite,
+}) => {
+  const { t } = useI18n();
+  const [comparison, setComparison] = useState<ProductComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [comparisonError, setComparisonError] = useState<{ message: string; kind: AIErrorKind } | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const chatRef = useRef<AIChatSession | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const compareAbortRef = useRef<AbortController | null>(null);
+
+  // Closing the detail view drops any answer still streaming in and any comparison still running.
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    compareAbortRef.current?.abort();
+  }, []);
+
+  const handleCompare = async () => {
+    if (!analyzedText) return;
+    const controller = new AbortController();
+    compareAbortRef.current = controller;
+    setIsComparing(true);
+    setComparisonError(null);
+    try {
+      setComparison(await compareProductWithUpload(product, analyzedText, controller.signal));
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error(err);
+      const error = toAIError(err);
+      setComparisonError({ message: `${t('detail.compareFailed')} ${t(`aiError.${error.kind}`)}`, kind: error.kind });
+    } finally {
+      if (compareAbortRef.current === controller) {
+        compareAbortRef.current = null;
+        setIsComparing(false);
+      }
+    }
+  };
+
+  const handleAsk = useCallback(async (question: string) => {
+    if (!chatRef.current) {
+      chatRef.current = startProductChatSession(product, analyzedText);
+    }
+    const answerId = `answer-${Date.now()}`;
+    const now = new Date();
+    setMessages(prev => [
+      ...prev,
+      { id: `question-${Date.now()}`, sender: 'user', text: question, timestamp: now },
+      { id: answerId, sender: 'ai', text: '', timestamp: now, isStreaming: true },
+    ]);
+    setIsAnswering(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const updateAnswer = (update: Partial<ChatMessage>) =>
+      setMessages(prev => prev.map(msg => (msg.id === answerId ? { ...msg, ...update } : msg)));
+
+    try {
+      const reply = await streamMessageInChat(chatRef.current, question, replySoFar => updateAnswer({ text: replySoFar.text }), controller.signal);
+      if (abortRef.current !== controller) return;
+      const wasStopped = controller.signal.aborted;
+      updateAnswer({ text: reply.text || (wasStopped ? t('chat.responseStopped') : ''), isStreaming: false, wasStopped });
+    } catch (err) {
+      if (abortRef.current !== controller) return;
+      console.error(err);
+      updateAnswer({ isStreaming: false, errorKind: toAIError(err).kind });
+    }
+    abortRef.current = null;
+    setIsAnswering(false);
+  }, [product, analyzedText, t]);
+
+  const handleRetryAnswer = useCallback((answerId: string) => {
+    const index = messages.findIndex(msg => msg.id === answerId);
+    const question = messages[index - 1];
+    if (!question || question.sender !== 'user') return;
+    setMessages(prev => prev.filter(msg => msg.id !== answerId && msg.id !== question.id));
+    handleAsk(question.text);
+  }, [messages, handleAsk]);
+
+  const attributeEntries = product.attributes
+    ? (Object.keys(attributeLabels) as (keyof ProductAttributes)[]).filter(key => product.attributes![key])
+    : [];
+
+  return (
+    <div className="text-gray-700 space-y-6">
+      <div className="flex flex-col sm:flex-row gap-6">
+        <img
+          src={product.imageUrl || `https://picsum.photos/seed/${product.id}/400/400`}
+          alt={product.name}
+          className="w-full sm:w-56 h-56 object-cover rounded-lg flex-shrink-0"
+          onError={(e) => (e.currentTarget.src = 'https://picsum.photos/400/400?grayscale')}
+        />
+        <div className="flex-grow min-w-0">
+          <h3 className="text-2xl font-semibold text-gray-800 mb-1">{product.name}</h3>
+          <p className="text-xl font-bold text-indigo-600 mb-3">{formatMoney(product.price, locale)}</p>
+          <p className="text-sm text-gray-600 whitespace-pre-wrap mb-3">{product.description || t('detail.noDescription')}</p>
+          {product.matchReason && (
+            <p className="text-sm text-indigo-500 italic mb-3"><i className="fas fa-lightbulb me-1"></i>{product.matchReason}</p>
+          )}
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-4">
+            {attributeEntries.length === 0 && (
+              <>
+                <dt className="text-gray-500">{t(attributeLabels.category)}</dt>
+                <dd className="capitalize">{product.category}</dd>
+              </>
+            )}
+            {attributeEntries.map(key => (
+              <React.Fragment key={key}>
+                <dt className="text-gray-500">{t(attributeLabels[key])}</dt>
+                <dd className="capitalize">{product.attributes![key]}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          <div className="flex items-center gap-2">
+            {onAddToCart && (
+              <button
+                onClick={() => onAddToCart(product)}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out"
+              >
+                <i className="fas fa-cart-plus me-2"></i>
+                {quantityInCart > 0 ? t('detail.addAnother', { count: quantityInCart }) : t('detail.addToCart')}
+              </button>
+            )}
+            {onToggleFavorite && (
+              <button
+                onClick={() => onToggleFavorite(product)}
+                className={`py-2 px-4 rounded-md border text-sm transition duration-150 ease-in-out ${
+                  isFavorite ? 'border-pink-500 text-pink-500' : 'border-gray-300 text-gray-600 hover:text-pink-500'
+                }`}
+                aria-pressed={isFavorite}
+              >
+                <i className={`${isFavorite ? 'fas' : 'far'} fa-heart me-2`}></i>{isFavorite ? t('detail.saved') : t('detail.save')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <section className="border border-gray-200 rounded-lg p-4">
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="font-semibold text-gray-800">{t('detail.compareHeading')}</h4>
+          {analyzedText && !isComparing && (
+            <button onClick={handleCompare} className="text-sm text-indigo-600 hover:underline">
+              {comparison ? t('detail.compareAgain') : t('detail.compare')}
+            </button>
+          )}
+        </div>
+        {!analyzedText ? (
+          <p className="text-sm text-gray-400">{t('detail.uploadToCompare')}</p>
+        ) : isComparing ? (
+          <LoadingSpinner size="sm" message={t('detail.comparing')} />
+        ) : comparisonError ? (
+          <ErrorNotice variant="inline" message={comparisonError.message} kind={comparisonError.kind} onRetry={handleCompare} />
+        ) : comparison ? (
+          <div className="text-sm">
+            <p className="mb-3">{comparison.summary}</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <p className="font-medium text-green-700 mb-1"><i className="fas fa-check me-1"></i>{t('detail.similar')}</p>
+                <ul className="list-disc list-inside space-y-1 text-gray-600">
+                  {comparison.similarities.map((point, index) => <li key={index}>{point}</li>)}
+                </ul>
+              </div>
+              <div>
+                <p className="font-medium text-amber-700 mb-1"><i className="fas fa-not-equal me-1"></i>{t('detail.different')}</p>
+                <ul className="list-disc list-inside space-y-1 text-gray-600">
+                  {comparison.differences.map((point, index) => <li key={index}>{point}</li>)}
+                </ul>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">{t('detail.compareIntro')}</p>
+        )}
+      </section>
+
+      <div className="h-96">
+        <ChatInterface
+          messages={messages}
+          onSendMessage={handleAsk}
+          isLoading={isAnswering}
+          onStopGenerating={() => abortRef.current?.abort()}
+          onRetryMessage={handleRetryAnswer}
+          title={t('detail.chatTitle', { name: product.name })}
+          placeholder={t('detail.chatPlaceholder')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ProductDetail;
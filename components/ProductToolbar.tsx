@@ -0,0 +1,107 @@
+
+import React from 'react';
+import { ProductFilters, ProductSort } from '../types';
+import { DEFAULT_PRODUCT_FILTERS, hasActiveFilters } from '../services/productFilterService';
+import { MessageKey } from '../services/i18nService';
+import { useI18n } from './I18nContext';
+
+interface ProductToolbarProps {
+  filters: ProductFilters;
+  categories: string[];
+  onChange: (filters: ProductFilters) => void;
+}
+
+const SORT_LABELS: Record<ProductSort, MessageKey> = {
+  relevance: 'toolbar.sortRelevance',
+  'price-asc': 'toolbar.sortPriceAsc',
+  'price-desc': 'toolbar.sortPriceDesc',
+  name: 'toolbar.sortName',
+};
+
+const parsePriceInput = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+const inputClass = 'bg-white/10 border border-white/20 rounded-md px-2 py-1.5 text-sm text-gray-100 placeholder-gray-400 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none';
+
+const ProductToolbar: React.FC<ProductToolbarProps> = ({ filters, categories, onChange }) => {
+  const { t } = useI18n();
+  const update = (changes: Partial<ProductFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 mb-4">
+      <label className="flex-grow min-w-[10rem]">
+        <span className="block text-xs text-gray-400 mb-1">{t('toolbar.search')}</span>
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder={t('toolbar.searchPlaceholder')}
+          className={`${inputClass} w-full`}
+        />
+      </label>
+      <label>
+        <span className="block text-xs text-gray-400 mb-1">{t('toolbar.category')}</span>
+        <select
+          value={filters.category ?? ''}
+          onChange={(e) => update({ category: e.target.value || null })}
+          className={inputClass}
+        >
+          <option value="" className="text-gray-800">{t('toolbar.allCategories')}</option>
+          {/* Keep a category from a shared link selectable even if the current results lack it */}
+          {[...categories, ...(filters.category && !categories.includes(filters.category) ? [filters.category] : [])].map(category => (
+            <option key={category} value={category} className="text-gray-800">{category}</option>
+          ))}
+        </select>
+      </label>
+      <div>
+        <span className="block text-xs text-gray-400 mb-1">{t('toolbar.price')}</span>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min="0"
+            value={filters.minPrice ?? ''}
+            onChange={(e) => update({ minPrice: parsePriceInput(e.target.value) })}
+            placeholder={t('toolbar.min')}
+            aria-label={t('toolbar.minPrice')}
+            className={`${inputClass} w-20`}
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="number"
+            min="0"
+            value={filters.maxPrice ?? ''}
+            onChange={(e) => update({ maxPrice: parsePriceInput(e.target.value) })}
+            placeholder={t('toolbar.max')}
+            aria-label={t('toolbar.maxPrice')}
+            className={`${inputClass} w-20`}
+          />
+        </div>
+      </div>
+      <label>
+        <span className="block text-xs text-gray-400 mb-1">{t('toolbar.sortBy')}</span>
+        <select
+          value={filters.sort}
+          onChange={(e) => update({ sort: e.target.value as ProductSort })}
+          className={inputClass}
+        >
+          {(Object.keys(SORT_LABELS) as ProductSort[]).map(sort => (
+            <option key={sort} value={sort} className="text-gray-800">{t(SORT_LABELS[sort])}</option>
+          ))}
+        </select>
+      </label>
+      {hasActiveFilters(filters) && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_PRODUCT_FILTERS, sort: filters.sort })}
+          className="text-sm text-indigo-300 hover:text-white underline pb-1.5"
+        >
+          {t('toolbar.clearFilters')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProductToolbar;
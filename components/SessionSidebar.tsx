@@ -0,0 +1,101 @@
+
+import React, { useRef } from 'react';
+import { ShoppingSessionSummary } from '../types';
+import { useI18n } from './I18nContext';
+
+interface SessionSidebarProps {
+  sessions: ShoppingSessionSummary[];
+  activeSessionId: string | null;
+  onOpenSession: (id: string) => void;
+  onDeleteSession: (id: string) => void;
+  onNewSession: () => void;
+  onOpenSharedFile?: (file: File) => void; // Opens a result someone exported with "Share"
+}
+
+const SessionSidebar: React.FC<SessionSidebarProps> = ({ sessions, activeSessionId, onOpenSession, onDeleteSession, onNewSession, onOpenSharedFile }) => {
+  const { t, formatTime } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file && onOpenSharedFile) onOpenSharedFile(file);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-xl font-semibold text-indigo-300">{t('sessions.heading')}</h2>
+        <button
+          onClick={onNewSession}
+          className="text-sm text-indigo-200 hover:text-white"
+          title={t('sessions.newHint')}
+        >
+          <i className="fas fa-plus me-1"></i>{t('sessions.new')}
+        </button>
+      </div>
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-400">{t('sessions.empty')}</p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto pe-1">
+          {sessions.map(session => (
+            <li
+              key={session.id}
+              className={`flex items-center rounded-lg p-2 transition duration-150 ease-in-out ${
+                session.id === activeSessionId ? 'bg-indigo-500/30' : 'hover:bg-white/10'
+              }`}
+            >
+              <button
+                onClick={() => onOpenSession(session.id)}
+                className="flex items-center flex-grow min-w-0 text-start"
+                aria-current={session.id === activeSessionId ? 'true' : undefined}
+              >
+                {session.thumbnail ? (
+                  <img src={session.thumbnail} alt="" className="w-12 h-12 rounded object-cover flex-shrink-0 me-3" />
+                ) : (
+                  <div className="w-12 h-12 rounded bg-white/10 flex items-center justify-center flex-shrink-0 me-3">
+                    <i className="fas fa-image text-gray-400" aria-hidden="true"></i>
+                  </div>
+                )}
+                <span className="min-w-0">
+                  <span className="block text-sm font-medium text-gray-100 truncate" title={session.title || t('sessions.untitled')}>{session.title || t('sessions.untitled')}</span>
+                  <span className="block text-xs text-gray-400">{formatTime(new Date(session.updatedAt))}</span>
+                </span>
+              </button>
+              <button
+                onClick={() => onDeleteSession(session.id)}
+                className="ms-2 text-gray-400 hover:text-red-400 flex-shrink-0"
+                title={t('sessions.delete')}
+                aria-label={t('sessions.deleteNamed', { title: session.title || t('sessions.untitled') })}
+              >
+                <i className="fas fa-trash-alt" aria-hidden="true"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {onOpenSharedFile && (
+        <>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="hidden"
+            aria-hidden="true"
+            tabIndex={-1}
+            ref={fileInputRef}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="mt-3 text-sm text-indigo-200 hover:text-white"
+            title={t('sessions.openFileHint')}
+          >
+            <i className="fas fa-folder-open me-1" aria-hidden="true"></i>{t('sessions.openFile')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionSidebar;
@@ -0,0 +1,188 @@
+import React, { useId, useMemo, useState } from 'react';
+import { ChatMessage } from '../types';
+import { downloadFile, printHtml, toFileSlug } from '../services/fileService';
+import { createThumbnail } from '../services/imageService';
+import { renderShoppingReport } from '../services/reportService';
+import {
+  buildSharedResult, createShareLink, exportSharedResultToJson, getShareableMessages, ShareLink, SharedResultSource,
+} from '../services/shareService';
+import { useI18n } from './I18nContext';
+
+interface ShareDialogProps {
+  source: SharedResultSource; // Its image is the small session thumbnail, which keeps links short
+  messages: ChatMessage[];
+  photo?: { base64: string; mimeType: string } | null; // Full upload, for a sharper photo in the report
+}
+
+const REPORT_IMAGE_SIZE = 640;
+
+const sectionHeadingClass = 'text-sm font-semibold text-gray-800 mb-2';
+const secondaryButtonClass = 'bg-white hover:bg-gray-100 text-indigo-700 border border-indigo-300 font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50';
+const primaryButtonClass = 'bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50';
+
+/** Lets the shopper pick a note and chat excerpts, then share the results as a link or file or export a report. */
+const ShareDialog: React.FC<ShareDialogProps> = ({ source, messages, photo }) => {
+  const i18n = useI18n();
+  const { t, formatTime } = i18n;
+  const noteId = useId();
+  const shareable = useMemo(() => getShareableMessages(messages), [messages]);
+  const [note, setNote] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [linkStatus, setLinkStatus] = useState<'idle' | 'creating' | 'tooLong' | 'failed'>('idle');
+  const [copied, setCopied] = useState(false);
+
+  const buildResult = () => buildSharedResult(source, shareable.filter(msg => selectedIds.includes(msg.id)), note);
+
+  // A link made earlier no longer matches once the note or excerpts change.
+  const resetLink = () => {
+    setLink(null);
+    setLinkStatus('idle');
+    setCopied(false);
+  };
+
+  const toggleExcerpt = (messageId: string) => {
+    setSelectedIds(prev => (prev.includes(messageId) ? prev.filter(id => id !== messageId) : [...prev, messageId]));
+    resetLink();
+  };
+
+  const handleCreateLink = async () => {
+    setLinkStatus('creating');
+    try {
+      const created = await createShareLink(buildResult(), window.location.href);
+      setLink(created);
+      setLinkStatus(created ? 'idle' : 'tooLong');
+    } catch (error) {
+      console.warn("Could not create share link:", error);
+      setLinkStatus('failed');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopied(true);
+    } catch (error) {
+      console.warn("Could not copy the link:", error);
+    }
+  };
+
+  const handleDownloadFile = () => {
+    downloadFile(`${toFileSlug(source.title)}.shopsmarter.json`, exportSharedResultToJson(buildResult()), 'application/json');
+  };
+
+  const buildReport = async (): Promise<string> => {
+    let image = source.image;
+    if (photo) {
+      try {
+        image = await createThumbnail(photo.base64, photo.mimeType, REPORT_IMAGE_SIZE);
+      } catch (error) {
+        console.warn("Could not resize the photo for the report, using the thumbnail:", error);
+      }
+    }
+    return renderShoppingReport({ ...buildResult(), image }, i18n);
+  };
+
+  const handlePrint = async () => printHtml(await buildReport());
+
+  const handleDownloadReport = async () => {
+    downloadFile(`${toFileSlug(source.title)}-report.html`, await buildReport(), 'text/html');
+  };
+
+  return (
+    <div className="text-gray-700 space-y-5">
+      <p className="text-sm text-gray-600">{t('share.intro')}</p>
+
+      <div>
+        <label htmlFor={noteId} className={`block ${sectionHeadingClass}`}>{t('share.note')}</label>
+        <textarea
+          id={noteId}
+          value={note}
+          onChange={(e) => { setNote(e.target.value); resetLink(); }}
+          placeholder={t('share.notePlaceholder')}
+          rows={3}
+          className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-sm"
+        />
+      </div>
+
+      <fieldset>
+        <legend className={sectionHeadingClass}>{t('share.excerpts')}</legend>
+        {shareable.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('share.noExcerpts')}</p>
+        ) : (
+          <ul className="max-h-48 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+            {shareable.map(msg => (
+              <li key={msg.id}>
+                <label className="flex items-start gap-2 p-2 text-sm cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(msg.id)}
+                    onChange={() => toggleExcerpt(msg.id)}
+                    className="mt-1 accent-indigo-600"
+                  />
+                  <span className="min-w-0">
+                    <span className="font-semibold">{msg.sender === 'user' ? t('chat.you') : t('chat.ai')}</span>
+                    <span className="text-xs text-gray-400 ms-2">{formatTime(new Date(msg.timestamp))}</span>
+                    <span className="block text-gray-600 line-clamp-2">{msg.text}</span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+      </fieldset>
+
+      <section>
+        <h3 className={sectionHeadingClass}>{t('share.link')}</h3>
+        {link ? (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={link.url}
+              onFocus={(e) => e.target.select()}
+              aria-label={t('share.linkLabel')}
+              className="flex-grow min-w-0 p-2 border border-gray-300 rounded-md text-xs text-gray-600"
+            />
+            <button onClick={handleCopy} className={primaryButtonClass}>
+              <i className={`fas ${copied ? 'fa-check' : 'fa-copy'} me-2`} aria-hidden="true"></i>{copied ? t('share.copied') : t('share.copy')}
+            </button>
+          </div>
+        ) : (
+          <button onClick={handleCreateLink} disabled={linkStatus === 'creating'} className={primaryButtonClass}>
+            <i className="fas fa-link me-2" aria-hidden="true"></i>
+            {linkStatus === 'creating' ? t('share.creatingLink') : t('share.createLink')}
+          </button>
+        )}
+        <div role="status" className="text-xs text-gray-500 mt-2">
+          {link && !link.includesImage && source.image && t('share.linkNoImage')}
+          {linkStatus === 'tooLong' && t('share.linkTooLong')}
+          {linkStatus === 'failed' && t('share.linkFailed')}
+        </div>
+      </section>
+
+      <section>
+        <h3 className={sectionHeadingClass}>{t('share.file')}</h3>
+        <button onClick={handleDownloadFile} className={secondaryButtonClass}>
+          <i className="fas fa-file-download me-2" aria-hidden="true"></i>{t('share.downloadFile')}
+        </button>
+        <p className="text-xs text-gray-500 mt-2">{t('share.fileHint')}</p>
+      </section>
+
+      <section>
+        <h3 className={sectionHeadingClass}>{t('share.report')}</h3>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handlePrint} className={secondaryButtonClass}>
+            <i className="fas fa-print me-2" aria-hidden="true"></i>{t('share.print')}
+          </button>
+          <button onClick={handleDownloadReport} className={secondaryButtonClass}>
+            <i className="fas fa-file-code me-2" aria-hidden="true"></i>{t('share.downloadReport')}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ShareDialog;
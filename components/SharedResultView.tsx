@@ -0,0 +1,103 @@
+import React from 'react';
+import { Product, SharedResult } from '../types';
+import { printHtml } from '../services/fileService';
+import { renderShoppingReport } from '../services/reportService';
+import { useI18n } from './I18nContext';
+import ProductCard from './ProductCard';
+
+interface SharedResultViewProps {
+  result: SharedResult;
+  onExit: () => void;
+}
+
+const panelClass = 'bg-white/10 backdrop-blur-md p-6 rounded-xl shadow-xl';
+const headingClass = 'text-2xl font-semibold mb-4 text-indigo-300';
+
+/** Read-only page for results someone shared: no cart, chat or AI calls, just what was sent. */
+const SharedResultView: React.FC<SharedResultViewProps> = ({ result, onExit }) => {
+  const i18n = useI18n();
+  const { t, locale } = i18n;
+  const sharedOn = new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(result.sharedAt);
+
+  const renderProducts = (heading: string, products: Product[]) =>
+    products.length > 0 && (
+      <section className={panelClass}>
+        <h2 className={headingClass}>{heading}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6">
+          {products.map(product => <ProductCard key={product.id} product={product} locale={locale} />)}
+        </div>
+      </section>
+    );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-indigo-500/20 rounded-xl px-6 py-4">
+        <p className="text-indigo-100">
+          <i className="fas fa-eye me-2" aria-hidden="true"></i>{t('shared.banner', { date: sharedOn })}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => printHtml(renderShoppingReport(result, i18n))}
+            className="bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-lg transition duration-150 ease-in-out"
+          >
+            <i className="fas fa-print me-2" aria-hidden="true"></i>{t('share.print')}
+          </button>
+          <button
+            onClick={onExit}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-150 ease-in-out"
+          >
+            <i className="fas fa-search me-2" aria-hidden="true"></i>{t('shared.exit')}
+          </button>
+        </div>
+      </div>
+
+      <section className={panelClass}>
+        <h2 className={headingClass}>{result.title || t('shared.untitled')}</h2>
+        {result.note && (
+          <div className="mb-4 bg-white/10 border-s-4 border-indigo-400 rounded p-4">
+            <p className="text-xs uppercase tracking-wide text-indigo-200 mb-1">{t('shared.noteFrom')}</p>
+            <p className="whitespace-pre-wrap">{result.note}</p>
+          </div>
+        )}
+        <div className="flex flex-col sm:flex-row gap-6 items-start">
+          {result.image && (
+            <img
+              src={result.image}
+              alt={result.imageAlt ?? t('upload.previewAlt')}
+              className="w-full sm:w-64 max-h-64 object-cover rounded-lg"
+            />
+          )}
+          {result.analysis && <p className="text-gray-200 italic">"{result.analysis}"</p>}
+        </div>
+      </section>
+
+      {renderProducts(t('discover.tabSimilar'), result.similarProducts)}
+      {renderProducts(t('discover.tabComplementary'), result.complementaryProducts)}
+      {result.similarProducts.length === 0 && result.complementaryProducts.length === 0 && (
+        <p className="text-gray-400 text-center py-8">{t('shared.noProducts')}</p>
+      )}
+
+      {result.chatExcerpts.length > 0 && (
+        <section className={panelClass}>
+          <h2 className={headingClass}>{t('report.chat')}</h2>
+          <ul className="space-y-3">
+            {result.chatExcerpts.map((excerpt, index) => (
+              <li key={index} className={`flex ${excerpt.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <p
+                  className={`max-w-xl px-4 py-2 rounded-xl shadow text-sm whitespace-pre-wrap ${
+                    excerpt.sender === 'user' ? 'bg-indigo-500 text-white' : 'bg-gray-200 text-gray-800'
+                  }`}
+                >
+                  <span className="sr-only">{excerpt.sender === 'user' ? t('chat.you') : t('chat.ai')}: </span>
+                  {excerpt.text}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default SharedResultView;
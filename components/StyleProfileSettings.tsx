@@ -0,0 +1,138 @@
+
+import React, { useState } from 'react';
+import { StyleProfile } from '../types';
+import { fromMajorUnits, toMajorUnits } from '../services/priceService';
+import { createEmptyStyleProfile, STYLE_PROFILE_LIST_KEYS, StyleProfileListKey } from '../services/styleProfileService';
+import { useI18n } from './I18nContext';
+
+interface StyleProfileSettingsProps {
+  profile: StyleProfile;
+  onSave: (profile: StyleProfile) => void;
+  onClose: () => void;
+}
+
+// Lists are edited as comma-separated text and split again on save.
+const toListText = (entries: string[]): string => entries.join(', ');
+const fromListText = (text: string): string[] => text.split(',').map(entry => entry.trim()).filter(Boolean);
+
+const parseBudget = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+const inputClass = 'mt-1 w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none';
+
+/** Form for the saved style profile. Edits stay local until saved. */
+const StyleProfileSettings: React.FC<StyleProfileSettingsProps> = ({ profile, onSave, onClose }) => {
+  const { t, currency } = useI18n();
+  const [lists, setLists] = useState(() =>
+    Object.fromEntries(STYLE_PROFILE_LIST_KEYS.map(key => [key, toListText(profile[key])])) as Record<StyleProfileListKey, string>
+  );
+  const [fit, setFit] = useState(profile.fit);
+  // A saved budget stays in the currency it was stated in; a new one is in the shopper's current currency.
+  const minCurrency = profile.budgetMin?.currency ?? currency;
+  const maxCurrency = profile.budgetMax?.currency ?? currency;
+  const [budgetMin, setBudgetMin] = useState(profile.budgetMin ? toMajorUnits(profile.budgetMin).toString() : '');
+  const [budgetMax, setBudgetMax] = useState(profile.budgetMax ? toMajorUnits(profile.budgetMax).toString() : '');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const min = parseBudget(budgetMin);
+    const max = parseBudget(budgetMax);
+    if ((budgetMin.trim() && min === undefined) || (budgetMax.trim() && max === undefined)) {
+      setFormError(t('profile.budgetInvalid'));
+      return;
+    }
+    if (min !== undefined && max !== undefined && minCurrency === maxCurrency && min > max) {
+      setFormError(t('profile.budgetOrder'));
+      return;
+    }
+    const next: StyleProfile = {
+      ...createEmptyStyleProfile(),
+      fit: fit.trim(),
+      budgetMin: min === undefined ? undefined : fromMajorUnits(min, minCurrency),
+      budgetMax: max === undefined ? undefined : fromMajorUnits(max, maxCurrency),
+    };
+    STYLE_PROFILE_LIST_KEYS.forEach(key => {
+      next[key] = fromListText(lists[key]);
+    });
+    onSave(next);
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate>
+      <p className="text-sm text-gray-500 mb-4">{t('profile.intro')}</p>
+      <div className="space-y-3">
+        {STYLE_PROFILE_LIST_KEYS.filter(key => key !== 'notes').map(key => (
+          <label key={key} className="block">
+            <span className="text-sm font-medium text-gray-600">{t(`profile.field.${key}`)}</span>
+            <input
+              type="text"
+              value={lists[key]}
+              onChange={(e) => setLists(prev => ({ ...prev, [key]: e.target.value }))}
+              placeholder={t(`profile.placeholder.${key}`)}
+              className={inputClass}
+            />
+          </label>
+        ))}
+        <label className="block">
+          <span className="text-sm font-medium text-gray-600">{t('profile.field.fit')}</span>
+          <input
+            type="text"
+            value={fit}
+            onChange={(e) => setFit(e.target.value)}
+            placeholder={t('profile.placeholder.fit')}
+            className={inputClass}
+          />
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-600">{t('profile.field.budgetMin', { currency: minCurrency })}</span>
+            <input type="number" min="0" value={budgetMin} onChange={(e) => setBudgetMin(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-600">{t('profile.field.budgetMax', { currency: maxCurrency })}</span>
+            <input type="number" min="0" value={budgetMax} onChange={(e) => setBudgetMax(e.target.value)} className={inputClass} />
+          </label>
+        </div>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-600">{t('profile.field.notes')}</span>
+          <textarea
+            value={lists.notes}
+            onChange={(e) => setLists(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder={t('profile.placeholder.notes')}
+            rows={2}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      {formError && <p className="text-red-500 text-sm mt-3">{formError}</p>}
+      <div className="flex gap-3 mt-6">
+        <button
+          type="button"
+          onClick={() => {
+            setLists(Object.fromEntries(STYLE_PROFILE_LIST_KEYS.map(key => [key, ''])) as Record<StyleProfileListKey, string>);
+            setFit('');
+            setBudgetMin('');
+            setBudgetMax('');
+            setFormError(null);
+          }}
+          className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-700 font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out"
+        >
+          {t('profile.clear')}
+        </button>
+        <button
+          type="submit"
+          className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out"
+        >
+          {t('profile.save')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default StyleProfileSettings;
@@ -0,0 +1,119 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { isSpeechRecognitionSupported, SpeechSession, startSpeechRecognition } from '../services/speechService';
+import { MessageKey } from '../services/i18nService';
+import { useI18n } from './I18nContext';
+
+interface TextQueryInputProps {
+  onSubmit: (query: string) => void;
+  isLoading: boolean;
+  lang?: string; // BCP 47 language for voice input
+}
+
+const MAX_QUERY_LENGTH = 500;
+
+/** Describe what you want instead of uploading a photo, by typing or by voice. A finished spoken query is sent right away. */
+const TextQueryInput: React.FC<TextQueryInputProps> = ({ onSubmit, isLoading, lang = 'en-US' }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [isListening, setIsListening] = useState(false);
+  const [voiceNote, setVoiceNote] = useState<MessageKey | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const speechRef = useRef<SpeechSession | null>(null);
+  const canUseVoice = isSpeechRecognitionSupported();
+
+  // Stop listening if the panel goes away mid-sentence.
+  useEffect(() => () => speechRef.current?.cancel(), []);
+
+  const submit = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isLoading) return;
+    onSubmit(trimmed);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(query);
+  };
+
+  const handleToggleVoice = async () => {
+    if (speechRef.current) {
+      speechRef.current.stop();
+      return;
+    }
+    setError(null);
+    setIsListening(true);
+    const session = await startSpeechRecognition(lang, {
+      onTranscript: (text, isFinal) => {
+        setQuery(text.slice(0, MAX_QUERY_LENGTH));
+        if (isFinal) submit(text.slice(0, MAX_QUERY_LENGTH));
+      },
+      onError: kind => setError(`voice.${kind}`),
+      onEnd: () => {
+        speechRef.current = null;
+        setIsListening(false);
+        setVoiceNote(null);
+      },
+    });
+    if (!session) {
+      setIsListening(false);
+      setError('voice.unsupported');
+      return;
+    }
+    speechRef.current = session;
+    setVoiceNote(session.onDevice ? 'query.onDevice' : 'query.browserService');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 border border-gray-300 rounded-lg shadow-sm bg-white">
+      <label htmlFor="text-query" className="block text-sm font-medium text-gray-600 mb-1">{t('query.label')}</label>
+      <textarea
+        id="text-query"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            submit(query);
+          }
+        }}
+        maxLength={MAX_QUERY_LENGTH}
+        rows={3}
+        placeholder={t('query.placeholder')}
+        className="w-full p-2 border border-gray-300 rounded-md text-gray-800 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+        disabled={isLoading}
+      />
+      {isListening && (
+        <p className="text-xs text-indigo-600 mt-1" role="status">
+          <i className="fas fa-circle text-red-500 animate-pulse me-1"></i>{t('query.listening')} {voiceNote && t(voiceNote)}
+        </p>
+      )}
+      {error && <p className="text-red-500 text-sm mt-1">{t(error)}</p>}
+      <div className="flex gap-2 mt-2">
+        {canUseVoice && (
+          <button
+            type="button"
+            onClick={handleToggleVoice}
+            disabled={isLoading}
+            className={`py-2 px-4 rounded-md font-semibold transition duration-150 ease-in-out disabled:opacity-50 ${
+              isListening ? 'bg-red-500 hover:bg-red-600 text-white' : 'bg-white border border-indigo-600 text-indigo-600 hover:bg-indigo-50'
+            }`}
+            title={isListening ? t('query.stopListening') : t('query.speak')}
+            aria-pressed={isListening}
+          >
+            <i className={`fas ${isListening ? 'fa-stop' : 'fa-microphone'}`}></i>
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading || !query.trim()}
+          className="flex-grow bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50"
+        >
+          {isLoading ? t('query.processing') : <><i className="fas fa-search me-2"></i>{t('query.find')}</>}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TextQueryInput;
@@ -0,0 +1,183 @@
+
+import React, { useState } from 'react';
+import { WishlistCollection, WishlistState } from '../types';
+import { formatMoney } from '../services/priceService';
+import { DEFAULT_COLLECTION_ID, exportCollectionToCsv, exportCollectionToJson, getCollectionItems } from '../services/wishlistService';
+import { downloadFile, toFileSlug } from '../services/fileService';
+import { useI18n } from './I18nContext';
+
+interface WishlistViewProps {
+  wishlist: WishlistState;
+  onRemoveItem: (productId: string) => void;
+  onMoveItem: (productId: string, collectionId: string) => void;
+  onCreateCollection: (name: string) => void;
+  onRenameCollection: (collectionId: string, name: string) => void;
+  onDeleteCollection: (collectionId: string) => void;
+  onSetActiveCollection: (collectionId: string) => void;
+}
+
+const WishlistView: React.FC<WishlistViewProps> = ({
+  wishlist,
+  onRemoveItem,
+  onMoveItem,
+  onCreateCollection,
+  onRenameCollection,
+  onDeleteCollection,
+  onSetActiveCollection,
+}) => {
+  const { t, locale } = useI18n();
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const nameOf = (collection: WishlistCollection) => collection.name || t('wishlist.defaultName');
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newCollectionName.trim()) return;
+    onCreateCollection(newCollectionName);
+    setNewCollectionName('');
+  };
+
+  const handleRename = (collectionId: string) => {
+    if (renameValue.trim()) {
+      onRenameCollection(collectionId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const handleExport = (collectionId: string, format: 'json' | 'csv') => {
+    const collection = wishlist.collections.find(c => c.id === collectionId);
+    if (!collection) return;
+    const items = getCollectionItems(wishlist, collectionId);
+    const named = { ...collection, name: nameOf(collection) };
+    const slug = toFileSlug(named.name);
+    if (format === 'json') {
+      downloadFile(`${slug}.json`, exportCollectionToJson(named, items), 'application/json');
+    } else {
+      downloadFile(`${slug}.csv`, exportCollectionToCsv(named, items), 'text/csv');
+    }
+  };
+
+  return (
+    <div className="text-gray-700">
+      <form onSubmit={handleCreate} className="flex gap-2 mb-6">
+        <input
+          type="text"
+          value={newCollectionName}
+          onChange={(e) => setNewCollectionName(e.target.value)}
+          placeholder={t('wishlist.newPlaceholder')}
+          className="flex-grow p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!newCollectionName.trim()}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50"
+        >
+          {t('wishlist.create')}
+        </button>
+      </form>
+
+      <div className="space-y-6">
+        {wishlist.collections.map(collection => {
+          const items = getCollectionItems(wishlist, collection.id);
+          const isActive = collection.id === wishlist.activeCollectionId;
+          return (
+            <section key={collection.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                {renamingId === collection.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={() => handleRename(collection.id)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRename(collection.id)}
+                    className="p-1 border border-gray-300 rounded-md"
+                  />
+                ) : (
+                  <h3 className="text-lg font-semibold text-gray-800">
+                    {nameOf(collection)} <span className="text-sm font-normal text-gray-500">({items.length})</span>
+                  </h3>
+                )}
+                <div className="flex items-center gap-3 text-sm">
+                  {isActive ? (
+                    <span className="text-xs bg-pink-100 text-pink-700 px-2 py-1 rounded-full">{t('wishlist.heartsSaveHere')}</span>
+                  ) : (
+                    <button onClick={() => onSetActiveCollection(collection.id)} className="text-indigo-600 hover:underline">
+                      {t('wishlist.saveHeartsHere')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => { setRenamingId(collection.id); setRenameValue(nameOf(collection)); }}
+                    className="text-gray-500 hover:text-gray-700"
+                    title={t('wishlist.rename')}
+                    aria-label={t('wishlist.rename')}
+                  >
+                    <i className="fas fa-pen" aria-hidden="true"></i>
+                  </button>
+                  {collection.id !== DEFAULT_COLLECTION_ID && (
+                    <button onClick={() => onDeleteCollection(collection.id)} className="text-gray-500 hover:text-red-500" title={t('wishlist.delete')} aria-label={t('wishlist.delete')}>
+                      <i className="fas fa-trash-alt" aria-hidden="true"></i>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleExport(collection.id, 'json')}
+                    disabled={items.length === 0}
+                    className="text-gray-500 hover:text-gray-700 disabled:opacity-40"
+                  >
+                    {t('wishlist.exportJson')}
+                  </button>
+                  <button
+                    onClick={() => handleExport(collection.id, 'csv')}
+                    disabled={items.length === 0}
+                    className="text-gray-500 hover:text-gray-700 disabled:opacity-40"
+                  >
+                    {t('wishlist.exportCsv')}
+                  </button>
+                </div>
+              </div>
+
+              {items.length === 0 ? (
+                <p className="text-sm text-gray-400">{t('wishlist.empty')}</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {items.map(({ product, source, savedAt }) => (
+                    <li key={product.id} className="py-2 flex items-center">
+                      <img src={product.imageUrl} alt={product.name} className="w-12 h-12 rounded object-cover me-3 flex-shrink-0" />
+                      <div className="min-w-0 flex-grow">
+                        <p className="font-medium text-gray-800 truncate" title={product.name}>{product.name}</p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {t('wishlist.foundIn', { price: formatMoney(product.price, locale), title: source.title || t('sessions.untitled'), date: savedAt.toLocaleDateString(locale) })}
+                        </p>
+                      </div>
+                      <select
+                        value={collection.id}
+                        onChange={(e) => onMoveItem(product.id, e.target.value)}
+                        className="ms-2 text-sm border border-gray-300 rounded-md p-1"
+                        aria-label={t('wishlist.moveNamed', { name: product.name })}
+                      >
+                        {wishlist.collections.map(c => (
+                          <option key={c.id} value={c.id}>{nameOf(c)}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => onRemoveItem(product.id)}
+                        className="ms-2 text-pink-500 hover:text-pink-700"
+                        title={t('wishlist.remove')}
+                        aria-label={t('wishlist.remove')}
+                      >
+                        <i className="fas fa-heart-broken" aria-hidden="true"></i>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WishlistView;
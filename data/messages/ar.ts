@@ -0,0 +1,425 @@
+import { Message } from '../../types';
+import { MessageKey } from './en';
+
+// Arabic UI strings (right-to-left). Plural entries use Arabic's six plural categories.
+export const ar: Record<MessageKey, Message> = {
+  'app.title': 'ShopSmarter AI',
+  'app.footer': 'ShopSmarter AI © {year}.',
+  'app.footerMock': 'وضع العرض دون اتصال (ذكاء اصطناعي تجريبي).',
+  'app.footerGemini': 'مدعوم بواسطة Gemini.',
+  'app.loading': 'جارٍ التحميل...',
+  'app.skipToContent': 'تخطَّ إلى المحتوى الرئيسي',
+
+  'header.styleProfile': 'ملف الأسلوب',
+  'header.styleProfileSetUp': 'حدّد مقاساتك وميزانيتك وأسلوبك',
+  'header.styleProfileEdit': 'عدّل ملف أسلوبك',
+  'header.wishlist': 'قائمة الأمنيات ({count})',
+  'header.checkout': 'إتمام الشراء ({count})',
+
+  'locale.language': 'اللغة',
+  'locale.currency': 'العملة',
+  'locale.currencyNote': 'تبقى أسعار الكتالوج بعملتها الأصلية، وتضيف ردود الذكاء الاصطناعي مبالغ تقريبية بعملتك.',
+
+  'search.heading': '١. شارك مصدر إلهامك',
+  'search.modes': 'البحث باستخدام',
+  'search.photo': 'صورة',
+  'search.text': 'صِف أو تحدّث',
+  'search.analyzingQuery': 'جارٍ فهم طلبك والبحث عن المنتجات...',
+  'search.analyzingImage': 'جارٍ تحليل الصورة والبحث عن المنتجات...',
+
+  'comparison.heading': 'مقارنة جنبًا إلى جنب',
+  'imageComparison.image': 'الصورة {index}',
+  'imageComparison.noMatches': 'لا توجد منتجات مطابقة لهذه الصورة في الكتالوج.',
+
+  'discover.heading': '٢. اكتشف المنتجات',
+  'discover.shoppingFor': 'تتسوق من أجل: {label}',
+  'discover.backToPhoto': 'العودة إلى الصورة كاملة',
+  'discover.tabs': 'قوائم المنتجات',
+  'discover.tabSimilar': 'منتجات مشابهة',
+  'discover.tabComplementary': 'منتجات مكمّلة',
+  'discover.tabAll': 'الكل',
+  'discover.issuesSummary': 'تم تخطي {dropped} من الاقتراحات وإصلاح {repaired} بسبب بيانات ناقصة من الذكاء الاصطناعي',
+  'discover.compareSelected': 'تم اختيار {count} من {max} للمقارنة',
+  'discover.compareNeedsTwo': 'اختر منتجين على الأقل',
+  'discover.compare': 'قارن',
+  'discover.clear': 'مسح',
+  'discover.findingForItem': 'جارٍ البحث عن منتجات لـ {label}...',
+  'discover.thisItem': 'هذه القطعة',
+  'discover.updating': 'جارٍ تحديث النتائج...',
+  'discover.noFilterMatches': 'لا توجد منتجات تطابق هذه الفلاتر.',
+  'discover.noRefinementMatches': 'لا شيء في الكتالوج يطابق هذه التعديلات. احذف أحدها أعلاه أو ارجع إلى النتائج السابقة.',
+  'discover.noSimilar': 'لم يتم العثور على منتجات مشابهة لهذه الصورة بعد. جرّب المحادثة!',
+  'discover.noComplementary': 'لم يتم العثور على منتجات مكمّلة لهذه الصورة بعد. جرّب المحادثة!',
+  'discover.noProducts': 'لم يتم العثور على منتجات لهذه الصورة بعد. جرّب المحادثة!',
+
+  'look.heading': '٣. أكمل الإطلالة',
+  'look.intro': 'إطلالات أو غرف كاملة مبنية حول {label}. بدّل أي قطعة أو حدّد ميزانية للمجموع.',
+  'look.yourItem': 'قطعتك',
+
+  'share.open': 'مشاركة',
+  'share.openHint': 'شارك هذه النتائج أو صدّر تقريرًا',
+  'share.title': 'مشاركة أو تصدير',
+  'share.intro': 'أرسل هذه النتائج إلى عميل أو صديق. تُفتح للقراءة فقط، دون الحاجة إلى حساب أو جلسات محفوظة.',
+  'share.note': 'ملاحظة للمستلم (اختيارية)',
+  'share.notePlaceholder': 'مثلًا: اختياراتي لملابس عطلة نهاية الأسبوع؛ السترة الأولى هي التي ذكرتها.',
+  'share.excerpts': 'مقتطفات المحادثة المراد تضمينها',
+  'share.noExcerpts': 'لا توجد رسائل محادثة لتضمينها بعد.',
+  'share.link': 'رابط',
+  'share.createLink': 'إنشاء رابط',
+  'share.creatingLink': 'جارٍ إنشاء الرابط...',
+  'share.copy': 'نسخ',
+  'share.copied': 'تم النسخ!',
+  'share.linkLabel': 'رابط قابل للمشاركة',
+  'share.linkNoImage': 'تم حذف الصورة لإبقاء الرابط قصيرًا. نزّل الملف لتضمينها.',
+  'share.linkTooLong': 'هذه النتائج أكبر من أن تُرسل في رابط. نزّل الملف وأرسله بدلًا من ذلك.',
+  'share.linkFailed': 'تعذّر إنشاء الرابط. نزّل الملف بدلًا من ذلك.',
+  'share.file': 'ملف',
+  'share.downloadFile': 'تنزيل الملف (.json)',
+  'share.fileHint': 'يفتحه المستلم من "فتح ملف مشترك" ضمن الجلسات السابقة.',
+  'share.report': 'تقرير',
+  'share.print': 'طباعة أو حفظ بصيغة PDF',
+  'share.downloadReport': 'تنزيل HTML',
+
+  'shared.banner': 'نتائج مشتركة للقراءة فقط. أُرسلت في {date}.',
+  'shared.noteFrom': 'ملاحظة من المرسل',
+  'shared.exit': 'ابدأ بحثك الخاص',
+  'shared.noProducts': 'لم تتم مشاركة أي منتجات.',
+  'shared.openFailed': 'تعذّر فتح النتائج المشتركة.',
+  'shared.untitled': 'نتائج مشتركة',
+
+  'report.note': 'ملاحظة',
+  'report.analysis': 'التحليل',
+  'report.chat': 'من المحادثة',
+  'report.product': 'المنتج',
+  'report.category': 'الفئة',
+  'report.price': 'السعر',
+  'report.attribute.category': 'الفئة',
+  'report.attribute.itemType': 'القطعة',
+  'report.attribute.color': 'اللون',
+  'report.attribute.material': 'الخامة',
+  'report.attribute.style': 'الأسلوب',
+  'report.preparedOn': 'أُعدّ في {date}',
+  'report.footer': 'أُنشئ باستخدام ShopSmarter AI. الأسعار توضيحية وقد تكون تغيّرت.',
+
+  'empty.heading': 'هل أنت مستعد للتسوق بذكاء؟',
+  'empty.body': 'ارفع صورة، أو صِف ما تريده كتابةً أو صوتًا، لاكتشاف منتجات تناسب أسلوبك!',
+
+  'common.dismiss': 'تجاهل',
+
+  'modal.checkout': 'إتمام الشراء',
+  'modal.wishlist': 'قائمة الأمنيات',
+  'modal.productDetails': 'تفاصيل المنتج',
+  'modal.compareProducts': 'مقارنة المنتجات',
+  'modal.close': 'إغلاق',
+
+  'error.analyzeImages': { one: 'تعذّر تحليل الصورة.', other: 'تعذّر تحليل الصور.' },
+  'error.textQuery': 'تعذّر البحث عن "{query}".',
+  'error.itemSearch': 'تعذّر العثور على منتجات لـ {label}.',
+  'error.refine': 'تعذّر تحديث النتائج.',
+  'error.openSession': 'تعذّر فتح الجلسة المحفوظة.',
+
+  'aiError.quota': 'خدمة الذكاء الاصطناعي مشغولة الآن (تم بلوغ حد الاستخدام). يُرجى الانتظار دقيقة ثم المحاولة مجددًا.',
+  'aiError.safety': 'حظرت فلاتر الأمان في خدمة الذكاء الاصطناعي هذا الطلب. جرّب صورة أخرى أو أعد صياغة رسالتك.',
+  'aiError.network': 'تعذّر الوصول إلى خدمة الذكاء الاصطناعي. تحقق من اتصالك وحاول مجددًا.',
+  'aiError.parse': 'أعاد الذكاء الاصطناعي ردًا لم نتمكن من قراءته. عادةً ما تحل إعادة المحاولة المشكلة.',
+  'aiError.timeout': 'استغرقت خدمة الذكاء الاصطناعي وقتًا طويلًا للرد. يُرجى المحاولة مجددًا.',
+  'aiError.cancelled': 'تم إلغاء الطلب.',
+  'aiError.unknown': 'حدث خطأ أثناء التواصل مع خدمة الذكاء الاصطناعي. يُرجى المحاولة مجددًا.',
+
+  'chat.title': 'تحدّث مع ShopSmarter AI',
+  'chat.placeholder': 'اطلب تعديلات أو منتجات أخرى...',
+  'chat.analyzed': {
+    one: 'حسنًا، حلّلت صورتك! إليك ما أراه: {analysis}',
+    two: 'حسنًا، حلّلت صورتيك! إليك ما أراه: {analysis}',
+    few: 'حسنًا، حلّلت صورك الـ {count}! إليك ما أراه: {analysis}',
+    other: 'حسنًا، حلّلت صورك! إليك ما أراه: {analysis}',
+  },
+  'chat.processed': 'عالجتُ الصورة. كيف يمكنني مساعدتك في العثور على ما تبحث عنه؟',
+  'chat.suggestPairings': 'أخبرني المزيد عن القطع المشابهة أو ما يمكنني تنسيقه مع هذه القطعة.',
+  'chat.suggestFindLikeImage': 'هل يمكنك العثور على منتجات مثل التي في الصورة؟',
+  'chat.understood': 'إليك ما فهمته: {analysis}',
+  'chat.suggestMoreOptions': 'أرني بعض الخيارات الأخرى المشابهة.',
+  'chat.responseStopped': 'تم إيقاف الرد.',
+  'chat.replaceList': 'استبدال {list}',
+  'chat.addToList': 'إضافة إلى {list}',
+  'chat.rememberPrompt': 'هل أتذكر هذا للمرة القادمة؟',
+  'chat.saveToProfile': 'حفظ في الملف',
+  'chat.notNow': 'ليس الآن',
+  'chat.savedToProfile': 'تم الحفظ في ملف أسلوبك.',
+  'chat.notSaved': 'لم يتم الحفظ.',
+  'chat.stopped': 'متوقف',
+  'chat.stopGenerating': 'إيقاف الإنشاء',
+  'chat.send': 'إرسال',
+  'chat.messages': 'المحادثة',
+  'chat.you': 'أنت',
+  'chat.ai': 'ShopSmarter AI',
+  'chat.aiReplying': 'ShopSmarter AI يكتب الرد…',
+
+  'upload.invalidType': 'نوع ملف غير صالح. يُرجى رفع صورة (jpeg أو png أو gif أو webp).',
+  'upload.tooLarge': 'الملف كبير جدًا. الحد الأقصى للحجم {size} ميغابايت.',
+  'upload.readFailed': 'تعذّرت قراءة الملف.',
+  'upload.readOneFailed': 'تعذّرت قراءة إحدى الصور.',
+  'upload.photoFailed': 'تعذّرت معالجة الصورة.',
+  'upload.tooMany': 'يمكنك مقارنة {max} صور كحد أقصى؛ تمت إضافة أول {count} فقط.',
+  'upload.takePhoto': 'التقط صورة',
+  'upload.uploadMode': 'طريقة الرفع',
+  'upload.single': 'صورة واحدة',
+  'upload.multiple': 'عدة صور',
+  'upload.preparing': 'جارٍ تجهيز الصورة...',
+  'upload.imageAlt': 'الصورة {index}',
+  'upload.removeImage': 'إزالة الصورة',
+  'upload.addImage': 'إضافة صورة',
+  'upload.analysisMode': 'طريقة التحليل',
+  'upload.outfit': 'إطلالة',
+  'upload.outfitHint': 'التعامل مع الصور كإطلالة واحدة',
+  'upload.compare': 'مقارنة',
+  'upload.compareHint': 'مقارنة الصور جنبًا إلى جنب',
+  'upload.processing': 'جارٍ المعالجة...',
+  'upload.analyze': {
+    one: 'حلّل صورة واحدة',
+    two: 'حلّل صورتين',
+    few: 'حلّل {count} صور',
+    other: 'حلّل {count} صورة',
+  },
+  'upload.galleryHint': '(حتى {max} صور؛ يتم تصغير الصور الكبيرة تلقائيًا)',
+  'upload.previewAlt': 'معاينة الصورة المرفوعة',
+  'upload.itemSelected': 'تُعرض نتائج {label}؛ انقر لعرض الصورة كاملة',
+  'upload.shopForItem': 'تسوّق {label}',
+  'upload.tapItemHint': 'اضغط على مربع لتتسوق تلك القطعة فقط.',
+  'upload.changeImage': 'تغيير الصورة',
+  'upload.clickToUpload': 'انقر أو أفلت صورة هنا',
+  'upload.dropHere': 'أفلت للرفع',
+  'upload.formats': '(JPG وPNG وGIF وWEBP؛ يتم تصغير الصور الكبيرة تلقائيًا)',
+
+  'attribute.category': 'الفئة',
+  'attribute.itemType': 'القطعة',
+  'attribute.color': 'اللون',
+  'attribute.material': 'الخامة',
+  'attribute.style': 'الطراز',
+  'attribute.size': 'المقاس',
+  'attribute.useCase': 'الأنسب لـ',
+
+  'errorNotice.error': 'خطأ',
+  'errorNotice.quota': 'خدمة الذكاء الاصطناعي مشغولة',
+  'errorNotice.safety': 'تم حظر الطلب',
+  'errorNotice.network': 'مشكلة في الاتصال',
+  'errorNotice.parse': 'رد غير مقروء',
+  'errorNotice.timeout': 'انتهت المهلة',
+  'errorNotice.cancelled': 'تم الإلغاء',
+  'errorNotice.unknown': 'حدث خطأ ما',
+  'errorNotice.retry': 'إعادة المحاولة',
+  'errorNotice.tryAgain': 'حاول مجددًا',
+  'errorNotice.tryAnyway': 'حاول على أي حال',
+  'errorNotice.reconnect': 'إعادة الاتصال',
+
+  'card.saveToWishlist': 'حفظ في قائمة الأمنيات',
+  'card.removeFromWishlist': 'إزالة من قائمة الأمنيات',
+  'card.saveNamed': 'حفظ {name} في قائمة الأمنيات',
+  'card.compare': 'مقارنة',
+  'card.compareNamed': 'مقارنة {name}',
+  'card.selectToCompare': 'اختر للمقارنة',
+  'card.compareFull': 'المقارنة ممتلئة؛ أزل منتجًا منها أولًا',
+  'card.addToCart': 'أضف إلى السلة',
+  'card.addAnother': 'أضف واحدًا آخر ({count} في السلة)',
+  'card.removeFromCart': 'إزالة من السلة',
+  'card.removeNamedFromCart': 'إزالة {name} من السلة',
+
+  'toolbar.search': 'بحث',
+  'toolbar.searchPlaceholder': 'الاسم أو الوصف',
+  'toolbar.category': 'الفئة',
+  'toolbar.allCategories': 'كل الفئات',
+  'toolbar.price': 'السعر',
+  'toolbar.min': 'الأدنى',
+  'toolbar.max': 'الأعلى',
+  'toolbar.minPrice': 'أدنى سعر',
+  'toolbar.maxPrice': 'أعلى سعر',
+  'toolbar.sortBy': 'ترتيب حسب',
+  'toolbar.sortRelevance': 'الأكثر صلة',
+  'toolbar.sortPriceAsc': 'السعر: من الأقل إلى الأعلى',
+  'toolbar.sortPriceDesc': 'السعر: من الأعلى إلى الأقل',
+  'toolbar.sortName': 'الاسم',
+  'toolbar.clearFilters': 'مسح عوامل التصفية',
+
+  'chips.refinedBy': 'نتائج مُحسّنة من المحادثة:',
+  'chips.value': '{name}: {value}',
+  'chips.over': 'أكثر من {price}',
+  'chips.under': 'أقل من {price}',
+  'chips.notApplied': '{label} (غير مطبّق: الأسعار بعملة {currency})',
+  'chips.remove': 'إزالة',
+  'chips.removeNamed': 'إزالة {label}',
+  'chips.previous': 'النتائج السابقة',
+  'chips.clearAll': 'مسح الكل',
+
+  'query.label': 'صِف ما تبحث عنه',
+  'query.placeholder': 'مثال: فستان صيفي من الكتان لحفل زفاف على الشاطئ بأقل من 450 ريالًا',
+  'query.listening': 'جارٍ الاستماع...',
+  'query.onDevice': 'يتم التحويل إلى نص على هذا الجهاز.',
+  'query.browserService': 'يتم التحويل إلى نص عبر خدمة الكلام في متصفحك.',
+  'query.stopListening': 'إيقاف الاستماع',
+  'query.speak': 'قل طلبك',
+  'query.processing': 'جارٍ المعالجة...',
+  'query.find': 'ابحث عن منتجات',
+
+  'voice.unsupported': 'الإدخال الصوتي غير مدعوم في هذا المتصفح.',
+  'voice.notAllowed': 'تم حظر الوصول إلى الميكروفون. اسمح به في متصفحك لاستخدام البحث الصوتي.',
+  'voice.serviceNotAllowed': 'الإدخال الصوتي معطّل في هذا المتصفح.',
+  'voice.audioCapture': 'لم يتم العثور على ميكروفون.',
+  'voice.noSpeech': 'لم أسمع شيئًا. اضغط على الميكروفون وحاول مجددًا.',
+  'voice.network': 'تعذّر الوصول إلى خدمة الكلام في متصفحك. تحقق من اتصالك أو اكتب طلبك.',
+  'voice.languageNotSupported': 'الإدخال الصوتي غير متاح لهذه اللغة في متصفحك.',
+  'voice.unknown': 'توقف الإدخال الصوتي بشكل غير متوقع. يُرجى المحاولة مجددًا.',
+
+  'sessions.heading': 'الجلسات السابقة',
+  'sessions.new': 'جديدة',
+  'sessions.newHint': 'بدء جلسة جديدة',
+  'sessions.empty': 'تُحفظ عمليات بحثك هنا لتكملها لاحقًا.',
+  'sessions.delete': 'حذف الجلسة',
+  'sessions.deleteNamed': 'حذف الجلسة: {title}',
+  'sessions.untitled': 'جلسة بلا عنوان',
+  'sessions.openFile': 'فتح ملف مُشارَك',
+  'sessions.openFileHint': 'افتح نتائج شاركها أحدهم معك كملف',
+
+  'crop.hint': 'ارسم مربعًا حول القطعة التي تريد مطابقتها، أو حلّل الصورة كاملة. باستخدام لوحة المفاتيح، استعمل مفاتيح الأسهم لوضع المربع وتحريكه، ومفتاح Shift مع الأسهم لتغيير حجمه.',
+  'crop.area': 'منطقة القص',
+  'crop.photoAlt': 'الصورة المراد قصّها',
+  'crop.position': 'المربع على بُعد {x}% من اليسار و{y}% من الأعلى، بعرض {width}% وارتفاع {height}%.',
+  'crop.cancel': 'إلغاء',
+  'crop.wholePhoto': 'الصورة كاملة',
+  'crop.crop': 'قص',
+
+  'camera.denied': 'تم رفض الوصول إلى الكاميرا. اسمح بالوصول إليها من إعدادات متصفحك، أو ارفع ملفًا بدلًا من ذلك.',
+  'camera.notFound': 'لم يتم العثور على كاميرا في هذا الجهاز.',
+  'camera.inUse': 'الكاميرا قيد الاستخدام في تطبيق آخر.',
+  'camera.failed': 'تعذّر تشغيل الكاميرا.',
+  'camera.unsupported': 'هذا المتصفح لا يدعم التصوير بالكاميرا.',
+  'camera.captureFailed': 'تعذّر التقاط الصورة.',
+  'camera.capturedAlt': 'الصورة الملتقطة',
+  'camera.starting': 'جارٍ تشغيل الكاميرا...',
+  'camera.retake': 'إعادة الالتقاط',
+  'camera.usePhoto': 'استخدام الصورة',
+  'camera.cancel': 'إلغاء',
+  'camera.switchToRear': 'التبديل إلى الكاميرا الخلفية',
+  'camera.switchToFront': 'التبديل إلى الكاميرا الأمامية',
+  'camera.rear': 'الخلفية',
+  'camera.front': 'الأمامية',
+  'camera.capture': 'التقاط',
+
+  'checkout.steps': 'خطوات إتمام الشراء',
+  'checkout.step': '{number}. {label}',
+  'checkout.stepReview': 'المراجعة',
+  'checkout.stepShipping': 'الشحن',
+  'checkout.stepConfirmation': 'التأكيد',
+  'checkout.fullName': 'الاسم الكامل',
+  'checkout.email': 'البريد الإلكتروني',
+  'checkout.address': 'عنوان الشارع',
+  'checkout.city': 'المدينة',
+  'checkout.postalCode': 'الرمز البريدي',
+  'checkout.country': 'الدولة',
+  'checkout.empty': 'سلتك فارغة. أضف بعض المنتجات للبدء!',
+  'checkout.each': '{price} للقطعة',
+  'checkout.decrease': 'تقليل كمية {name}',
+  'checkout.increase': 'زيادة كمية {name}',
+  'checkout.remove': 'إزالة {name}',
+  'checkout.subtotal': 'المجموع الفرعي',
+  'checkout.continue': 'متابعة إلى الشحن',
+  'checkout.missingFields': 'يُرجى تعبئة: {fields}.',
+  'checkout.invalidEmail': 'يُرجى إدخال بريد إلكتروني صالح.',
+  'checkout.orderTotal': 'إجمالي الطلب',
+  'checkout.back': 'رجوع',
+  'checkout.placeOrder': 'تأكيد الطلب',
+  'checkout.placed': 'تم تقديم الطلب!',
+  'checkout.orderNumber': 'رقم الطلب',
+  'checkout.simulated': '(طلب تجريبي، لم يتم تحصيل أي مبلغ)',
+  'checkout.line': '{quantity} × {name}',
+  'checkout.total': 'الإجمالي',
+  'checkout.shippingTo': 'الشحن إلى {name}، {address}، {city} {postalCode}، {country}.',
+  'checkout.confirmationTo': 'سيُرسل تأكيد إلى {email}.',
+  'checkout.thanks': 'شكرًا لاستخدامك ShopSmarter!',
+  'checkout.close': 'إغلاق',
+
+  'detail.noDescription': 'لا يوجد وصف.',
+  'detail.addToCart': 'أضف إلى السلة',
+  'detail.addAnother': 'أضف واحدًا آخر ({count} في السلة)',
+  'detail.save': 'حفظ',
+  'detail.saved': 'محفوظ',
+  'detail.compareHeading': 'مقارنة بالقطعة المرفوعة',
+  'detail.compare': 'مقارنة',
+  'detail.compareAgain': 'المقارنة مجددًا',
+  'detail.uploadToCompare': 'ارفع صورة لمقارنة هذا المنتج بها.',
+  'detail.comparing': 'جارٍ المقارنة...',
+  'detail.compareFailed': 'تعذّرت مقارنة هذا المنتج.',
+  'detail.similar': 'أوجه التشابه',
+  'detail.different': 'أوجه الاختلاف',
+  'detail.compareIntro': 'اعرف كيف يختلف هذا المنتج عن القطعة في صورتك.',
+  'detail.chatTitle': 'أسئلة حول {name}',
+  'detail.chatPlaceholder': 'مثال: هل يناسب الشتاء؟',
+
+  'compare.needTwo': 'اختر منتجين على الأقل للمقارنة.',
+  'compare.price': 'السعر',
+  'compare.category': 'الفئة',
+  'compare.remove': 'إزالة من المقارنة',
+  'compare.removeNamed': 'إزالة {name} من المقارنة',
+  'compare.bestFit': 'الأنسب',
+  'compare.differs': 'مختلف',
+  'compare.addToCart': 'أضف إلى السلة',
+  'compare.verdict': 'رأي الذكاء الاصطناعي',
+  'compare.comparing': 'جارٍ مقارنة المنتجات...',
+  'compare.failed': 'تعذّرت مقارنة هذه المنتجات.',
+
+  'looks.budget': 'الميزانية الإجمالية لكل إطلالة ({currency})',
+  'looks.noLimit': 'بلا حد',
+  'looks.build': 'تكوين إطلالات',
+  'looks.rebuild': 'إعادة تكوين الإطلالات',
+  'looks.budgetInvalid': 'يجب أن تكون الميزانية رقمًا موجبًا.',
+  'looks.building': 'جارٍ تنسيق الإطلالات...',
+  'looks.intro': 'كوّن إطلالات أو غرفًا كاملة حول هذه القطعة، ثم بدّل أي قطعة لتناسب ذوقك وميزانيتك.',
+  'looks.notEnough': 'لا يحتوي الكتالوج على قطع مطابقة كافية لتكوين إطلالة حول هذه القطعة.',
+  'looks.failed': 'تعذّر تكوين الإطلالات.',
+  'looks.swap': 'تبديل',
+  'looks.overBudget': 'يتجاوز الميزانية',
+  'looks.total': 'الإجمالي',
+  'looks.overBudgetNote': 'يتجاوز ميزانيتك البالغة {budget} حتى مع أرخص القطع',
+  'looks.addLook': 'أضف الإطلالة إلى السلة',
+  'looks.added': 'تمت الإضافة',
+  'looks.yourItem': 'قطعتك',
+  'looks.yourItemType': 'قطعتك: {itemType}',
+
+  'wishlist.newPlaceholder': 'مجموعة جديدة، مثل "إطلالات الصيف"',
+  'wishlist.create': 'إنشاء',
+  'wishlist.heartsSaveHere': 'تُحفظ القلوب هنا',
+  'wishlist.saveHeartsHere': 'احفظ القلوب هنا',
+  'wishlist.rename': 'إعادة تسمية المجموعة',
+  'wishlist.delete': 'حذف المجموعة',
+  'wishlist.exportJson': 'JSON',
+  'wishlist.exportCsv': 'CSV',
+  'wishlist.empty': 'لا توجد عناصر بعد. اضغط على القلب في أي منتج لحفظه.',
+  'wishlist.foundIn': '{price} · من "{title}" في {date}',
+  'wishlist.moveNamed': 'نقل {name} إلى مجموعة',
+  'wishlist.remove': 'إزالة من قائمة الأمنيات',
+  'wishlist.defaultName': 'العناصر المحفوظة',
+
+  'profile.intro': 'يُحفظ على هذا الجهاز ويُضاف إلى كل تحليل ومحادثة، فلا تحتاج إلى تكرار نفسك. افصل بين الإدخالات بفواصل.',
+  'profile.line': '{label}: {value}',
+  'profile.field.budget': 'الميزانية',
+  'profile.budgetRange': '{min}–{max}',
+  'profile.budgetUpTo': 'حتى {max}',
+  'profile.budgetFrom': 'من {min}',
+  'profile.field.sizes': 'المقاسات',
+  'profile.field.budgetMin': 'الميزانية من ({currency})',
+  'profile.field.budgetMax': 'الميزانية حتى ({currency})',
+  'profile.field.favoriteColors': 'الألوان المفضلة',
+  'profile.field.avoidBrands': 'علامات تجارية لتجنّبها',
+  'profile.field.avoidMaterials': 'خامات لتجنّبها',
+  'profile.field.fit': 'القَصّة',
+  'profile.field.notes': 'تفضيلات أخرى',
+  'profile.placeholder.sizes': 'قمصان M، جينز 32/32، أحذية EU 42',
+  'profile.placeholder.favoriteColors': 'كحلي، زيتي',
+  'profile.placeholder.avoidBrands': 'أسماء علامات تريد تجاوزها',
+  'profile.placeholder.avoidMaterials': 'بوليستر، صوف',
+  'profile.placeholder.notes': 'بلا شعارات، قابل للغسل في الغسالة فقط',
+  'profile.placeholder.fit': 'ملابس نسائية، قَصّة واسعة',
+  'profile.budgetInvalid': 'يجب أن تكون مبالغ الميزانية أرقامًا موجبة.',
+  'profile.budgetOrder': 'الحد الأدنى للميزانية أعلى من الحد الأقصى.',
+  'profile.clear': 'مسح',
+  'profile.save': 'حفظ الملف',
+};
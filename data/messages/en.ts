@@ -0,0 +1,420 @@
+import { Message } from '../../types';
+
+// English UI strings, which every other catalog mirrors. Placeholders in braces are filled by `t`;
+// plural entries are picked with the `count` parameter.
+export const en = {
+  'app.title': 'ShopSmarter AI',
+  'app.footer': 'ShopSmarter AI © {year}.',
+  'app.footerMock': 'Offline demo mode (mock AI).',
+  'app.footerGemini': 'Powered by Gemini.',
+  'app.loading': 'Loading...',
+  'app.skipToContent': 'Skip to main content',
+
+  'header.styleProfile': 'Style Profile',
+  'header.styleProfileSetUp': 'Set up your sizes, budget and style',
+  'header.styleProfileEdit': 'Edit your style profile',
+  'header.wishlist': 'Wishlist ({count})',
+  'header.checkout': 'Proceed to Checkout ({count})',
+
+  'locale.language': 'Language',
+  'locale.currency': 'Currency',
+  'locale.currencyNote': 'Catalog prices keep their listed currency; AI replies add approximate amounts in yours.',
+
+  'search.heading': '1. Share Your Inspiration',
+  'search.modes': 'Search with',
+  'search.photo': 'Photo',
+  'search.text': 'Describe or speak',
+  'search.analyzingQuery': 'Understanding your request and finding products...',
+  'search.analyzingImage': 'Analyzing image and finding products...',
+
+  'comparison.heading': 'Side-by-Side Comparison',
+  'imageComparison.image': 'Image {index}',
+  'imageComparison.noMatches': 'No catalog matches for this image.',
+
+  'discover.heading': '2. Discover Products',
+  'discover.shoppingFor': 'Shopping for: {label}',
+  'discover.backToPhoto': 'Back to whole photo',
+  'discover.tabs': 'Product lists',
+  'discover.tabSimilar': 'Similar Items',
+  'discover.tabComplementary': 'Complementary',
+  'discover.tabAll': 'All',
+  'discover.issuesSummary': '{dropped} suggestion(s) skipped and {repaired} repaired due to incomplete AI data',
+  'discover.compareSelected': '{count} of {max} selected for comparison',
+  'discover.compareNeedsTwo': 'Select at least two products',
+  'discover.compare': 'Compare',
+  'discover.clear': 'Clear',
+  'discover.findingForItem': 'Finding products for {label}...',
+  'discover.thisItem': 'this item',
+  'discover.updating': 'Updating results...',
+  'discover.noFilterMatches': 'No products match these filters.',
+  'discover.noRefinementMatches': 'Nothing in the catalog fits these refinements. Remove one above or go back to the previous results.',
+  'discover.noSimilar': 'No similar products found for this image yet. Try the chat!',
+  'discover.noComplementary': 'No complementary products found for this image yet. Try the chat!',
+  'discover.noProducts': 'No products found for this image yet. Try the chat!',
+
+  'look.heading': '3. Complete the Look',
+  'look.intro': 'Whole outfits or rooms built around {label}. Swap any piece or set a budget for the total.',
+  'look.yourItem': 'your item',
+
+  'share.open': 'Share',
+  'share.openHint': 'Share these results or export a report',
+  'share.title': 'Share or Export',
+  'share.intro': 'Send these results to a client or friend. They open read-only, with no account or saved sessions needed.',
+  'share.note': 'Note for the recipient (optional)',
+  'share.notePlaceholder': 'e.g. My picks for your weekend wardrobe; the first jacket is the one I mentioned.',
+  'share.excerpts': 'Chat excerpts to include',
+  'share.noExcerpts': 'There are no chat messages to include yet.',
+  'share.link': 'Link',
+  'share.createLink': 'Create link',
+  'share.creatingLink': 'Creating link...',
+  'share.copy': 'Copy',
+  'share.copied': 'Copied!',
+  'share.linkLabel': 'Shareable link',
+  'share.linkNoImage': 'The photo was left out to keep the link short. Download the file to include it.',
+  'share.linkTooLong': 'These results are too large for a link. Download the file and send it instead.',
+  'share.linkFailed': 'Could not create the link. Download the file instead.',
+  'share.file': 'File',
+  'share.downloadFile': 'Download file (.json)',
+  'share.fileHint': 'The recipient opens it with "Open shared file" under Past Sessions.',
+  'share.report': 'Report',
+  'share.print': 'Print or save as PDF',
+  'share.downloadReport': 'Download HTML',
+
+  'shared.banner': 'Shared results, read-only. Sent {date}.',
+  'shared.noteFrom': 'Note from the sender',
+  'shared.exit': 'Start your own search',
+  'shared.noProducts': 'No products were shared.',
+  'shared.openFailed': 'Could not open the shared result.',
+  'shared.untitled': 'Shared result',
+
+  'report.note': 'Note',
+  'report.analysis': 'Analysis',
+  'report.chat': 'From the chat',
+  'report.product': 'Product',
+  'report.category': 'Category',
+  'report.price': 'Price',
+  'report.attribute.category': 'Category',
+  'report.attribute.itemType': 'Item',
+  'report.attribute.color': 'Color',
+  'report.attribute.material': 'Material',
+  'report.attribute.style': 'Style',
+  'report.preparedOn': 'Prepared on {date}',
+  'report.footer': 'Created with ShopSmarter AI. Prices are illustrative and may have changed.',
+
+  'empty.heading': 'Ready to Shop Smarter?',
+  'empty.body': 'Upload an image, or describe what you want by typing or speaking, to discover products tailored to your style!',
+
+  'common.dismiss': 'Dismiss',
+
+  'modal.checkout': 'Checkout',
+  'modal.wishlist': 'Wishlist',
+  'modal.productDetails': 'Product Details',
+  'modal.compareProducts': 'Compare Products',
+  'modal.close': 'Close',
+
+  'error.analyzeImages': { one: 'Failed to analyze image.', other: 'Failed to analyze images.' },
+  'error.textQuery': 'Failed to search for "{query}".',
+  'error.itemSearch': 'Failed to find products for {label}.',
+  'error.refine': 'Failed to update the results.',
+  'error.openSession': 'Could not open the saved session.',
+
+  'aiError.quota': 'The AI service is busy right now (usage limit reached). Please wait a minute and try again.',
+  'aiError.safety': "This request was blocked by the AI service's safety filters. Try a different image or rephrase your message.",
+  'aiError.network': "Couldn't reach the AI service. Check your connection and try again.",
+  'aiError.parse': 'The AI returned a response we could not read. Trying again usually fixes this.',
+  'aiError.timeout': 'The AI service took too long to respond. Please try again.',
+  'aiError.cancelled': 'The request was cancelled.',
+  'aiError.unknown': 'Something went wrong while talking to the AI service. Please try again.',
+
+  'chat.title': 'Chat with ShopSmarter AI',
+  'chat.placeholder': 'Ask for modifications or other products...',
+  'chat.analyzed': {
+    one: "Okay, I've analyzed your image! Here's what I see: {analysis}",
+    other: "Okay, I've analyzed your {count} images! Here's what I see: {analysis}",
+  },
+  'chat.processed': "I've processed the image. How can I help you find what you're looking for?",
+  'chat.suggestPairings': 'Tell me more about similar items or what I can pair with this.',
+  'chat.suggestFindLikeImage': 'Can you find products like in the image?',
+  'chat.understood': "Here's what I understood: {analysis}",
+  'chat.suggestMoreOptions': 'Show me a few more options like these.',
+  'chat.responseStopped': 'Response stopped.',
+  'chat.replaceList': 'Replace {list}',
+  'chat.addToList': 'Add to {list}',
+  'chat.rememberPrompt': 'Remember for next time?',
+  'chat.saveToProfile': 'Save to profile',
+  'chat.notNow': 'Not now',
+  'chat.savedToProfile': 'Saved to your style profile.',
+  'chat.notSaved': 'Not saved.',
+  'chat.stopped': 'Stopped',
+  'chat.stopGenerating': 'Stop generating',
+  'chat.send': 'Send',
+  'chat.messages': 'Conversation',
+  'chat.you': 'You',
+  'chat.ai': 'ShopSmarter AI',
+  'chat.aiReplying': 'ShopSmarter AI is replying…',
+
+  'upload.invalidType': 'Invalid file type. Please upload an image (jpeg, png, gif, webp).',
+  'upload.tooLarge': 'File is too large. Maximum size is {size}MB.',
+  'upload.readFailed': 'Failed to read file.',
+  'upload.readOneFailed': 'Failed to read one of the images.',
+  'upload.photoFailed': 'Failed to process the photo.',
+  'upload.tooMany': 'You can compare up to {max} images; only the first {count} were added.',
+  'upload.takePhoto': 'Take photo',
+  'upload.uploadMode': 'Upload mode',
+  'upload.single': 'Single',
+  'upload.multiple': 'Multiple',
+  'upload.preparing': 'Preparing image...',
+  'upload.imageAlt': 'Upload {index}',
+  'upload.removeImage': 'Remove image',
+  'upload.addImage': 'Add image',
+  'upload.analysisMode': 'Analysis mode',
+  'upload.outfit': 'Outfit',
+  'upload.outfitHint': 'Treat the images as one look',
+  'upload.compare': 'Compare',
+  'upload.compareHint': 'Compare the images side by side',
+  'upload.processing': 'Processing...',
+  'upload.analyze': { one: 'Analyze {count} image', other: 'Analyze {count} images' },
+  'upload.galleryHint': '(Up to {max} images; large photos are resized automatically)',
+  'upload.previewAlt': 'Uploaded preview',
+  'upload.itemSelected': 'Showing results for {label}; click for the whole photo',
+  'upload.shopForItem': 'Shop for {label}',
+  'upload.tapItemHint': 'Tap a box to shop for just that item.',
+  'upload.changeImage': 'Change Image',
+  'upload.clickToUpload': 'Click or drop an image here',
+  'upload.dropHere': 'Drop to upload',
+  'upload.formats': '(JPG, PNG, GIF, WEBP; large photos are resized automatically)',
+
+  'attribute.category': 'Category',
+  'attribute.itemType': 'Item',
+  'attribute.color': 'Color',
+  'attribute.material': 'Material',
+  'attribute.style': 'Style',
+  'attribute.size': 'Size',
+  'attribute.useCase': 'Best for',
+
+  'errorNotice.error': 'Error',
+  'errorNotice.quota': 'AI service busy',
+  'errorNotice.safety': 'Request blocked',
+  'errorNotice.network': 'Connection problem',
+  'errorNotice.parse': 'Unreadable response',
+  'errorNotice.timeout': 'Timed out',
+  'errorNotice.cancelled': 'Cancelled',
+  'errorNotice.unknown': 'Something went wrong',
+  'errorNotice.retry': 'Retry',
+  'errorNotice.tryAgain': 'Try again',
+  'errorNotice.tryAnyway': 'Try anyway',
+  'errorNotice.reconnect': 'Reconnect',
+
+  'card.saveToWishlist': 'Save to wishlist',
+  'card.removeFromWishlist': 'Remove from wishlist',
+  'card.saveNamed': 'Save {name} to wishlist',
+  'card.compare': 'Compare',
+  'card.compareNamed': 'Compare {name}',
+  'card.selectToCompare': 'Select to compare',
+  'card.compareFull': 'The comparison is full; remove a product from it first',
+  'card.addToCart': 'Add to Cart',
+  'card.addAnother': 'Add Another ({count} in cart)',
+  'card.removeFromCart': 'Remove from cart',
+  'card.removeNamedFromCart': 'Remove {name} from cart',
+
+  'toolbar.search': 'Search',
+  'toolbar.searchPlaceholder': 'Name or description',
+  'toolbar.category': 'Category',
+  'toolbar.allCategories': 'All categories',
+  'toolbar.price': 'Price',
+  'toolbar.min': 'Min',
+  'toolbar.max': 'Max',
+  'toolbar.minPrice': 'Minimum price',
+  'toolbar.maxPrice': 'Maximum price',
+  'toolbar.sortBy': 'Sort by',
+  'toolbar.sortRelevance': 'Relevance',
+  'toolbar.sortPriceAsc': 'Price: low to high',
+  'toolbar.sortPriceDesc': 'Price: high to low',
+  'toolbar.sortName': 'Name',
+  'toolbar.clearFilters': 'Clear filters',
+
+  'chips.refinedBy': 'Refined by chat:',
+  'chips.value': '{name}: {value}',
+  'chips.over': 'Over {price}',
+  'chips.under': 'Under {price}',
+  'chips.notApplied': '{label} (not applied: prices are in {currency})',
+  'chips.remove': 'Remove',
+  'chips.removeNamed': 'Remove {label}',
+  'chips.previous': 'Previous results',
+  'chips.clearAll': 'Clear all',
+
+  'query.label': "Describe what you're looking for",
+  'query.placeholder': 'e.g. a linen summer dress for a beach wedding under $120',
+  'query.listening': 'Listening...',
+  'query.onDevice': 'Transcribed on this device.',
+  'query.browserService': "Transcribed by your browser's speech service.",
+  'query.stopListening': 'Stop listening',
+  'query.speak': 'Speak your request',
+  'query.processing': 'Processing...',
+  'query.find': 'Find products',
+
+  'voice.unsupported': "Voice input isn't supported in this browser.",
+  'voice.notAllowed': 'Microphone access was blocked. Allow it in your browser to use voice search.',
+  'voice.serviceNotAllowed': 'Voice input is turned off in this browser.',
+  'voice.audioCapture': 'No microphone was found.',
+  'voice.noSpeech': "I didn't catch anything. Tap the microphone and try again.",
+  'voice.network': "Your browser's speech service couldn't be reached. Check your connection or type instead.",
+  'voice.languageNotSupported': "Voice input isn't available for this language in your browser.",
+  'voice.unknown': 'Voice input stopped unexpectedly. Please try again.',
+
+  'sessions.heading': 'Past Sessions',
+  'sessions.new': 'New',
+  'sessions.newHint': 'Start a new session',
+  'sessions.empty': 'Your searches are saved here so you can pick them up later.',
+  'sessions.delete': 'Delete session',
+  'sessions.deleteNamed': 'Delete session: {title}',
+  'sessions.untitled': 'Untitled session',
+  'sessions.openFile': 'Open shared file',
+  'sessions.openFileHint': 'Open results someone shared with you as a file',
+
+  'crop.hint': 'Drag a box around the item you want to match, or analyze the whole photo. With the keyboard, use the arrow keys to place and move the box and Shift with the arrow keys to resize it.',
+  'crop.area': 'Crop area',
+  'crop.photoAlt': 'Photo to crop',
+  'crop.position': 'Box {x}% from the left and {y}% from the top, {width}% wide and {height}% tall.',
+  'crop.cancel': 'Cancel',
+  'crop.wholePhoto': 'Whole photo',
+  'crop.crop': 'Crop',
+
+  'camera.denied': 'Camera access was denied. Allow camera access in your browser settings, or upload a file instead.',
+  'camera.notFound': 'No camera was found on this device.',
+  'camera.inUse': 'The camera is already in use by another app.',
+  'camera.failed': 'Could not start the camera.',
+  'camera.unsupported': 'This browser does not support camera capture.',
+  'camera.captureFailed': 'Could not capture the photo.',
+  'camera.capturedAlt': 'Captured photo',
+  'camera.starting': 'Starting camera...',
+  'camera.retake': 'Retake',
+  'camera.usePhoto': 'Use photo',
+  'camera.cancel': 'Cancel',
+  'camera.switchToRear': 'Switch to rear camera',
+  'camera.switchToFront': 'Switch to front camera',
+  'camera.rear': 'Rear',
+  'camera.front': 'Front',
+  'camera.capture': 'Capture',
+
+  'checkout.steps': 'Checkout steps',
+  'checkout.step': '{number}. {label}',
+  'checkout.stepReview': 'Review',
+  'checkout.stepShipping': 'Shipping',
+  'checkout.stepConfirmation': 'Confirmation',
+  'checkout.fullName': 'Full name',
+  'checkout.email': 'Email',
+  'checkout.address': 'Street address',
+  'checkout.city': 'City',
+  'checkout.postalCode': 'Postal code',
+  'checkout.country': 'Country',
+  'checkout.empty': 'Your cart is empty. Add some products to get started!',
+  'checkout.each': '{price} each',
+  'checkout.decrease': 'Decrease quantity of {name}',
+  'checkout.increase': 'Increase quantity of {name}',
+  'checkout.remove': 'Remove {name}',
+  'checkout.subtotal': 'Subtotal',
+  'checkout.continue': 'Continue to Shipping',
+  'checkout.missingFields': 'Please fill in: {fields}.',
+  'checkout.invalidEmail': 'Please enter a valid email address.',
+  'checkout.orderTotal': 'Order total',
+  'checkout.back': 'Back',
+  'checkout.placeOrder': 'Place Order',
+  'checkout.placed': 'Order placed!',
+  'checkout.orderNumber': 'Order number',
+  'checkout.simulated': '(simulated, no payment taken)',
+  'checkout.line': '{quantity} x {name}',
+  'checkout.total': 'Total',
+  'checkout.shippingTo': 'Shipping to {name}, {address}, {city} {postalCode}, {country}.',
+  'checkout.confirmationTo': 'A confirmation would be sent to {email}.',
+  'checkout.thanks': 'Thank you for using ShopSmarter!',
+  'checkout.close': 'Close',
+
+  'detail.noDescription': 'No description available.',
+  'detail.addToCart': 'Add to Cart',
+  'detail.addAnother': 'Add Another ({count} in cart)',
+  'detail.save': 'Save',
+  'detail.saved': 'Saved',
+  'detail.compareHeading': 'Compare with uploaded item',
+  'detail.compare': 'Compare',
+  'detail.compareAgain': 'Compare again',
+  'detail.uploadToCompare': 'Upload a photo to compare this product with it.',
+  'detail.comparing': 'Comparing...',
+  'detail.compareFailed': 'Could not compare this product.',
+  'detail.similar': 'Similar',
+  'detail.different': 'Different',
+  'detail.compareIntro': 'See how this product differs from the item in your photo.',
+  'detail.chatTitle': 'Questions about {name}',
+  'detail.chatPlaceholder': 'e.g. Is this suitable for winter?',
+
+  'compare.needTwo': 'Select at least two products to compare.',
+  'compare.price': 'Price',
+  'compare.category': 'Category',
+  'compare.remove': 'Remove from comparison',
+  'compare.removeNamed': 'Remove {name} from comparison',
+  'compare.bestFit': 'Best fit',
+  'compare.differs': 'Differs',
+  'compare.addToCart': 'Add to Cart',
+  'compare.verdict': 'AI verdict',
+  'compare.comparing': 'Comparing products...',
+  'compare.failed': 'Could not compare these products.',
+
+  'looks.budget': 'Total budget per look ({currency})',
+  'looks.noLimit': 'No limit',
+  'looks.build': 'Build looks',
+  'looks.rebuild': 'Rebuild looks',
+  'looks.budgetInvalid': 'The budget must be a positive number.',
+  'looks.building': 'Putting looks together...',
+  'looks.intro': 'Build complete outfits or rooms around this item, then swap any piece to fit your taste and budget.',
+  'looks.notEnough': "The catalog doesn't have enough matching pieces to build a look around this item.",
+  'looks.failed': 'Failed to build looks.',
+  'looks.swap': 'Swap',
+  'looks.overBudget': 'Over budget',
+  'looks.total': 'Total',
+  'looks.overBudgetNote': 'Over your {budget} budget even with the cheapest pieces',
+  'looks.addLook': 'Add look to cart',
+  'looks.added': 'Added',
+  'looks.yourItem': 'Your item',
+  'looks.yourItemType': 'Your {itemType}',
+
+  'wishlist.newPlaceholder': 'New collection, e.g. "Summer outfits"',
+  'wishlist.create': 'Create',
+  'wishlist.heartsSaveHere': 'Hearts save here',
+  'wishlist.saveHeartsHere': 'Save hearts here',
+  'wishlist.rename': 'Rename collection',
+  'wishlist.delete': 'Delete collection',
+  'wishlist.exportJson': 'JSON',
+  'wishlist.exportCsv': 'CSV',
+  'wishlist.empty': 'No items yet. Tap the heart on a product to save it.',
+  'wishlist.foundIn': '{price} · Found in "{title}" on {date}',
+  'wishlist.moveNamed': 'Move {name} to collection',
+  'wishlist.remove': 'Remove from wishlist',
+  'wishlist.defaultName': 'Saved Items',
+
+  'profile.intro': "Saved on this device and added to every analysis and chat, so you don't have to repeat yourself. Separate several entries with commas.",
+  'profile.line': '{label}: {value}',
+  'profile.field.budget': 'Budget',
+  'profile.budgetRange': '{min}–{max}',
+  'profile.budgetUpTo': 'up to {max}',
+  'profile.budgetFrom': 'from {min}',
+  'profile.field.sizes': 'Sizes',
+  'profile.field.budgetMin': 'Budget from ({currency})',
+  'profile.field.budgetMax': 'Budget up to ({currency})',
+  'profile.field.favoriteColors': 'Favorite colors',
+  'profile.field.avoidBrands': 'Brands to avoid',
+  'profile.field.avoidMaterials': 'Materials to avoid',
+  'profile.field.fit': 'Fit',
+  'profile.field.notes': 'Other preferences',
+  'profile.placeholder.sizes': 'M tops, 32/32 jeans, EU 42 shoes',
+  'profile.placeholder.favoriteColors': 'navy, olive',
+  'profile.placeholder.avoidBrands': 'Brand names to skip',
+  'profile.placeholder.avoidMaterials': 'polyester, wool',
+  'profile.placeholder.notes': 'No logos, machine washable only',
+  'profile.placeholder.fit': 'Womenswear, relaxed fit',
+  'profile.budgetInvalid': 'Budget amounts must be positive numbers.',
+  'profile.budgetOrder': 'The lowest budget is higher than the highest.',
+  'profile.clear': 'Clear',
+  'profile.save': 'Save Profile',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
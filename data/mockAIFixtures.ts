@@ -0,0 +1,146 @@
+import { ProductAttributes } from '../types';
+
+// Canned responses for the offline mock provider. They use the demo catalog's vocabulary so searches
+// return products, and are picked deterministically so demos and CI runs always look the same.
+
+export interface MockImageFixture {
+  analysis: string;
+  altText: string;
+  attributes: ProductAttributes;
+  complementaryItemTypes: string[];
+  detectedItems: {
+    label: string;
+    box_2d: [number, number, number, number];
+    attributes: ProductAttributes;
+    complementaryItemTypes: string[];
+  }[];
+}
+
+export const mockImageFixtures: MockImageFixture[] = [
+  {
+    analysis: 'A classic blue denim jacket with a relaxed fit, silver buttons and chest pockets, styled casually over a white tee.',
+    altText: 'A person wearing a blue denim jacket over a white T-shirt.',
+    attributes: { category: 'Apparel', itemType: 'jacket', color: 'blue', material: 'denim', style: 'casual' },
+    complementaryItemTypes: ['t-shirt', 'sneakers', 'sunglasses'],
+    detectedItems: [
+      {
+        label: 'denim jacket',
+        box_2d: [180, 220, 620, 780],
+        attributes: { category: 'Apparel', itemType: 'jacket', color: 'blue', material: 'denim', style: 'casual' },
+        complementaryItemTypes: ['t-shirt', 'sneakers'],
+      },
+      {
+        label: 'white t-shirt',
+        box_2d: [260, 400, 560, 600],
+        attributes: { category: 'Apparel', itemType: 't-shirt', color: 'white', material: 'cotton', style: 'casual' },
+        complementaryItemTypes: ['jeans', 'jacket'],
+      },
+      {
+        label: 'sneakers',
+        box_2d: [860, 300, 990, 700],
+        attributes: { category: 'Footwear', itemType: 'sneakers', color: 'white', material: 'leather', style: 'casual' },
+        complementaryItemTypes: ['jeans', 't-shirt'],
+      },
+    ],
+  },
+  {
+    analysis: 'A black leather biker jacket with asymmetric zip and silver hardware, giving an edgy look.',
+    altText: 'A black leather biker jacket with silver zips.',
+    attributes: { category: 'Apparel', itemType: 'jacket', color: 'black', material: 'leather', style: 'edgy' },
+    complementaryItemTypes: ['boots', 'jeans', 'belt'],
+    detectedItems: [
+      {
+        label: 'leather jacket',
+        box_2d: [150, 200, 600, 800],
+        attributes: { category: 'Apparel', itemType: 'jacket', color: 'black', material: 'leather', style: 'edgy' },
+        complementaryItemTypes: ['boots', 'jeans'],
+      },
+      {
+        label: 'boots',
+        box_2d: [820, 280, 990, 720],
+        attributes: { category: 'Footwear', itemType: 'boots', color: 'black', material: 'leather', style: 'edgy' },
+        complementaryItemTypes: ['jeans', 'belt'],
+      },
+    ],
+  },
+  {
+    analysis: 'A grey fabric three-seater sofa with clean lines and tapered wooden legs in a Scandinavian style.',
+    altText: 'A grey three-seater sofa with wooden legs in a bright living room.',
+    attributes: { category: 'Home Decor', itemType: 'sofa', color: 'grey', material: 'fabric', style: 'scandinavian' },
+    complementaryItemTypes: ['rug', 'floor lamp', 'throw'],
+    detectedItems: [
+      {
+        label: 'sofa',
+        box_2d: [350, 100, 850, 900],
+        attributes: { category: 'Home Decor', itemType: 'sofa', color: 'grey', material: 'fabric', style: 'scandinavian' },
+        complementaryItemTypes: ['rug', 'throw'],
+      },
+      {
+        label: 'floor lamp',
+        box_2d: [100, 880, 800, 990],
+        attributes: { category: 'Home Decor', itemType: 'floor lamp', color: 'black', material: 'metal', style: 'modern' },
+        complementaryItemTypes: ['sofa', 'rug'],
+      },
+    ],
+  },
+];
+
+export const mockComparisonText =
+  'The first option is the more versatile everyday piece, while the others lean towards a specific look. ' +
+  'Material and finish differ most, so pick based on how often you would wear or use it.';
+
+export const mockChatReplies = {
+  greeting: 'This is the offline demo, so my answers are canned, but I can still search the catalog for you.',
+  withProducts: 'Here are some options from our catalog that fit what you asked for.',
+  noSearch: 'Tell me a colour, material or type of item (for example "black leather boots") and I will look for it in the catalog.',
+  refined: 'Done, I have updated the results above with your new preferences.',
+  remembered: 'Good to know. Confirm below and I will keep that in mind for all your future searches.',
+  productQuestion: 'In the offline demo I can only repeat what the product details say. Connect a live model for detailed answers.',
+};
+
+// Complete-the-look plans by store category, using item types the demo catalog stocks.
+export const mockLookTemplates: Record<string, { name: string; description: string; slots: { name: string; itemTypes: string[] }[] }[]> = {
+  Apparel: [
+    {
+      name: 'Weekend Casual',
+      description: 'Relaxed layers for errands, brunch and everything in between.',
+      slots: [
+        { name: 'Top', itemTypes: ['t-shirt', 'sweater'] },
+        { name: 'Bottom', itemTypes: ['jeans', 'trousers'] },
+        { name: 'Shoes', itemTypes: ['sneakers', 'sandals'] },
+        { name: 'Accessory', itemTypes: ['sunglasses', 'hat'] },
+      ],
+    },
+    {
+      name: 'Smart Evening',
+      description: 'A sharper take for dinner out, with one statement piece.',
+      slots: [
+        { name: 'Layer', itemTypes: ['jacket', 'sweater'] },
+        { name: 'Bottom', itemTypes: ['trousers', 'jeans'] },
+        { name: 'Shoes', itemTypes: ['boots'] },
+        { name: 'Finishing touch', itemTypes: ['watch', 'belt', 'bag'] },
+      ],
+    },
+  ],
+  'Home Decor': [
+    {
+      name: 'Cosy Living Room',
+      description: 'Soft textures and warm light for slow evenings.',
+      slots: [
+        { name: 'Seating', itemTypes: ['sofa'] },
+        { name: 'Rug', itemTypes: ['rug'] },
+        { name: 'Lighting', itemTypes: ['floor lamp', 'table lamp'] },
+        { name: 'Throw', itemTypes: ['throw'] },
+      ],
+    },
+    {
+      name: 'Reading Corner',
+      description: 'A compact nook with good light and somewhere to put your tea.',
+      slots: [
+        { name: 'Lighting', itemTypes: ['table lamp', 'floor lamp'] },
+        { name: 'Table', itemTypes: ['coffee table'] },
+        { name: 'Throw', itemTypes: ['throw'] },
+      ],
+    },
+  ],
+};
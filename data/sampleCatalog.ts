@@ -0,0 +1,92 @@
+import { Product, ProductAttributes } from '../types';
+
+// Demo inventory used by the default in-memory catalog. Swap in a real CatalogProvider for production stock.
+const item = (
+  id: string,
+  name: string,
+  description: string,
+  priceUsd: number,
+  attributes: ProductAttributes
+): Product => ({
+  id,
+  name,
+  description,
+  price: { amountMinor: Math.round(priceUsd * 100), currency: 'USD' },
+  imageUrl: `https://picsum.photos/seed/${id}/400/400`,
+  category: attributes.category,
+  attributes,
+});
+
+export const sampleCatalog: Product[] = [
+  // Apparel
+  item('SKU-1001', 'Classic Blue Denim Jacket', 'Mid-wash denim trucker jacket with button front and chest pockets.', 59.99,
+    { category: 'Apparel', itemType: 'jacket', color: 'blue', material: 'denim', style: 'casual' }),
+  item('SKU-1002', 'Black Washed Denim Jacket', 'Relaxed-fit denim jacket in a faded black wash.', 64.0,
+    { category: 'Apparel', itemType: 'jacket', color: 'black', material: 'denim', style: 'streetwear' }),
+  item('SKU-1003', 'Tan Suede Biker Jacket', 'Soft suede jacket with asymmetric zip and belted hem.', 189.0,
+    { category: 'Apparel', itemType: 'jacket', color: 'tan', material: 'suede', style: 'classic' }),
+  item('SKU-1004', 'Olive Utility Field Jacket', 'Cotton twill field jacket with four cargo pockets and drawstring waist.', 89.5,
+    { category: 'Apparel', itemType: 'jacket', color: 'olive', material: 'cotton', style: 'utility' }),
+  item('SKU-1005', 'Black Leather Moto Jacket', 'Lambskin moto jacket with silver hardware.', 249.0,
+    { category: 'Apparel', itemType: 'jacket', color: 'black', material: 'leather', style: 'edgy' }),
+  item('SKU-1011', 'White Crew Neck Tee', 'Heavyweight organic cotton t-shirt with a boxy fit.', 19.99,
+    { category: 'Apparel', itemType: 't-shirt', color: 'white', material: 'cotton', style: 'casual' }),
+  item('SKU-1012', 'Striped Breton Top', 'Navy and white striped long-sleeve top.', 34.0,
+    { category: 'Apparel', itemType: 't-shirt', color: 'navy', material: 'cotton', style: 'classic' }),
+  item('SKU-1021', 'Slim Black Jeans', 'Stretch denim jeans in a slim, tapered cut.', 49.99,
+    { category: 'Apparel', itemType: 'jeans', color: 'black', material: 'denim', style: 'casual' }),
+  item('SKU-1022', 'Light Wash Straight Jeans', 'Rigid denim straight-leg jeans with a vintage wash.', 54.0,
+    { category: 'Apparel', itemType: 'jeans', color: 'blue', material: 'denim', style: 'vintage' }),
+  item('SKU-1023', 'Beige Pleated Chinos', 'Relaxed chinos with front pleats in cotton twill.', 45.0,
+    { category: 'Apparel', itemType: 'trousers', color: 'beige', material: 'cotton', style: 'smart casual' }),
+  item('SKU-1031', 'Linen Summer Midi Dress', 'Breezy linen midi dress with a square neckline.', 79.0,
+    { category: 'Apparel', itemType: 'dress', color: 'white', material: 'linen', style: 'bohemian' }),
+  item('SKU-1032', 'Floral Wrap Dress', 'Lightweight viscose wrap dress with a small floral print.', 68.0,
+    { category: 'Apparel', itemType: 'dress', color: 'red', material: 'viscose', style: 'romantic' }),
+  item('SKU-1041', 'Grey Merino Crewneck Sweater', 'Fine-knit merino wool sweater.', 74.99,
+    { category: 'Apparel', itemType: 'sweater', color: 'grey', material: 'wool', style: 'minimalist' }),
+  // Footwear
+  item('SKU-2001', 'White Leather Sneakers', 'Minimal low-top sneakers in smooth leather.', 89.0,
+    { category: 'Footwear', itemType: 'sneakers', color: 'white', material: 'leather', style: 'minimalist' }),
+  item('SKU-2002', 'Black Canvas High-Tops', 'Classic canvas high-top sneakers with rubber sole.', 55.0,
+    { category: 'Footwear', itemType: 'sneakers', color: 'black', material: 'canvas', style: 'streetwear' }),
+  item('SKU-2003', 'Brown Suede Chelsea Boots', 'Pull-on suede boots with elastic side panels.', 129.0,
+    { category: 'Footwear', itemType: 'boots', color: 'brown', material: 'suede', style: 'classic' }),
+  item('SKU-2004', 'Tan Leather Sandals', 'Flat leather sandals with adjustable ankle strap.', 42.0,
+    { category: 'Footwear', itemType: 'sandals', color: 'tan', material: 'leather', style: 'bohemian' }),
+  // Accessories
+  item('SKU-3001', 'Brown Leather Belt', 'Full-grain leather belt with brass buckle.', 35.0,
+    { category: 'Accessories', itemType: 'belt', color: 'brown', material: 'leather', style: 'classic' }),
+  item('SKU-3002', 'Canvas Tote Bag', 'Sturdy natural canvas tote with inner pocket.', 24.99,
+    { category: 'Accessories', itemType: 'bag', color: 'beige', material: 'canvas', style: 'casual' }),
+  item('SKU-3003', 'Black Leather Crossbody Bag', 'Compact crossbody bag with adjustable strap.', 98.0,
+    { category: 'Accessories', itemType: 'bag', color: 'black', material: 'leather', style: 'minimalist' }),
+  item('SKU-3004', 'Tortoiseshell Sunglasses', 'Round acetate sunglasses with UV400 lenses.', 29.0,
+    { category: 'Accessories', itemType: 'sunglasses', color: 'brown', material: 'acetate', style: 'vintage' }),
+  item('SKU-3005', 'Woven Straw Hat', 'Wide-brim straw hat with black ribbon band.', 32.0,
+    { category: 'Accessories', itemType: 'hat', color: 'beige', material: 'straw', style: 'bohemian' }),
+  item('SKU-3006', 'Silver Minimalist Watch', 'Stainless steel watch with a clean white dial.', 119.0,
+    { category: 'Accessories', itemType: 'watch', color: 'silver', material: 'steel', style: 'minimalist' }),
+  // Home Decor
+  item('SKU-4001', 'Grey Linen Three-Seater Sofa', 'Deep-seat sofa upholstered in washed linen.', 899.0,
+    { category: 'Home Decor', itemType: 'sofa', color: 'grey', material: 'linen', style: 'scandinavian' }),
+  item('SKU-4002', 'Green Velvet Loveseat', 'Two-seater sofa in emerald velvet with brass legs.', 649.0,
+    { category: 'Home Decor', itemType: 'sofa', color: 'green', material: 'velvet', style: 'mid-century' }),
+  item('SKU-4003', 'Jute Area Rug', 'Hand-woven jute rug, 160 x 230 cm.', 149.0,
+    { category: 'Home Decor', itemType: 'rug', color: 'beige', material: 'jute', style: 'bohemian' }),
+  item('SKU-4004', 'Brass Arc Floor Lamp', 'Arched floor lamp with marble base and brass finish.', 199.0,
+    { category: 'Home Decor', itemType: 'floor lamp', color: 'gold', material: 'brass', style: 'mid-century' }),
+  item('SKU-4005', 'Ceramic Table Lamp', 'Textured ceramic lamp with linen shade.', 79.0,
+    { category: 'Home Decor', itemType: 'table lamp', color: 'white', material: 'ceramic', style: 'scandinavian' }),
+  item('SKU-4006', 'Knitted Throw Blanket', 'Chunky knit throw in soft cotton.', 59.0,
+    { category: 'Home Decor', itemType: 'throw', color: 'cream', material: 'cotton', style: 'cozy' }),
+  item('SKU-4007', 'Oak Coffee Table', 'Solid oak coffee table with rounded edges.', 329.0,
+    { category: 'Home Decor', itemType: 'coffee table', color: 'brown', material: 'wood', style: 'scandinavian' }),
+  // Electronics
+  item('SKU-5001', 'Wireless Over-Ear Headphones', 'Noise-cancelling headphones with 30-hour battery.', 199.99,
+    { category: 'Electronics', itemType: 'headphones', color: 'black', material: 'plastic', style: 'modern' }),
+  item('SKU-5002', 'Portable Bluetooth Speaker', 'Water-resistant speaker with fabric finish.', 79.99,
+    { category: 'Electronics', itemType: 'speaker', color: 'grey', material: 'fabric', style: 'modern' }),
+  item('SKU-5003', 'Leather Headphone Case', 'Zip case with cable pocket for over-ear headphones.', 29.99,
+    { category: 'Electronics', itemType: 'case', color: 'brown', material: 'leather', style: 'classic' }),
+];
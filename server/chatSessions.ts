@@ -0,0 +1,58 @@
+import { randomUUID } from 'node:crypto';
+import { AIChatSession } from '../types';
+
+export interface ChatSessionStoreOptions {
+  maxSessions: number;
+  idleTtlMs: number;
+}
+
+export interface ChatSessionStore {
+  create(chat: AIChatSession): string;
+  get(sessionId: string): AIChatSession | undefined;
+  delete(sessionId: string): void;
+}
+
+/**
+ * Keeps model chat sessions in memory, keyed by an unguessable id the browser sends back with each message.
+ * Idle sessions expire, and the least recently used one is dropped when the store is full, so a restart or a
+ * busy server only costs a shopper their chat context rather than memory.
+ */
+export const createChatSessionStore = ({ maxSessions, idleTtlMs }: ChatSessionStoreOptions): ChatSessionStore => {
+  // Map iteration follows insertion order; re-inserting on use keeps the least recently used entry first.
+  const sessions = new Map<string, { chat: AIChatSession; lastUsedAt: number }>();
+
+  const evictExpired = (now: number) => {
+    sessions.forEach((entry, id) => {
+      if (now - entry.lastUsedAt >= idleTtlMs) sessions.delete(id);
+    });
+  };
+
+  return {
+    create(chat) {
+      const now = Date.now();
+      evictExpired(now);
+      while (sessions.size >= maxSessions) {
+        const oldestId = sessions.keys().next().value;
+        if (oldestId === undefined) break;
+        sessions.delete(oldestId);
+      }
+      const id = randomUUID();
+      sessions.set(id, { chat, lastUsedAt: now });
+      return id;
+    },
+
+    get(sessionId) {
+      const entry = sessions.get(sessionId);
+      if (!entry) return undefined;
+      const now = Date.now();
+      sessions.delete(sessionId);
+      if (now - entry.lastUsedAt >= idleTtlMs) return undefined;
+      sessions.set(sessionId, { chat: entry.chat, lastUsedAt: now });
+      return entry.chat;
+    },
+
+    delete(sessionId) {
+      sessions.delete(sessionId);
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { AIProvider, AIProviderId } from '../types';
+import { createGeminiProvider } from '../services/geminiProvider';
+import { createMockAIProvider } from '../services/mockAIProvider';
+
+export type ServerAIProviderId = Exclude<AIProviderId, 'proxy'>;
+
+export interface ServerConfig {
+  host: string;
+  port: number;
+  provider: ServerAIProviderId;
+  model?: string; // Provider default when omitted
+  apiKey?: string;
+  trustProxy: boolean; // Read the client address from X-Forwarded-For; only safe behind a reverse proxy you run
+  rateLimit: { maxRequests: number; windowMs: number };
+}
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Reads the server setup from the environment: AI_PROVIDER ("gemini" or "mock"), AI_MODEL, GEMINI_API_KEY,
+ * HOST, PORT, TRUST_PROXY and RATE_LIMIT_PER_MINUTE. Unknown providers fall back to Gemini with a warning.
+ */
+export const readServerConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const requested = (env.AI_PROVIDER || 'gemini').toLowerCase();
+  if (requested !== 'gemini' && requested !== 'mock') {
+    console.warn(`Unknown AI_PROVIDER "${requested}"; using Gemini.`);
+  }
+  return {
+    host: env.HOST || '127.0.0.1',
+    port: readPositiveInt(env.PORT, 8787),
+    provider: requested === 'mock' ? 'mock' : 'gemini',
+    model: env.AI_MODEL || undefined,
+    apiKey: env.GEMINI_API_KEY,
+    trustProxy: env.TRUST_PROXY === 'true',
+    rateLimit: { maxRequests: readPositiveInt(env.RATE_LIMIT_PER_MINUTE, 30), windowMs: 60_000 },
+  };
+};
+
+export const createServerAIProvider = (config: ServerConfig): AIProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return createMockAIProvider();
+    case 'gemini':
+      return createGeminiProvider({ apiKey: config.apiKey, model: config.model });
+  }
+};
+
+/**
+ * Loads KEY=VALUE lines from an env file into process.env, without overriding variables that are already set.
+ * Uses Node's own loader (20.12+) and a minimal reader for older versions.
+ */
+export const loadEnvFile = (path: string): void => {
+  if (!existsSync(path)) return;
+  if (typeof process.loadEnvFile === 'function') {
+    process.loadEnvFile(path);
+    return;
+  }
+  readFileSync(path, 'utf8').split(/\r?\n/).forEach(line => {
+    const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/);
+    if (!match || match[1] in process.env) return;
+    process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+  });
+};
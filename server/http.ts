@@ -0,0 +1,66 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { AIErrorKind, ApiErrorBody } from '../types';
+
+/** An error with an HTTP status whose message is safe to show to the client. */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: HttpError, kind?: AIErrorKind): void => {
+  const body: ApiErrorBody = kind ? { error: error.message, kind } : { error: error.message };
+  // After a rejected upload the rest of the body may still be arriving; closing is cheaper than draining it.
+  sendJson(res, error.status, body, error.status === 413 ? { ...error.headers, Connection: 'close' } : error.headers);
+};
+
+// Behind a reverse proxy every request comes from the proxy, so the forwarded address is the only useful key.
+export const getClientKey = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded.trim()) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+/** Reads and parses a JSON body, rejecting it with 413 as soon as it grows past `maxBytes`. */
+export const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  if (!(req.headers['content-type'] || '').startsWith('application/json')) {
+    return Promise.reject(new HttpError(415, 'Expected a JSON request body.'));
+  }
+  const tooLarge = new HttpError(413, `Request body is larger than ${Math.round(maxBytes / 1024)} KB.`);
+  if (Number(req.headers['content-length'] || 0) > maxBytes) {
+    return Promise.reject(tooLarge);
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    const onData = (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        req.off('data', onData);
+        req.off('end', onEnd);
+        reject(tooLarge);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON.'));
+      }
+    };
+    req.on('data', onData);
+    req.on('end', onEnd);
+    req.on('error', reject);
+  });
+};
@@ -0,0 +1,132 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AIChatSession, AIErrorKind, AnalyzeResponseBody, ApiErrorBody } from '../types';
+import { toAIError } from '../services/aiErrors';
+import { CHAT_SESSION_HEADER, MAX_CHAT_BODY_BYTES } from '../services/proxyAIProvider';
+import { createChatSessionStore } from './chatSessions';
+import { createServerAIProvider, loadEnvFile, readServerConfig } from './config';
+import { HttpError, getClientKey, readJsonBody, sendError, sendJson } from './http';
+import { createRateLimiter } from './rateLimiter';
+import { parseChatRequest, parseStructuredRequest } from './requestValidation';
+
+// Four preprocessed photos (at most ~800 KB each before base64) plus the task's other inputs.
+const MAX_ANALYZE_BODY_BYTES = 6 * 1024 * 1024;
+
+// Same file Vite reads, so one .env.local configures both halves of the app.
+loadEnvFile('.env.local');
+
+const config = readServerConfig();
+if (config.provider === 'gemini' && !config.apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local, or set AI_PROVIDER=mock to run without a key.');
+  process.exit(1);
+}
+
+const provider = createServerAIProvider(config);
+const rateLimiter = createRateLimiter(config.rateLimit);
+const chatSessions = createChatSessionStore({ maxSessions: 500, idleTtlMs: 30 * 60_000 });
+
+// Status codes for failed model calls. The kind travels in the body too, so the client can rebuild the typed error.
+const statusForKind: Record<AIErrorKind, number> = {
+  quota: 429,
+  safety: 422,
+  network: 502,
+  parse: 502,
+  timeout: 504,
+  cancelled: 499,
+  unknown: 502,
+};
+
+// 'close' also fires after a normal finish, when aborting is a no-op; otherwise the shopper left or pressed stop.
+const abortOnClose = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  return controller.signal;
+};
+
+const handleAnalyze = async (req: IncomingMessage, res: ServerResponse) => {
+  const request = parseStructuredRequest(await readJsonBody(req, MAX_ANALYZE_BODY_BYTES));
+  const body: AnalyzeResponseBody = { text: await provider.generateStructured(request, abortOnClose(res)) };
+  sendJson(res, 200, body);
+};
+
+// Streams the reply as newline-delimited JSON chunks. Once streaming has started the status is already sent,
+// so a model failure is reported as a final {"error"} line instead.
+const handleChat = async (req: IncomingMessage, res: ServerResponse) => {
+  const body = parseChatRequest(await readJsonBody(req, MAX_CHAT_BODY_BYTES));
+  const isNewSession = !('sessionId' in body);
+  let sessionId: string;
+  let chat: AIChatSession | undefined;
+  if ('sessionId' in body) {
+    sessionId = body.sessionId;
+    chat = chatSessions.get(sessionId);
+    if (!chat) throw new HttpError(404, 'This chat session has expired. Please start a new chat.');
+  } else {
+    chat = provider.createChat(body.options);
+    sessionId = chatSessions.create(chat);
+  }
+
+  const signal = abortOnClose(res);
+  let stream: AsyncIterable<unknown>;
+  try {
+    stream = await chat.sendMessageStream(body.message, signal, { allowTools: body.allowTools });
+  } catch (error) {
+    if (isNewSession) chatSessions.delete(sessionId);
+    throw error;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store', [CHAT_SESSION_HEADER]: sessionId });
+  try {
+    for await (const chunk of stream) {
+      res.write(`${JSON.stringify(chunk)}\n`);
+    }
+  } catch (error) {
+    if (!signal.aborted) {
+      console.error('Chat stream failed:', error);
+      const failure: ApiErrorBody = { error: 'The assistant stopped responding. Please try again.', kind: toAIError(error).kind };
+      res.write(`${JSON.stringify(failure)}\n`);
+    }
+  }
+  res.end();
+};
+
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+  '/api/analyze': handleAnalyze,
+  '/api/chat': handleChat,
+};
+
+const server = createServer(async (req, res) => {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  try {
+    const handler = routes[path];
+    if (!handler) throw new HttpError(404, 'Not found.');
+    if (req.method !== 'POST') throw new HttpError(405, 'Use POST.', { Allow: 'POST' });
+
+    const limit = rateLimiter.take(getClientKey(req, config.trustProxy));
+    if (!limit.allowed) {
+      throw new HttpError(429, 'Too many requests. Please wait a moment and try again.', {
+        'Retry-After': String(limit.retryAfterSeconds),
+      });
+    }
+    await handler(req, res);
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    if (error instanceof HttpError) {
+      sendError(res, error);
+      return;
+    }
+    // Provider errors can echo request details or account info, so the client only gets the kind of failure.
+    const { kind } = toAIError(error);
+    if (kind === 'cancelled') {
+      res.end();
+      return;
+    }
+    console.error(`${req.method} ${path} failed:`, error);
+    sendError(res, new HttpError(statusForKind[kind], 'The AI service could not handle this request.'), kind);
+  }
+});
+
+server.listen(config.port, config.host, () => {
+  console.log(`ShopSmarter API listening on http://${config.host}:${config.port} (${provider.id}, ${provider.model})`);
+});
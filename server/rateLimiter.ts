@@ -0,0 +1,45 @@
+export interface RateLimitOptions {
+  maxRequests: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take(clientKey: string, now?: number): RateLimitDecision;
+}
+
+/**
+ * Fixed-window request counter per client. Simple and memory-bounded by the number of clients seen in one
+ * window; a burst can straddle two windows, which is acceptable for keeping one client from draining the quota.
+ */
+export const createRateLimiter = ({ maxRequests, windowMs }: RateLimitOptions): RateLimiter => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+  let lastSweepAt = 0;
+
+  const sweep = (now: number) => {
+    windows.forEach((window, key) => {
+      if (now - window.startedAt >= windowMs) windows.delete(key);
+    });
+    lastSweepAt = now;
+  };
+
+  return {
+    take(clientKey, now = Date.now()) {
+      if (now - lastSweepAt >= windowMs) sweep(now);
+      const current = windows.get(clientKey);
+      if (!current || now - current.startedAt >= windowMs) {
+        windows.set(clientKey, { startedAt: now, count: 1 });
+        return { allowed: true, retryAfterSeconds: 0 };
+      }
+      if (current.count >= maxRequests) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((current.startedAt + windowMs - now) / 1000) };
+      }
+      current.count += 1;
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+};
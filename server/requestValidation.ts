@@ -0,0 +1,249 @@
+import {
+  AIChatOptions, AIChatToolName, AIChatTurn, AIFunctionResult, AIImageInput, AIShopperContext, AIStructuredRequest, AITask, CatalogFacets, ChatRequestBody,
+  Money, Product,
+} from '../types';
+import { SUPPORTED_CURRENCIES, SUPPORTED_LOCALES } from '../services/i18nService';
+import { applyStyleProfileUpdate, createEmptyStyleProfile } from '../services/styleProfileService';
+import { validateAttributes, validateProduct, validateStyleProfileUpdate } from '../services/validationService';
+import { HttpError } from './http';
+
+// The same caps the client works within, so a hand-crafted request can't ask for much more than the app would.
+// Requests carry only task inputs; the prompts themselves are written on the server (services/promptService.ts).
+const MAX_IMAGES_PER_REQUEST = 4;
+const MAX_MESSAGE_CHARS = 4_000;
+const MAX_TURN_CHARS = 20_000;
+const MAX_HISTORY_TURNS = 100; // Older turns of a long restored chat are dropped, not rejected
+const MAX_FUNCTION_RESULTS = 8; // One per call the model made in a turn
+const MAX_SUBJECT_IDS = 10;
+const MAX_QUERY_CHARS = 1_000;
+const MAX_ANALYSIS_CHARS = 4_000;
+const MAX_CANDIDATES = 20;
+const MAX_COMPARED_PRODUCTS = 4;
+const MAX_SHOPPER_NEEDS = 10;
+const MAX_FACETS = 200;
+const MAX_TERM_CHARS = 100;
+const MAX_PRODUCT_TEXT_CHARS = 2_000;
+const MAX_PROFILE_CHARS = 2_000;
+
+const knownTasks: Record<AITask, true> = {
+  imageAnalysis: true,
+  multiImageAnalysis: true,
+  textQuery: true,
+  lookPlanning: true,
+  itemDetection: true,
+  ranking: true,
+  productComparison: true,
+  multiProductComparison: true,
+};
+
+const knownTools: Record<AIChatToolName, true> = {
+  searchCatalog: true,
+  refineSearch: true,
+  rememberPreference: true,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const badRequest = (message: string) => new HttpError(400, message);
+
+const readString = (value: unknown, field: string, maxChars: number): string => {
+  if (typeof value !== 'string') throw badRequest(`${field} must be a string.`);
+  if (value.length > maxChars) throw badRequest(`${field} is longer than ${maxChars} characters.`);
+  return value;
+};
+
+const readOptionalString = (value: unknown, field: string, maxChars: number): string | undefined =>
+  value === undefined || value === null ? undefined : readString(value, field, maxChars);
+
+const readArray = (value: unknown, field: string, maxItems: number): unknown[] => {
+  if (!Array.isArray(value)) throw badRequest(`${field} must be an array.`);
+  if (value.length > maxItems) throw badRequest(`${field} has more than ${maxItems} entries.`);
+  return value;
+};
+
+const readStringList = (value: unknown, field: string, maxItems: number, maxChars: number): string[] =>
+  readArray(value, field, maxItems).map((entry, index) => readString(entry, `${field}[${index}]`, maxChars));
+
+const readImage = (value: unknown, field: string): AIImageInput => {
+  if (!isRecord(value) || typeof value.base64 !== 'string' || typeof value.mimeType !== 'string') {
+    throw badRequest(`${field} must have base64 and mimeType.`);
+  }
+  if (!value.mimeType.startsWith('image/')) throw badRequest(`${field} is not an image.`);
+  return { base64: value.base64, mimeType: value.mimeType };
+};
+
+const readFacets = (value: unknown): CatalogFacets => {
+  if (!isRecord(value)) throw badRequest('facets must be an object.');
+  return {
+    categories: readStringList(value.categories, 'facets.categories', MAX_FACETS, MAX_TERM_CHARS),
+    itemTypes: readStringList(value.itemTypes, 'facets.itemTypes', MAX_FACETS, MAX_TERM_CHARS),
+  };
+};
+
+// Products come from the browser's catalog, so they get the same checks as any other catalog data.
+const readProduct = (value: unknown, field: string): Product => {
+  const product = validateProduct(value, field, []);
+  if (!product) throw badRequest(`${field} is not a valid product.`);
+  if ([product.id, product.name, product.category].some(text => text.length > MAX_TERM_CHARS * 2)
+    || product.description.length > MAX_PRODUCT_TEXT_CHARS) {
+    throw badRequest(`${field} has a field that is too long.`);
+  }
+  return product;
+};
+
+const readProducts = (value: unknown, field: string, maxItems: number): Product[] =>
+  readArray(value, field, maxItems).map((entry, index) => readProduct(entry, `${field}[${index}]`));
+
+const readMoney = (value: unknown, field: string): Money | null => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value) || !Number.isInteger(value.amountMinor) || (value.amountMinor as number) < 0
+    || typeof value.currency !== 'string' || !/^[A-Z]{3}$/.test(value.currency)) {
+    throw badRequest(`${field} must be an amount in minor units with a currency code.`);
+  }
+  return { amountMinor: value.amountMinor as number, currency: value.currency };
+};
+
+const readShopper = (value: unknown, field: string): AIShopperContext => {
+  if (!isRecord(value) || !isRecord(value.locale)) throw badRequest(`${field} must have a locale.`);
+  const { locale, currency } = value.locale;
+  if (!SUPPORTED_LOCALES.some(option => option.code === locale)) throw badRequest(`${field}.locale is not supported.`);
+  if (typeof currency !== 'string' || !SUPPORTED_CURRENCIES.includes(currency)) throw badRequest(`${field}.currency is not supported.`);
+  if (typeof value.catalogCurrency !== 'string' || !/^[A-Z]{3}$/.test(value.catalogCurrency)) {
+    throw badRequest(`${field}.catalogCurrency must be a currency code.`);
+  }
+  if (JSON.stringify(value.styleProfile ?? {}).length > MAX_PROFILE_CHARS) {
+    throw badRequest(`${field}.styleProfile is longer than ${MAX_PROFILE_CHARS} characters.`);
+  }
+  const { value: update } = validateStyleProfileUpdate(value.styleProfile ?? {}, `${field}.styleProfile`, currency);
+  return {
+    locale: { locale: locale as string, currency },
+    styleProfile: applyStyleProfileUpdate(createEmptyStyleProfile(), update),
+    catalogCurrency: value.catalogCurrency,
+  };
+};
+
+// Reads the inputs each task takes; anything else in the body is ignored.
+const readTaskInputs = (task: AITask, body: Record<string, unknown>): AIStructuredRequest => {
+  const shopper = readShopper(body.shopper, 'shopper');
+  const userPrompt = readOptionalString(body.userPrompt, 'userPrompt', MAX_MESSAGE_CHARS);
+  const optionalPrompt = userPrompt ? { userPrompt } : {};
+  switch (task) {
+    case 'imageAnalysis':
+      return { task, shopper, image: readImage(body.image, 'image'), ...optionalPrompt, facets: readFacets(body.facets) };
+    case 'multiImageAnalysis': {
+      if (body.mode !== 'outfit' && body.mode !== 'compare') throw badRequest('mode must be "outfit" or "compare".');
+      return {
+        task,
+        shopper,
+        images: readArray(body.images, 'images', MAX_IMAGES_PER_REQUEST).map((image, index) => readImage(image, `images[${index}]`)),
+        mode: body.mode,
+        ...optionalPrompt,
+        facets: readFacets(body.facets),
+      };
+    }
+    case 'textQuery':
+      return { task, shopper, query: readString(body.query, 'query', MAX_QUERY_CHARS), facets: readFacets(body.facets) };
+    case 'itemDetection':
+      return { task, shopper, image: readImage(body.image, 'image'), facets: readFacets(body.facets) };
+    case 'ranking':
+      return {
+        task,
+        shopper,
+        analysis: readString(body.analysis, 'analysis', MAX_ANALYSIS_CHARS),
+        ...optionalPrompt,
+        similar: readProducts(body.similar, 'similar', MAX_CANDIDATES),
+        complementary: readProducts(body.complementary, 'complementary', MAX_CANDIDATES),
+      };
+    case 'productComparison':
+      return {
+        task,
+        shopper,
+        product: readProduct(body.product, 'product'),
+        analyzedText: readString(body.analyzedText, 'analyzedText', MAX_ANALYSIS_CHARS),
+      };
+    case 'multiProductComparison':
+      return {
+        task,
+        shopper,
+        products: readProducts(body.products, 'products', MAX_COMPARED_PRODUCTS),
+        analyzedText: readOptionalString(body.analyzedText, 'analyzedText', MAX_ANALYSIS_CHARS) ?? null,
+        shopperNeeds: readStringList(body.shopperNeeds ?? [], 'shopperNeeds', MAX_SHOPPER_NEEDS, MAX_MESSAGE_CHARS),
+      };
+    case 'lookPlanning': {
+      const attributes = validateAttributes(body.attributes, 'attributes', []);
+      return {
+        task,
+        shopper,
+        analysis: readString(body.analysis, 'analysis', MAX_ANALYSIS_CHARS),
+        ...(attributes ? { attributes } : {}),
+        subjectIds: readStringList(body.subjectIds, 'subjectIds', MAX_SUBJECT_IDS, MAX_TERM_CHARS * 2),
+        itemTypes: readStringList(body.itemTypes, 'itemTypes', MAX_FACETS, MAX_TERM_CHARS),
+        budget: readMoney(body.budget, 'budget'),
+      };
+    }
+  }
+};
+
+/** Checks an /api/analyze body; throws an HttpError(400) naming the first problem. */
+export const parseStructuredRequest = (body: unknown): AIStructuredRequest => {
+  if (!isRecord(body)) throw badRequest('Request body must be an object.');
+  if (typeof body.task !== 'string' || !Object.prototype.hasOwnProperty.call(knownTasks, body.task)) {
+    throw badRequest('Unknown task.');
+  }
+  return readTaskInputs(body.task as AITask, body);
+};
+
+const readFunctionResults = (value: unknown[]): AIFunctionResult[] =>
+  value.map((result, index) => {
+    if (!isRecord(result) || typeof result.name !== 'string' || !isRecord(result.response)) {
+      throw badRequest(`message[${index}] must have a name and a response object.`);
+    }
+    if (!Object.prototype.hasOwnProperty.call(knownTools, result.name)) throw badRequest(`message[${index}] is for an unknown tool.`);
+    return {
+      ...(typeof result.id === 'string' ? { id: result.id } : {}),
+      name: result.name,
+      response: result.response,
+    };
+  });
+
+// Keeps the most recent turns of a long restored chat, and the end of an overly long turn. History has to
+// open with a user turn, so a leading model turn goes too.
+const readHistory = (value: unknown): AIChatTurn[] => {
+  if (!Array.isArray(value)) throw badRequest('options.history must be an array.');
+  const start = Math.max(0, value.length - MAX_HISTORY_TURNS);
+  const history = value.slice(start).map((turn, offset): AIChatTurn => {
+    const index = start + offset;
+    if (!isRecord(turn) || (turn.role !== 'user' && turn.role !== 'model') || typeof turn.text !== 'string') {
+      throw badRequest(`options.history[${index}] must have a user or model role and text.`);
+    }
+    return { role: turn.role, text: turn.text.slice(-MAX_TURN_CHARS) };
+  });
+  return history[0]?.role === 'model' ? history.slice(1) : history;
+};
+
+const readChatOptions = (value: unknown): AIChatOptions => {
+  if (!isRecord(value)) throw badRequest('options must be an object.');
+  const shopper = readShopper(value.shopper, 'options.shopper');
+  const history = value.history === undefined ? undefined : readHistory(value.history);
+  const common = { shopper, ...(history ? { history } : {}) };
+  if (value.topic === 'shopping') return { topic: 'shopping', ...common };
+  if (value.topic === 'product') {
+    const analyzedText = readOptionalString(value.analyzedText, 'options.analyzedText', MAX_ANALYSIS_CHARS);
+    return { topic: 'product', product: readProduct(value.product, 'options.product'), ...(analyzedText ? { analyzedText } : {}), ...common };
+  }
+  throw badRequest('options.topic must be "shopping" or "product".');
+};
+
+/** Checks an /api/chat body. A message either opens a session (with options) or continues one (with its id). */
+export const parseChatRequest = (body: unknown): ChatRequestBody => {
+  if (!isRecord(body)) throw badRequest('Request body must be an object.');
+  const message = typeof body.message === 'string'
+    ? readString(body.message, 'message', MAX_MESSAGE_CHARS)
+    : readFunctionResults(readArray(body.message, 'message', MAX_FUNCTION_RESULTS));
+  const toolOptions = body.allowTools === false ? { allowTools: false as const } : {};
+  if (body.sessionId !== undefined) {
+    return { sessionId: readString(body.sessionId, 'sessionId', 100), message, ...toolOptions };
+  }
+  return { options: readChatOptions(body.options), message, ...toolOptions };
+};
@@ -0,0 +1,21 @@
+import { AIProvider, AIProviderConfig } from '../types';
+import { createMockAIProvider } from './mockAIProvider';
+import { createProxyAIProvider } from './proxyAIProvider';
+
+/**
+ * Reads the browser's provider setup from the build environment: AI_PROVIDER=mock runs the offline fixtures,
+ * anything else goes through the API server's /api endpoints. The Gemini key and model are server settings
+ * and are deliberately not read here.
+ */
+export const readAIConfigFromEnv = (): AIProviderConfig => ({
+  provider: (process.env.AI_PROVIDER || '').toLowerCase() === 'mock' ? 'mock' : 'proxy',
+});
+
+export const createAIProvider = (config: AIProviderConfig): AIProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return createMockAIProvider();
+    case 'proxy':
+      return createProxyAIProvider();
+  }
+};
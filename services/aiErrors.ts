@@ -0,0 +1,121 @@
+import { AIErrorKind, ValidationIssue } from '../types';
+import { ResponseValidationError } from './validationService';
+
+/** Base class for every failure of a model call. `retryable` says whether trying again could help. */
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: AIErrorKind, message: string, retryable: boolean) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+/** Rate limit or quota exhausted. Transient, so it is retried, after `retryAfterMs` when the service says so. */
+export class AIQuotaError extends AIError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super('quota', message, true);
+    this.name = 'AIQuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** The model refused the request or its reply was blocked by safety filters. Retrying the same input won't help. */
+export class AISafetyError extends AIError {
+  constructor(message: string) {
+    super('safety', message, false);
+    this.name = 'AISafetyError';
+  }
+}
+
+/** The service could not be reached, or answered with a server error. */
+export class AINetworkError extends AIError {
+  constructor(message: string) {
+    super('network', message, true);
+    this.name = 'AINetworkError';
+  }
+}
+
+/** The reply was not the JSON we asked for. A fresh generation usually is, so it is retried. */
+export class AIParseError extends AIError {
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super('parse', message, true);
+    this.name = 'AIParseError';
+    this.issues = issues;
+  }
+}
+
+export class AITimeoutError extends AIError {
+  constructor(message: string) {
+    super('timeout', message, true);
+    this.name = 'AITimeoutError';
+  }
+}
+
+/** The caller aborted the call, e.g. because a new image was uploaded. Not an error to show the shopper. */
+export class AICancelledError extends AIError {
+  constructor(message = 'The request was cancelled.') {
+    super('cancelled', message, false);
+    this.name = 'AICancelledError';
+  }
+}
+
+/** Rebuilds a typed error from its kind, e.g. one reported by the API server. */
+export const createAIError = (kind: AIErrorKind, message: string, retryAfterMs?: number): AIError => {
+  switch (kind) {
+    case 'quota': return new AIQuotaError(message, retryAfterMs);
+    case 'safety': return new AISafetyError(message);
+    case 'network': return new AINetworkError(message);
+    case 'parse': return new AIParseError(message);
+    case 'timeout': return new AITimeoutError(message);
+    case 'cancelled': return new AICancelledError(message);
+    case 'unknown': return new AIError('unknown', message, false);
+  }
+};
+
+const readStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Classifies any error thrown during a model call. SDK errors carry an HTTP `status`; fetch failures are
+ * TypeErrors; anything else is matched on the well-known status names the Gemini API puts in its messages.
+ */
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (error instanceof ResponseValidationError) {
+    return new AIParseError(error.message, error.issues);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new AICancelledError();
+  }
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new AINetworkError(message);
+  }
+
+  const status = readStatus(error);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new AIQuotaError(message);
+  }
+  if (status === 408 || status === 504 || /DEADLINE_EXCEEDED|timed out/i.test(message)) {
+    return new AITimeoutError(message);
+  }
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|INTERNAL|ECONNRESET|ENOTFOUND|ETIMEDOUT/.test(message)) {
+    return new AINetworkError(message);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) {
+    return new AISafetyError(message);
+  }
+  return new AIError('unknown', message, false);
+};
+
+export const isCancellation = (error: unknown): boolean => toAIError(error).kind === 'cancelled';
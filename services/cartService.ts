@@ -0,0 +1,33 @@
+import { CartItem, Money, Product } from '../types';
+import { multiplyMoney, sumMoney } from './priceService';
+
+export const addToCart = (items: CartItem[], product: Product): CartItem[] => {
+  const existing = items.find(item => item.product.id === product.id);
+  if (existing) {
+    return items.map(item =>
+      item.product.id === product.id ? { ...item, quantity: item.quantity + 1 } : item
+    );
+  }
+  return [...items, { product, quantity: 1 }];
+};
+
+export const removeFromCart = (items: CartItem[], productId: string): CartItem[] =>
+  items.filter(item => item.product.id !== productId);
+
+export const updateCartQuantity = (items: CartItem[], productId: string, quantity: number): CartItem[] => {
+  if (quantity <= 0) {
+    return removeFromCart(items, productId);
+  }
+  return items.map(item => (item.product.id === productId ? { ...item, quantity } : item));
+};
+
+export const getCartQuantity = (items: CartItem[], productId: string): number =>
+  items.find(item => item.product.id === productId)?.quantity ?? 0;
+
+export const getCartItemCount = (items: CartItem[]): number =>
+  items.reduce((count, item) => count + item.quantity, 0);
+
+export const getLineTotal = (item: CartItem): Money => multiplyMoney(item.product.price, item.quantity);
+
+// One total per currency; a cart only mixes currencies if the model answered inconsistently.
+export const getCartSubtotal = (items: CartItem[]): Money[] => sumMoney(items.map(getLineTotal));
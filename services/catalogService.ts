@@ -0,0 +1,94 @@
+import { CatalogFacets, CatalogProvider, CatalogQuery, Money, Product, ProductAttributes } from '../types';
+import { compareMoney, DEFAULT_CURRENCY } from './priceService';
+
+const DEFAULT_LIMIT = 8;
+
+// How much each attribute contributes to a match; item type matters most, then category and color.
+const ATTRIBUTE_WEIGHTS: Record<keyof ProductAttributes, number> = {
+  itemType: 4,
+  category: 2,
+  color: 2,
+  material: 1,
+  style: 1,
+};
+
+const normalize = (value: string | undefined): string => (value || '').trim().toLowerCase();
+
+const tokenize = (value: string | undefined): string[] =>
+  normalize(value).split(/[^a-z0-9]+/).filter(token => token.length > 2);
+
+// Loose match so "navy blue" matches "blue" and "Sneakers" matches "sneaker".
+const valuesMatch = (a: string | undefined, b: string | undefined): boolean => {
+  const left = normalize(a).replace(/s\b/g, '');
+  const right = normalize(b).replace(/s\b/g, '');
+  if (!left || !right) return false;
+  return left === right || left.includes(right) || right.includes(left);
+};
+
+const scoreProduct = (product: Product, attributes: Partial<ProductAttributes>): number => {
+  let score = 0;
+  (Object.keys(ATTRIBUTE_WEIGHTS) as (keyof ProductAttributes)[]).forEach(key => {
+    const candidate = key === 'category' ? product.category : product.attributes?.[key];
+    if (valuesMatch(candidate, attributes[key])) {
+      score += ATTRIBUTE_WEIGHTS[key];
+    }
+  });
+
+  // Small bonus for query words that appear in the name or description.
+  const haystack = new Set([...tokenize(product.name), ...tokenize(product.description)]);
+  const queryTokens = new Set(Object.values(attributes).flatMap(value => tokenize(value)));
+  queryTokens.forEach(token => {
+    if (haystack.has(token)) score += 0.5;
+  });
+
+  return score;
+};
+
+const meetsRequirements = (product: Product, required: Partial<ProductAttributes>): boolean =>
+  (Object.keys(required) as (keyof ProductAttributes)[]).every(key => {
+    if (!required[key]) return true;
+    const candidate = key === 'category' ? product.category : product.attributes?.[key];
+    return valuesMatch(candidate, required[key]);
+  });
+
+// Prices in another currency can't be compared without rates, so a bound only applies within its currency.
+const withinPriceRange = (price: Money, min?: Money, max?: Money): boolean =>
+  (!min || price.currency !== min.currency || compareMoney(price, min) >= 0) &&
+  (!max || price.currency !== max.currency || compareMoney(price, max) <= 0);
+
+const uniqueSorted = (values: string[]): string[] =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+/**
+ * A catalog backed by a fixed list of products, for tests, demos and small self-hosted inventories.
+ * Every product should carry `attributes` so it can be matched against the image analysis.
+ */
+export const createInMemoryCatalog = (products: Product[]): CatalogProvider => {
+  const items = [...products];
+
+  const search = async (query: CatalogQuery): Promise<Product[]> => {
+    const excludeIds = new Set(query.excludeIds || []);
+    const itemTypes = query.itemTypes || [];
+    const excludeItemTypes = query.excludeItemTypes || [];
+
+    return items
+      .filter(product => !excludeIds.has(product.id))
+      .filter(product => itemTypes.length === 0 || itemTypes.some(type => valuesMatch(product.attributes?.itemType, type)))
+      .filter(product => !excludeItemTypes.some(type => valuesMatch(product.attributes?.itemType, type)))
+      .filter(product => meetsRequirements(product, query.requiredAttributes || {}))
+      .filter(product => withinPriceRange(product.price, query.minPrice, query.maxPrice))
+      .map(product => ({ product, score: scoreProduct(product, query.attributes) }))
+      .filter(({ score }) => score > 0 || itemTypes.length > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.limit ?? DEFAULT_LIMIT)
+      .map(({ product }) => product);
+  };
+
+  const getFacets = async (): Promise<CatalogFacets> => ({
+    categories: uniqueSorted(items.map(product => product.category)),
+    itemTypes: uniqueSorted(items.map(product => product.attributes?.itemType || '')),
+  });
+
+  // Prices are expected in one currency; the first product's is taken as the catalog's.
+  return { currency: items[0]?.price.currency ?? DEFAULT_CURRENCY, search, getFacets };
+};
@@ -0,0 +1,35 @@
+/** Triggers a browser download of generated text content (JSON, CSV, HTML...). */
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/** Turns a user-supplied name into something safe to use as a file name. */
+export const toFileSlug = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+
+/**
+ * Opens the browser's print dialog for a standalone HTML document, from which it can also be saved as PDF.
+ * The page is printed from a hidden frame so the app itself stays as it is.
+ */
+export const printHtml = (html: string): void => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;visibility:hidden';
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) return;
+    // The print dialog blocks in some browsers and returns at once in others, so clean up after it closes.
+    frameWindow.addEventListener('afterprint', () => frame.remove());
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
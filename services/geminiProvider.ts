@@ -0,0 +1,102 @@
+import { GoogleGenAI, Chat, Content, FunctionCallingConfigMode, GenerateContentConfig, GenerateContentResponse, Part } from "@google/genai";
+import { AIChatChunk, AIChatOptions, AIChatSession, AIFunctionResult, AIProvider, AIStructuredRequest } from '../types';
+import { AISafetyError } from './aiErrors';
+import { buildChatConfig, buildStructuredPrompt } from './promptService';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-preview-04-17';
+
+interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+// Reads text parts directly; the response's .text getter warns whenever a chunk also carries a function call.
+const chunkText = (chunk: GenerateContentResponse): string =>
+  (chunk.candidates?.[0]?.content?.parts || [])
+    .filter(part => typeof part.text === 'string' && !part.thought)
+    .map(part => part.text)
+    .join('');
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+// A blocked prompt or reply comes back as an ordinary response with no text, so check for it explicitly.
+const assertNotBlocked = (response: GenerateContentResponse): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new AISafetyError(`Gemini blocked the request (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new AISafetyError(`Gemini stopped the response (${finishReason}).`);
+  }
+};
+
+const toContents = (options: AIChatOptions): Content[] =>
+  (options.history || []).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+
+const toFunctionResponseParts = (results: AIFunctionResult[]): Part[] =>
+  results.map(result => ({ functionResponse: { id: result.id, name: result.name, response: result.response } }));
+
+async function* toChunks(stream: AsyncGenerator<GenerateContentResponse>): AsyncGenerator<AIChatChunk> {
+  for await (const chunk of stream) {
+    assertNotBlocked(chunk);
+    yield {
+      text: chunkText(chunk),
+      functionCalls: (chunk.functionCalls || []).map(call => ({ id: call.id, name: call.name ?? '', args: call.args ?? {} })),
+    };
+  }
+}
+
+// Keeps the tools declared (the history refers to them) but stops the model from calling one.
+const NO_TOOL_CALLS: GenerateContentConfig = { toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } };
+
+const createGeminiChatSession = (chat: Chat, config: GenerateContentConfig): AIChatSession => ({
+  async sendMessageStream(message, signal, options) {
+    const stream = await chat.sendMessageStream({
+      message: typeof message === 'string' ? message : toFunctionResponseParts(message),
+      // Per-request config replaces (rather than extends) the session config, so resend it with the signal.
+      config: { ...config, ...(options?.allowTools === false ? NO_TOOL_CALLS : {}), abortSignal: signal },
+    });
+    return toChunks(stream);
+  },
+});
+
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: GeminiProviderOptions): AIProvider => {
+  if (!apiKey) {
+    console.error("GEMINI_API_KEY environment variable is not set.");
+  }
+  const ai = new GoogleGenAI({ apiKey: apiKey || "MISSING_API_KEY" });
+
+  return {
+    id: 'gemini',
+    model,
+
+    async generateStructured(request: AIStructuredRequest, signal?: AbortSignal) {
+      const { contents, schema } = buildStructuredPrompt(request);
+      const parts: Part[] = contents.map(content =>
+        typeof content === 'string' ? { text: content } : { inlineData: { mimeType: content.mimeType, data: content.base64 } }
+      );
+      const response = await ai.models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          abortSignal: signal,
+        },
+      });
+      assertNotBlocked(response);
+      return response.text;
+    },
+
+    createChat(options: AIChatOptions) {
+      const { systemInstruction, tools } = buildChatConfig(options);
+      const config: GenerateContentConfig = {
+        systemInstruction,
+        ...(tools.length > 0 ? { tools: [{ functionDeclarations: tools }] } : {}),
+      };
+      const chat = ai.chats.create({ model, config, history: toContents(options) });
+      return createGeminiChatSession(chat, config);
+    },
+  };
+};
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AIChatChunk, AIChatSendOptions, AIChatSession, AIFunctionResult, SearchBase } from '../types';
+import { refineProductSearch, setAIProvider, setResponseLocale, streamMessageInChat } from './geminiService';
+import { DEFAULT_LOCALE_SETTINGS } from './i18nService';
+import { createMockAIProvider } from './mockAIProvider';
+
+async function* chunks(...items: AIChatChunk[]): AsyncGenerator<AIChatChunk> {
+  yield* items;
+}
+
+// A model that asks for another catalog search every time it is allowed to.
+const createSearchingChat = () => {
+  const sent: { message: string | AIFunctionResult[]; options?: AIChatSendOptions }[] = [];
+  const chat: AIChatSession = {
+    async sendMessageStream(message, _signal, options) {
+      sent.push({ message, options });
+      const round = sent.length;
+      return options?.allowTools === false
+        ? chunks({ text: 'Here is what I found.', functionCalls: [] })
+        : chunks({ text: `Searching ${round}... `, functionCalls: [{ id: `call-${round}`, name: 'searchCatalog', args: { itemType: 'jacket', target: 'similar' } }] });
+    },
+  };
+  return { chat, sent };
+};
+
+describe('streamMessageInChat', () => {
+  it('answers every tool call and turns tools off for the last round', async () => {
+    const { chat, sent } = createSearchingChat();
+
+    const reply = await streamMessageInChat(chat, 'show me jackets', () => {});
+
+    expect(sent.map(entry => entry.options?.allowTools)).toEqual([true, true, false]);
+    expect(sent[1].message).toMatchObject([{ id: 'call-1', name: 'searchCatalog' }]);
+    expect(sent[2].message).toMatchObject([{ id: 'call-2', name: 'searchCatalog' }]);
+    expect(reply.text).toBe('Searching 1...\n\nSearching 2...\n\nHere is what I found.');
+    expect(reply.products.length).toBeGreaterThan(0);
+  });
+});
+
+// A model that narrows the grid once, then confirms it.
+const createRefiningChat = (args: Record<string, unknown>) => {
+  const sent: (string | AIFunctionResult[])[] = [];
+  const chat: AIChatSession = {
+    async sendMessageStream(message) {
+      sent.push(message);
+      return sent.length === 1
+        ? chunks({ text: '', functionCalls: [{ id: 'call-1', name: 'refineSearch', args }] })
+        : chunks({ text: 'Done.', functionCalls: [] });
+    },
+  };
+  return { chat, sent };
+};
+
+const jackets: SearchBase = {
+  description: 'A jacket',
+  attributes: [{ category: 'Apparel', itemType: 'jacket', color: '', material: '', style: '' }],
+  complementaryItemTypes: [],
+};
+
+describe('price limits for a shopper paying in SAR', () => {
+  beforeEach(() => {
+    setResponseLocale({ locale: 'ar-SA', currency: 'SAR' });
+    setAIProvider(createMockAIProvider());
+  });
+
+  afterEach(() => {
+    setResponseLocale(DEFAULT_LOCALE_SETTINGS);
+  });
+
+  it('reads a chat price limit in the catalog currency and applies it', async () => {
+    const { chat } = createRefiningChat({ maxPrice: 70 });
+
+    const { constraintChange } = await streamMessageInChat(chat, 'jackets under 70 dollars', () => {});
+    const { similarProducts } = await refineProductSearch(jackets, constraintChange!.set);
+
+    expect(constraintChange?.set.maxPrice).toEqual({ amountMinor: 7000, currency: 'USD' });
+    expect(similarProducts.length).toBeGreaterThan(0);
+    expect(similarProducts.every(product => product.price.currency === 'USD' && product.price.amountMinor <= 7000)).toBe(true);
+  });
+
+  it('keeps a limit in another currency, but neither applies it nor claims to', async () => {
+    const { chat, sent } = createRefiningChat({ maxPrice: '€70' });
+
+    const { constraintChange } = await streamMessageInChat(chat, 'jackets under 70 euros', () => {});
+    const { similarProducts } = await refineProductSearch(jackets, constraintChange!.set);
+
+    expect(constraintChange?.set.maxPrice).toEqual({ amountMinor: 7000, currency: 'EUR' });
+    expect(sent[1]).toMatchObject([{ name: 'refineSearch', response: { notApplied: ['maxPrice'] } }]);
+    expect(similarProducts.some(product => product.price.amountMinor > 7000)).toBe(true);
+  });
+});
@@ -1,243 +1,728 @@
 
-import { GoogleGenAI, Chat, GenerateContentResponse, Part } from "@google/genai";
-import { GeminiAnalysisResponse, Product } from '../types';
+import {
+  AIChatChunk, AIChatSession, AIChatTurn, AIFunctionCall, AIFunctionResult, AIProvider, AIShopperContext, AIStructuredRequest, AnalysisMode,
+  CatalogProvider, CatalogRanking, ChatMessage, ChatReply, ConstraintChange, DetectedItem, GeminiAnalysisResponse, ImageResult, ItemProducts,
+  LocaleSettings, Look, LookSlot, Money, MultiProductComparison, Product, ProductAttributes, ProductComparison, ProductListKind, RankedPick, SearchBase,
+  SearchConstraints, StyleProfile, StyleProfileUpdate, UploadedImage, ValidationIssue, ValidationResult,
+} from '../types';
+import { createAIProvider, readAIConfigFromEnv } from './aiConfig';
+import { isCancellation, toAIError } from './aiErrors';
+import { createInMemoryCatalog } from './catalogService';
+import { DEFAULT_LOCALE_SETTINGS } from './i18nService';
+import { formatMoney } from './priceService';
+import {
+  parseJsonResponse, validateAttributes, validateConstraintChange, validateDetectedItems, validateImageAnalysis, validateMultiImageAnalysis,
+  validateMultiProductComparison, validateProductComparison, validateProducts, validateRanking, validateStyleProfileUpdate,
+  validateLookPlans, validateTextQueryAnalysis,
+} from './validationService';
+import { MAX_CHAT_HISTORY_BYTES, trimChatHistory } from './proxyAIProvider';
+import { streamWithRetries, withRetries } from './retryService';
+import { fitLookToBudget } from './lookService';
+import { describeConstraints, getUnappliedPriceKeys, mergeConstraintChanges } from './searchConstraintService';
+import { createEmptyStyleProfile, describeStyleProfile, mergeStyleProfileUpdates } from './styleProfileService';
+import { sampleCatalog } from '../data/sampleCatalog';
 
-const API_KEY = process.env.API_KEY;
+let aiProvider: AIProvider = createAIProvider(readAIConfigFromEnv());
 
-if (!API_KEY) {
-  console.error("API_KEY environment variable is not set.");
-  // In a real app, you might throw an error or have a fallback,
-  // but per instructions, we assume it's available.
-}
+// Swaps the model backend, e.g. for the offline mock in tests or a provider chosen at runtime.
+export const setAIProvider = (provider: AIProvider): void => {
+  aiProvider = provider;
+};
+
+export const getAIProvider = (): AIProvider => aiProvider;
+
+// Per-attempt time budgets. Image requests upload several hundred KB and give the model more to look at.
+const STRUCTURED_TIMEOUT_MS = 45_000;
+const CHAT_OPEN_TIMEOUT_MS = 30_000;
+const CHAT_IDLE_TIMEOUT_MS = 30_000; // Longest gap between chunks of a reply
 
-const ai = new GoogleGenAI({ apiKey: API_KEY || "MISSING_API_KEY" });
+/**
+ * Sends a structured request and validates the reply, retrying transient failures. Parsing and validation
+ * are part of each attempt, because a fresh generation usually fixes a malformed reply.
+ */
+const generateValidated = <T>(
+  request: AIStructuredRequest,
+  validate: (json: unknown) => ValidationResult<T>,
+  signal?: AbortSignal
+): Promise<ValidationResult<T>> =>
+  withRetries(
+    async attemptSignal => validate(parseJsonResponse(await aiProvider.generateStructured(request, attemptSignal))),
+    { timeoutMs: STRUCTURED_TIMEOUT_MS, signal }
+  );
 
-const sanitizeAndParseJson = <T,>(jsonString: string): T | null => {
-  let saneJsonString = jsonString.trim();
-  const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s; // Matches ```json ... ``` or ``` ... ```
-  const match = saneJsonString.match(fenceRegex);
-  if (match && match[2]) {
-    saneJsonString = match[2].trim(); // Use the content within the fences
+const reportValidationIssues = (context: string, issues: ValidationIssue[]): void => {
+  if (issues.length > 0) {
+    console.warn(`${context}: ${issues.length} validation issue(s)`, issues);
   }
+};
 
-  // Regex 1: Remove lines that are entirely 'identifier: []' or 'identifier: {}' (potentially with surrounding whitespace or a trailing comma)
-  saneJsonString = saneJsonString.replace(/^\s*([a-zA-Z_][a-zA-Z0-9_]*):\s*(\[\]|\{\})\s*,?\s*$/gm, '');
-
-  // Regex 2: Remove unquoted junk text prepended to a quoted string on a line.
-  saneJsonString = saneJsonString.replace(/^(\s*)([a-zA-Z][a-zA-Z0-9\s_.-]*[a-zA-Z0-9]|[a-zA-Z])\s+(")/gm, '$1$3');
-  
-  // Filter out lines that are likely plain text junk interspersed in the JSON
-  saneJsonString = saneJsonString.split('\n').filter(line => {
-    const trimmedLine = line.trim();
-    if (trimmedLine.length === 0) return true; // Keep empty lines for now, master trim handles later
-    
-    // Keep lines that are clearly part of JSON structure or syntax
-    if (/^[\{\}\[\],"]/.test(trimmedLine)) return true; // Starts with typical JSON structural char or quote
-    if (/[\{\}\[\],]$/.test(trimmedLine)) return true;  // Ends with typical JSON structural char or comma
-    if (trimmedLine.includes('":"') && trimmedLine.indexOf('"') < trimmedLine.lastIndexOf('"')) return true; // Contains "key":"value" like pattern
-
-    // If the line contains alphabetic characters but didn't match above criteria, it's likely junk
-    if (/[a-zA-Z]/.test(trimmedLine)) {
-        // Further check: if it's just a number or boolean, it might be a valid JSON value on its own line (less common but possible)
-        if (/^(true|false|-?\d+(\.\d+)?([eE][+-]?\d+)?)$/.test(trimmedLine)) {
-            return true;
-        }
-        return false; // Discard as junk text
-    }
-    
-    return true; // Keep other lines (e.g., lines with only numbers, or purely structural lines missed by above)
-  }).join('\n');
+let catalogProvider: CatalogProvider = createInMemoryCatalog(sampleCatalog);
 
-  // After potentially removing lines, there might be multiple consecutive blank lines or leading/trailing newlines.
-  saneJsonString = saneJsonString.replace(/\n\s*\n/g, '\n').trim();
+// Lets deployments (and tests) point suggestions at their own inventory instead of the demo catalog.
+export const setCatalogProvider = (provider: CatalogProvider): void => {
+  catalogProvider = provider;
+};
 
+let styleProfile: StyleProfile = createEmptyStyleProfile();
 
-  try {
-    // Attempt to parse the cleaned string directly
-    return JSON.parse(saneJsonString) as T;
-  } catch (e) {
-    // console.warn("Initial JSON.parse failed:", e, "Processed string:", saneJsonString, "Original raw string:", jsonString);
-    
-    if (saneJsonString.length === 0) {
-      // console.error("String is empty after initial cleaning, cannot parse.");
-      return null;
-    }
+// The app keeps this in sync with the saved profile. Chat sessions read it when they start.
+export const setStyleProfile = (profile: StyleProfile): void => {
+  styleProfile = profile;
+};
 
-    // Fallback: Try to find the first complete JSON object or array using brace/bracket counting
-    let openCount = 0;
-    let endIndex = -1;
-    let inString = false;
-    let escapeNextChar = false; 
-
-    const firstChar = saneJsonString.trimStart()[0]; // Use trimStart to handle leading whitespace before first char
-    const expectedOpen = firstChar === '{' ? '{' : firstChar === '[' ? '[' : null;
-    const expectedClose = firstChar === '{' ? '}' : firstChar === '[' ? ']' : null;
-
-    if (expectedOpen) { 
-      for (let i = 0; i < saneJsonString.length; i++) {
-        const char = saneJsonString[i];
-        if (escapeNextChar) {
-          escapeNextChar = false;
-          continue;
-        }
-        if (char === '\\') {
-          escapeNextChar = true;
-          continue;
-        }
-        if (char === '"') {
-          inString = !inString; 
-        }
+let responseLocale: LocaleSettings = DEFAULT_LOCALE_SETTINGS;
 
-        if (!inString) { 
-          if (char === expectedOpen) {
-            openCount++;
-          } else if (char === expectedClose) {
-            openCount--;
-          }
-        }
+// The app keeps this in sync with the shopper's language and currency. Chat sessions read it when they start.
+export const setResponseLocale = (settings: LocaleSettings): void => {
+  responseLocale = settings;
+};
 
-        if (openCount === 0 && i >= 0) {
-            // Check if we actually encountered an opening bracket/brace that initiated counting
-            let initialStructuralCharFound = false;
-            for(let j=0; j<=i; j++) {
-                if(saneJsonString[j] === expectedOpen) {
-                    initialStructuralCharFound = true;
-                    break;
-                }
-                if(saneJsonString[j] !== ' ' && saneJsonString[j] !== '\n' && saneJsonString[j] !== '\r' && saneJsonString[j] !== '\t') {
-                    // some other non-whitespace char before the first expectedOpen
-                    break;
-                }
-            }
-
-            if (initialStructuralCharFound) {
-                 endIndex = i + 1; 
-                 break;
-            }
-        }
-      }
+// Sent with every request; the server words the prompt around it.
+const currentShopper = (): AIShopperContext => ({ locale: responseLocale, styleProfile, catalogCurrency: catalogProvider.currency });
 
-      if (endIndex !== -1) {
-        const potentialJson = saneJsonString.substring(0, endIndex);
-        try {
-          // console.log("Attempting to parse extracted JSON from brace/bracket counting fallback:", potentialJson);
-          return JSON.parse(potentialJson) as T;
-        } catch (e2) {
-          // console.error("Fallback JSON.parse (brace/bracket counting) failed:", e2, "Substring was:", potentialJson);
-        }
-      } else {
-        // console.warn("Brace/bracket counting did not find a complete JSON structure. String might be malformed or severely truncated.");
-      }
+/** The currency catalog prices are listed in, and so the one price limits and look budgets are set in. */
+export const getCatalogCurrency = (): string => catalogProvider.currency;
+
+// Keeps only picks that exist in the candidate list, so the model can order items but never invent them.
+const applyPicks = (picks: RankedPick[], candidates: Product[], limit: number): Product[] => {
+  const byId = new Map(candidates.map(p => [p.id, p]));
+  const chosen = picks
+    .filter(pick => byId.has(pick.id))
+    .map(pick => ({ ...byId.get(pick.id)!, matchReason: pick.reason }));
+  const unique = chosen.filter((p, index) => chosen.findIndex(other => other.id === p.id) === index);
+  return (unique.length > 0 ? unique : candidates).slice(0, limit);
+};
+
+const rankCatalogMatches = async (
+  analysis: string,
+  similarCandidates: Product[],
+  complementaryCandidates: Product[],
+  userPrompt?: string,
+  signal?: AbortSignal
+): Promise<CatalogRanking> => {
+  const { value, issues } = await generateValidated({
+    task: 'ranking',
+    shopper: currentShopper(),
+    analysis,
+    userPrompt,
+    similar: similarCandidates,
+    complementary: complementaryCandidates,
+  }, validateRanking, signal);
+  reportValidationIssues("Catalog ranking", issues);
+  return value;
+};
+
+interface CatalogMatches {
+  similarProducts: Product[];
+  complementaryProducts: Product[];
+  issues: ValidationIssue[];
+}
+
+interface CatalogMatchOptions {
+  userPrompt?: string;
+  limits?: { similar: number; complementary: number };
+  constraints?: SearchConstraints;
+  signal?: AbortSignal;
+}
+
+// Splits chat constraints into soft attribute overrides (which steer scoring) and hard catalog filters.
+// Price bounds the catalog can't apply are left out; the chips show them as not applied.
+const toCatalogConstraints = (constraints: SearchConstraints) => {
+  const unapplied = getUnappliedPriceKeys(constraints, catalogProvider.currency);
+  const attributes: Partial<ProductAttributes> = {};
+  const required: Partial<ProductAttributes> = {};
+  (['color', 'material', 'style', 'category', 'itemType'] as const).forEach(key => {
+    const value = constraints[key];
+    if (!value) return;
+    attributes[key] = value;
+    // Style is too fuzzy to filter on ("smart casual" vs "casual"); it only changes the ranking.
+    if (key !== 'style') required[key] = value;
+  });
+  return {
+    attributes,
+    required,
+    minPrice: unapplied.includes('minPrice') ? undefined : constraints.minPrice,
+    maxPrice: unapplied.includes('maxPrice') ? undefined : constraints.maxPrice,
+  };
+};
+
+// The catalog decides what exists; Gemini only ranks and explains the candidates.
+// Third-party providers are validated like any other external data.
+const findCatalogMatches = async (
+  analysis: string,
+  itemAttributes: ProductAttributes[],
+  complementaryItemTypes: string[],
+  { userPrompt, limits = { similar: 5, complementary: 3 }, constraints = {}, signal }: CatalogMatchOptions = {}
+): Promise<CatalogMatches> => {
+  const issues: ValidationIssue[] = [];
+  const similarCandidates: Product[] = [];
+  const perItemLimit = itemAttributes.length > 1 ? 4 : 10;
+  const { attributes: overrides, required, minPrice, maxPrice } = toCatalogConstraints(constraints);
+  const constrainedAttributes = itemAttributes.map(attributes => ({ ...attributes, ...overrides }));
+  for (const [index, attributes] of constrainedAttributes.entries()) {
+    const result = validateProducts(await catalogProvider.search({
+      attributes,
+      requiredAttributes: required,
+      minPrice,
+      maxPrice,
+      excludeIds: similarCandidates.map(p => p.id),
+      limit: perItemLimit,
+    }), `catalog.similar[${index}]`);
+    similarCandidates.push(...result.value);
+    issues.push(...result.issues);
+  }
+
+  const ownItemTypes = itemAttributes.map(attributes => attributes.itemType).filter(Boolean);
+  const complementaryResult = limits.complementary === 0 ? { value: [], issues: [] } : validateProducts(await catalogProvider.search({
+    attributes: { style: constrainedAttributes[0]?.style, color: constrainedAttributes[0]?.color },
+    itemTypes: complementaryItemTypes,
+    excludeItemTypes: ownItemTypes,
+    excludeIds: similarCandidates.map(p => p.id),
+    maxPrice,
+    limit: 8,
+  }), 'catalog.complementary');
+  const complementaryCandidates: Product[] = complementaryResult.value;
+  issues.push(...complementaryResult.issues);
+
+  let ranking: CatalogRanking = { similar: [], complementary: [] };
+  if (similarCandidates.length > 0 || complementaryCandidates.length > 0) {
+    try {
+      const constraintText = describeConstraints(constraints);
+      const request = [userPrompt, constraintText && `The shopper's current constraints: ${constraintText}`].filter(Boolean).join('. ');
+      ranking = await rankCatalogMatches(analysis, similarCandidates, complementaryCandidates, request || undefined, signal);
+    } catch (rankError) {
+      if (isCancellation(rankError)) throw rankError;
+      // Ranking is a refinement; fall back to the catalog's own match order.
+      console.warn("Ranking catalog matches with Gemini failed:", rankError);
     }
-    
-    // console.error("Failed to parse JSON response after all fallbacks. Initial error:", (e as Error).message, "Last processed string:", saneJsonString, "Original raw string:", jsonString);
-    return null;
   }
-};
 
+  return {
+    similarProducts: applyPicks(ranking.similar, similarCandidates, limits.similar),
+    complementaryProducts: applyPicks(ranking.complementary, complementaryCandidates, limits.complementary),
+    issues,
+  };
+};
 
+/** Analyzes one image and suggests catalog products. Failures are thrown as an AIError (see aiErrors.ts). */
 export const analyzeImageAndSuggestProducts = async (
   imageBase64: string,
   imageType: string,
-  userPrompt?: string
+  userPrompt?: string,
+  signal?: AbortSignal
 ): Promise<GeminiAnalysisResponse> => {
   try {
-    const model = 'gemini-2.5-flash-preview-04-17'; 
-    
-    const imagePart: Part = {
-      inlineData: {
-        mimeType: imageType, 
-        data: imageBase64,
-      },
+    const facets = await catalogProvider.getFacets();
+
+    const { value: parsedData, issues } = await generateValidated({
+      task: 'imageAnalysis',
+      shopper: currentShopper(),
+      image: { base64: imageBase64, mimeType: imageType },
+      userPrompt,
+      facets,
+    }, validateImageAnalysis, signal);
+
+    const attributes = parsedData.attributes;
+    const altTexts = [parsedData.altText ?? ''];
+    if (!attributes) {
+      reportValidationIssues("Image analysis", issues);
+      return { analysis: parsedData.analysis, altTexts, similarProducts: [], complementaryProducts: [], validationIssues: issues };
+    }
+
+    const matches = await findCatalogMatches(parsedData.analysis, [attributes], parsedData.complementaryItemTypes, { userPrompt, signal });
+    issues.push(...matches.issues);
+
+    reportValidationIssues("Image analysis", issues);
+    return {
+      analysis: parsedData.analysis,
+      altTexts,
+      attributes,
+      searchBase: { description: parsedData.analysis, attributes: [attributes], complementaryItemTypes: parsedData.complementaryItemTypes },
+      similarProducts: matches.similarProducts,
+      complementaryProducts: matches.complementaryProducts,
+      validationIssues: issues,
     };
+  } catch (error) {
+    throw toAIError(error);
+  }
+};
+
+/**
+ * Suggests catalog products from a typed or spoken request instead of a photo. A price range in the request
+ * comes back as `constraints`, so the app can show it as a removable refinement. Failures are thrown as an AIError.
+ */
+export const analyzeTextQueryAndSuggestProducts = async (query: string, signal?: AbortSignal): Promise<GeminiAnalysisResponse> => {
+  try {
+    const facets = await catalogProvider.getFacets();
+    const { value: parsedData, issues } = await generateValidated({
+      task: 'textQuery',
+      shopper: currentShopper(),
+      query,
+      facets,
+    }, json => validateTextQueryAnalysis(json, catalogProvider.currency), signal);
+
+    const constraints: SearchConstraints = {};
+    if (parsedData.minPrice !== undefined) constraints.minPrice = parsedData.minPrice;
+    if (parsedData.maxPrice !== undefined) constraints.maxPrice = parsedData.maxPrice;
 
-    const textPrompt = `
-      You are an AI Shopping Assistant. Analyze the provided image.
-      1. Briefly describe the key visual features of the main item(s) in the image (e.g., category, style, color, texture, material, any discernible patterns or brand-like attributes). Limit this to 2-3 sentences.
-      2. Based on this analysis ${userPrompt ? `and the user's specific request: "${userPrompt}"` : ''}, suggest 3-5 visually similar products and 2-3 complementary products that might be found on an e-commerce store.
-      3. For each suggested product, provide:
-          - A unique "id" (e.g., "sim1", "comp1").
-          - A plausible "name".
-          - A short "description" (1-2 sentences).
-          - An estimated "price" (e.g., "$49.99").
-          - A placeholder "imageUrl" using the format: https://picsum.photos/200/300?random=N (ensure N is a unique integer for each product, e.g., 1, 2, 3...).
-          - A general "category" (e.g., "Apparel", "Home Decor", "Electronics", "Accessories").
-
-      Return your response as a single, VALID JSON object with the following structure:
-      {
-        "analysis": "<Your description of image features>",
-        "similarProducts": [
-          { "id": "sim1", "name": "Classic Blue Denim Jacket", "description": "A timeless denim jacket perfect for casual wear.", "price": "$59.99", "imageUrl": "https://picsum.photos/200/300?random=1", "category": "Apparel" }
-        ],
-        "complementaryProducts": [
-          { "id": "comp1", "name": "White Graphic Tee", "description": "Comfortable cotton tee to wear under the jacket.", "price": "$19.99", "imageUrl": "https://picsum.photos/200/300?random=101", "category": "Apparel" }
-        ]
+    const attributes = parsedData.attributes;
+    if (!attributes) {
+      reportValidationIssues("Text query analysis", issues);
+      return { analysis: parsedData.analysis, similarProducts: [], complementaryProducts: [], constraints, validationIssues: issues };
+    }
+
+    const matches = await findCatalogMatches(
+      parsedData.analysis,
+      [attributes],
+      parsedData.complementaryItemTypes,
+      { userPrompt: query, constraints, signal }
+    );
+    issues.push(...matches.issues);
+
+    reportValidationIssues("Text query analysis", issues);
+    return {
+      analysis: parsedData.analysis,
+      attributes,
+      searchBase: { description: parsedData.analysis, attributes: [attributes], complementaryItemTypes: parsedData.complementaryItemTypes },
+      similarProducts: matches.similarProducts,
+      complementaryProducts: matches.complementaryProducts,
+      constraints,
+      validationIssues: issues,
+    };
+  } catch (error) {
+    throw toAIError(error);
+  }
+};
+
+/**
+ * Analyzes several images in one request. In 'outfit' mode they are treated as a single look and
+ * complementary items fill the gaps; in 'compare' mode each image gets its own matches plus a comparison.
+ */
+export const analyzeImagesAndSuggestProducts = async (
+  images: UploadedImage[],
+  mode: AnalysisMode,
+  userPrompt?: string,
+  signal?: AbortSignal
+): Promise<GeminiAnalysisResponse> => {
+  if (images.length === 1) {
+    return analyzeImageAndSuggestProducts(images[0].base64, images[0].mimeType, userPrompt, signal);
+  }
+  try {
+    const facets = await catalogProvider.getFacets();
+    const { value: parsedData, issues } = await generateValidated({
+      task: 'multiImageAnalysis',
+      shopper: currentShopper(),
+      images: images.map(({ base64, mimeType }) => ({ base64, mimeType })),
+      mode,
+      userPrompt,
+      facets,
+    }, json => validateMultiImageAnalysis(json, images.length), signal);
+    const recognisedItems = parsedData.items.filter(item => item.attributes);
+
+    let similarProducts: Product[] = [];
+    let complementaryProducts: Product[] = [];
+    const imageResults: ImageResult[] = [];
+
+    if (mode === 'outfit') {
+      const matches = await findCatalogMatches(
+        parsedData.analysis,
+        recognisedItems.map(item => item.attributes!),
+        parsedData.complementaryItemTypes,
+        { userPrompt, limits: { similar: 6, complementary: 4 }, signal }
+      );
+      issues.push(...matches.issues);
+      similarProducts = matches.similarProducts;
+      complementaryProducts = matches.complementaryProducts;
+      parsedData.items.forEach(item => imageResults.push({ ...item, similarProducts: [] }));
+    } else {
+      for (const item of parsedData.items) {
+        if (!item.attributes) {
+          imageResults.push({ ...item, similarProducts: [] });
+          continue;
+        }
+        const matches = await findCatalogMatches(item.analysis, [item.attributes], [], { userPrompt, limits: { similar: 3, complementary: 0 }, signal });
+        issues.push(...matches.issues);
+        imageResults.push({ ...item, similarProducts: matches.similarProducts });
+        const known = new Set(similarProducts.map(p => p.id));
+        similarProducts.push(...matches.similarProducts.filter(p => !known.has(p.id)));
       }
-      Ensure the JSON is perfectly valid and complete. All keys and string values must be in double quotes. Do NOT include any extraneous text, comments, or unquoted keys. Do not include markdown like \`\`\`json.
-      If the image is unclear or not product-related, state that in the analysis and provide empty arrays for products.
-      ${userPrompt ? `Focus on fulfilling the user's request: "${userPrompt}".` : ''}
-    `;
-
-    const contents = { parts: [imagePart, { text: textPrompt }] };
-
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: model,
-      contents: contents,
-      config: {
-        responseMimeType: "application/json",
+      if (recognisedItems.length > 0) {
+        const shared = await findCatalogMatches(
+          parsedData.analysis,
+          [],
+          parsedData.complementaryItemTypes,
+          { userPrompt, limits: { similar: 0, complementary: 3 }, signal }
+        );
+        issues.push(...shared.issues);
+        complementaryProducts = shared.complementaryProducts;
       }
-    });
+    }
 
-    const rawJson = response.text;
-    // console.log("Raw response from Gemini:", rawJson); // For debugging
-    const parsedData = sanitizeAndParseJson<GeminiAnalysisResponse>(rawJson);
+    reportValidationIssues("Multi-image analysis", issues);
+    return {
+      analysis: parsedData.analysis,
+      attributes: recognisedItems[0]?.attributes,
+      searchBase: recognisedItems.length > 0 ? {
+        description: parsedData.analysis,
+        attributes: recognisedItems.map(item => item.attributes!),
+        complementaryItemTypes: parsedData.complementaryItemTypes,
+      } : undefined,
+      similarProducts,
+      complementaryProducts,
+      imageResults,
+      altTexts: images.map((_, index) => parsedData.items.find(item => item.imageIndex === index)?.altText ?? ''),
+      comparison: parsedData.comparison,
+      validationIssues: issues,
+    };
+  } catch (error) {
+    throw toAIError(error);
+  }
+};
 
-    if (!parsedData) {
-      console.error("sanitizeAndParseJson returned null. Raw response from Gemini was:", rawJson);
-      throw new Error("Failed to parse Gemini response or response was empty.");
+/**
+ * Finds the separate shoppable items in a photo with their bounding boxes. Detection is a refinement on
+ * top of the whole-photo analysis, so failures are logged and reported as "nothing detected".
+ */
+export const detectItemsInImage = async (imageBase64: string, imageType: string, signal?: AbortSignal): Promise<DetectedItem[]> => {
+  try {
+    const facets = await catalogProvider.getFacets();
+    const { value, issues } = await generateValidated({
+      task: 'itemDetection',
+      shopper: currentShopper(),
+      image: { base64: imageBase64, mimeType: imageType },
+      facets,
+    }, validateDetectedItems, signal);
+    reportValidationIssues("Item detection", issues);
+    return value;
+  } catch (error) {
+    if (!isCancellation(error)) {
+      console.warn("Detecting items with Gemini failed:", error);
     }
-    
-    // Ensure arrays exist even if Gemini omits them for empty results
-    parsedData.similarProducts = parsedData.similarProducts || [];
-    parsedData.complementaryProducts = parsedData.complementaryProducts || [];
-    
-    return parsedData;
+    return [];
+  }
+};
 
-  } catch (error) {
-    console.error("Error analyzing image with Gemini:", error);
-    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred during image analysis.";
-    // Return a structured error response that the UI can handle
+/** Finds similar and complementary catalog products for just one detected item. */
+export const suggestProductsForItem = async (
+  item: DetectedItem,
+  userPrompt?: string,
+  signal?: AbortSignal
+): Promise<ItemProducts & { validationIssues: ValidationIssue[] }> => {
+  const base = toSearchBase(item);
+  const matches = await findCatalogMatches(base.description, base.attributes, base.complementaryItemTypes, { userPrompt, signal });
+  reportValidationIssues(`Item search (${item.label})`, matches.issues);
+  return {
+    similarProducts: matches.similarProducts,
+    complementaryProducts: matches.complementaryProducts,
+    validationIssues: matches.issues,
+  };
+};
+
+/** The search a detected item's products come from, so chat refinements can re-run it. */
+export const toSearchBase = (item: DetectedItem): SearchBase => ({
+  description: item.label,
+  attributes: [item.attributes ?? { category: '', itemType: item.label, color: '', material: '', style: '' }],
+  complementaryItemTypes: item.complementaryItemTypes,
+});
+
+/**
+ * Re-runs the product search behind the grid with the shopper's chat constraints applied.
+ * Failures are thrown as an AIError.
+ */
+export const refineProductSearch = async (
+  base: SearchBase,
+  constraints: SearchConstraints,
+  signal?: AbortSignal
+): Promise<ItemProducts & { validationIssues: ValidationIssue[] }> => {
+  try {
+    // With nothing recognised in the upload there is no item to refine, but a category swap still has something to find.
+    const attributes = base.attributes.length > 0 ? base.attributes : [{ category: '', itemType: '', color: '', material: '', style: '' }];
+    const matches = await findCatalogMatches(base.description, attributes, base.complementaryItemTypes, { constraints, signal });
+    reportValidationIssues("Refined search", matches.issues);
     return {
-      analysis: `Error during analysis: ${errorMessage}. Please try a different image or prompt.`,
-      similarProducts: [],
-      complementaryProducts: [],
+      similarProducts: matches.similarProducts,
+      complementaryProducts: matches.complementaryProducts,
+      validationIssues: matches.issues,
     };
+  } catch (error) {
+    throw toAIError(error);
   }
 };
 
-export const startChatSession = (): Chat => {
-  return ai.chats.create({
-    model: 'gemini-2.5-flash-preview-04-17',
-    config: {
-      systemInstruction: `You are ShopSmarter, a friendly and helpful AI personal shopping assistant. 
-      Your goal is to help users find products based on their uploaded images and subsequent requests. 
-      Be concise and focus on product recommendations and style advice. 
-      If the user asks for modifications or has new inputs, try to incorporate them into your suggestions.
-      If asked for new products, try to provide them in a similar structure if possible (name, description, price, category, image), but prioritize a conversational answer.
-      You can use placeholder image URLs like https://picsum.photos/200/300?random=N.
-      Do not attempt to re-analyze the original image unless specifically asked or provided with a new one. Focus on the ongoing conversation and previous product suggestions.
-      Always ensure your responses are directly usable and avoid meta-comments about your process unless specifically relevant to clarifying a user's query.`,
-    },
+/** Explains how a catalog product compares with the item described in the image analysis. */
+export const compareProductWithUpload = async (product: Product, analyzedText: string, signal?: AbortSignal): Promise<ProductComparison> => {
+  const { value, issues } = await generateValidated({
+    task: 'productComparison',
+    shopper: currentShopper(),
+    product,
+    analyzedText,
+  }, validateProductComparison, signal);
+  reportValidationIssues("Product comparison", issues);
+  return value;
+};
+
+/**
+ * Extracts comparable attributes for 2-4 products and gives a verdict on which best fits the shopper.
+ * `shopperNeeds` are the shopper's own words (e.g. their chat messages), quoted to the model as given.
+ */
+export const compareProducts = async (
+  products: Product[],
+  analyzedText: string | null,
+  shopperNeeds: string[] = [],
+  signal?: AbortSignal
+): Promise<MultiProductComparison> => {
+  const productIds = products.map(p => p.id);
+  const { value, issues } = await generateValidated({
+    task: 'multiProductComparison',
+    shopper: currentShopper(),
+    products,
+    analyzedText,
+    shopperNeeds,
+  }, json => validateMultiProductComparison(json, productIds), signal);
+  reportValidationIssues("Multi-product comparison", issues);
+  return value;
+};
+
+const LOOK_SLOT_CANDIDATES = 6;
+
+/**
+ * Builds 2-3 complete-the-look sets around the analysed item. The model plans the slots; the catalog fills
+ * each one with candidates, and the shopper's own item (the similar products) anchors every look. Each
+ * look starts on its best matches brought within `budget`. Failures are thrown as an AIError.
+ */
+export const generateLooks = async (
+  result: Pick<GeminiAnalysisResponse, 'analysis' | 'attributes' | 'similarProducts'>,
+  budget: Money | null,
+  signal?: AbortSignal
+): Promise<{ looks: Look[]; validationIssues: ValidationIssue[] }> => {
+  try {
+    const facets = await catalogProvider.getFacets();
+    const ownItemType = result.attributes?.itemType;
+    // Similar results can stray into other item types; only true alternatives belong in the shopper's own slot.
+    const sameType = result.similarProducts.filter(p => p.attributes?.itemType === ownItemType);
+    const anchor = ownItemType && sameType.length > 0 ? sameType : result.similarProducts;
+    const { value: plans, issues } = await generateValidated({
+      task: 'lookPlanning',
+      shopper: currentShopper(),
+      analysis: result.analysis,
+      ...(result.attributes ? { attributes: result.attributes } : {}),
+      subjectIds: anchor.map(p => p.id),
+      itemTypes: facets.itemTypes,
+      budget,
+    }, validateLookPlans, signal);
+
+    const style = result.attributes?.style;
+    const color = result.attributes?.color;
+    const ownItemTypes = ownItemType ? [ownItemType] : [];
+    const looks: Look[] = [];
+    for (const [lookIndex, plan] of plans.entries()) {
+      const slots: LookSlot[] = anchor.length > 0
+        ? [{ name: ownItemType ?? '', itemTypes: ownItemTypes, candidates: anchor, selectedId: null, isAnchor: true }]
+        : [];
+      const usedIds = new Set(anchor.map(p => p.id));
+      for (const [slotIndex, slot] of plan.slots.entries()) {
+        const candidates = validateProducts(await catalogProvider.search({
+          attributes: { style, color },
+          itemTypes: slot.itemTypes,
+          excludeItemTypes: ownItemTypes,
+          excludeIds: Array.from(usedIds),
+          limit: LOOK_SLOT_CANDIDATES,
+        }), `looks[${lookIndex}].slots[${slotIndex}]`);
+        issues.push(...candidates.issues);
+        if (candidates.value.length === 0) continue;
+        candidates.value.forEach(p => usedIds.add(p.id));
+        slots.push({ name: slot.name, itemTypes: slot.itemTypes, candidates: candidates.value, selectedId: null });
+      }
+      // A look that is only the shopper's own item isn't a look.
+      if (slots.filter(slot => !slot.isAnchor).length === 0) continue;
+      looks.push(fitLookToBudget({ id: `look-${lookIndex}`, name: plan.name, description: plan.description, slots }, budget));
+    }
+
+    reportValidationIssues("Look planning", issues);
+    return { looks, validationIssues: issues };
+  } catch (error) {
+    throw toAIError(error);
+  }
+};
+
+// Bounds how many search/answer round trips a single chat turn may take. After the last one the model
+// gets the results with tools switched off, so every call it made is answered and it has to reply in text.
+const MAX_TOOL_ROUNDS = 2;
+
+// Between the text of one round and the next, e.g. "Let me check the catalog." and the answer.
+const ROUND_SEPARATOR = '\n\n';
+
+// The API server keeps this many recent turns of a restored chat; sending more only makes the request bigger.
+const MAX_HISTORY_TURNS = 100;
+
+// Rebuilds chat history from a saved transcript. History must start with a user turn and alternate
+// roles, so leading AI greetings are skipped and consecutive turns from one side are merged. Only the
+// most recent turns are kept, as many as fit in a chat request.
+const toChatHistory = (messages: ChatMessage[]): AIChatTurn[] => {
+  const history: AIChatTurn[] = [];
+  messages.forEach(msg => {
+    const role = msg.sender === 'user' ? 'user' : 'model';
+    if (history.length === 0 && role === 'model') return;
+    let text = msg.text;
+    if (msg.products && msg.products.length > 0) {
+      text += `\n[Products shown: ${msg.products.map(p => `${p.name} (${p.id})`).join(', ')}]`;
+    }
+    const last = history[history.length - 1];
+    if (last && last.role === role) {
+      last.text += `\n${text}`;
+    } else {
+      history.push({ role, text });
+    }
   });
+  return trimChatHistory(history.slice(-MAX_HISTORY_TURNS), MAX_CHAT_HISTORY_BYTES);
+};
+
+export const startChatSession = (previousMessages: ChatMessage[] = []): AIChatSession =>
+  aiProvider.createChat({ topic: 'shopping', shopper: currentShopper(), history: toChatHistory(previousMessages) });
+
+/**
+ * Starts a chat scoped to a single product, so follow-up questions can't drift to other items.
+ * It has no catalog tools; answers come from the product details and general knowledge.
+ */
+export const startProductChatSession = (product: Product, analyzedText?: string | null): AIChatSession =>
+  aiProvider.createChat({ topic: 'product', product, analyzedText, shopper: currentShopper() });
+
+const runCatalogSearch = async (call: AIFunctionCall): Promise<{ products: Product[]; target: ProductListKind; result: AIFunctionResult }> => {
+  const args = call.args;
+  const target: ProductListKind = args.target === 'complementary' ? 'complementary' : 'similar';
+  const attributes = validateAttributes(args, 'searchCatalog.args', []) || {};
+  const { value: products, issues } = validateProducts(
+    await catalogProvider.search({ attributes, limit: 4 }),
+    'searchCatalog.results'
+  );
+  reportValidationIssues("Chat catalog search", issues);
+  return {
+    products,
+    target,
+    result: {
+      id: call.id,
+      name: call.name,
+      response: {
+        products: products.map(p => ({
+          id: p.id,
+          name: p.name,
+          description: p.description,
+          price: formatMoney(p.price, 'en-US'),
+          category: p.category,
+          attributes: p.attributes,
+        })),
+      },
+    },
+  };
 };
 
-export const sendMessageInChat = async (chat: Chat, message: string): Promise<string> => {
+// The refinement itself runs in the app, which owns the grid; the model only needs to know it was applied,
+// and which price limits weren't because they are in another currency than the catalog's.
+const readRefinement = (call: AIFunctionCall): { change: ConstraintChange; result: AIFunctionResult } => {
+  const { currency } = catalogProvider;
+  const { value: change, issues } = validateConstraintChange(call.args, 'refineSearch.args', currency);
+  reportValidationIssues("Chat search refinement", issues);
+  const applied = describeConstraints(change.set);
+  const unapplied = getUnappliedPriceKeys(change.set, currency);
+  return {
+    change,
+    result: {
+      id: call.id,
+      name: call.name,
+      response: {
+        applied: applied || 'none',
+        cleared: change.clear,
+        ...(unapplied.length > 0 ? { notApplied: unapplied, reason: `Catalog prices are in ${currency}; price limits only apply in ${currency}.` } : {}),
+        note: 'The product grid is refreshing with these constraints.',
+      },
+    },
+  };
+};
+
+// Nothing is saved here: the app asks the shopper to confirm the proposed profile change first.
+const readPreference = (call: AIFunctionCall): { profileUpdate: StyleProfileUpdate; result: AIFunctionResult } => {
+  const { value: profileUpdate, issues } = validateStyleProfileUpdate(call.args, 'rememberPreference.args', responseLocale.currency);
+  reportValidationIssues("Chat preference", issues);
+  return {
+    profileUpdate,
+    result: {
+      id: call.id,
+      name: call.name,
+      response: {
+        proposed: describeStyleProfile(profileUpdate),
+        note: 'The shopper is asked to confirm before this is saved to their profile.',
+      },
+    },
+  };
+};
+
+/**
+ * Streams the reply to a chat message, calling `onUpdate` with the accumulated reply as chunks arrive.
+ * Catalog searches the model requests are run in between, and their results attached to the reply;
+ * search refinements are collected into `constraintChange` for the app to apply to the product grid, and
+ * preferences to remember into `profileUpdate` for the shopper to confirm.
+ * Aborting `signal` stops the stream and resolves with the partial reply received so far. Other failures
+ * are thrown as an AIError; opening each stream is retried, but a reply that fails or stalls midway is not resent.
+ */
+export const streamMessageInChat = async (
+  chat: AIChatSession,
+  message: string,
+  onUpdate: (replySoFar: ChatReply) => void,
+  signal?: AbortSignal
+): Promise<ChatReply> => {
+  const reply: ChatReply = { text: '', products: [] };
   try {
-    const response: GenerateContentResponse = await chat.sendMessage({ message: message });
-    return response.text;
+    let nextMessage: string | AIFunctionResult[] = message;
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const outgoing = nextMessage;
+      const allowTools = round < MAX_TOOL_ROUNDS;
+      const stream: AsyncIterable<AIChatChunk> = await streamWithRetries(
+        attemptSignal => chat.sendMessageStream(outgoing, attemptSignal, { allowTools }),
+        { timeoutMs: CHAT_OPEN_TIMEOUT_MS, idleTimeoutMs: CHAT_IDLE_TIMEOUT_MS, signal }
+      );
+      const calls: AIFunctionCall[] = [];
+      let separatorPending = reply.text.trim().length > 0;
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        if (!separatorPending) {
+          reply.text += chunk.text;
+        } else if (chunk.text.trim()) {
+          reply.text = reply.text.trimEnd() + ROUND_SEPARATOR + chunk.text.trimStart();
+          separatorPending = false;
+        }
+        calls.push(...chunk.functionCalls);
+        onUpdate({ ...reply });
+      }
+      // A provider that ignores allowTools can't get answers now; its calls are dropped with the turn.
+      if (signal?.aborted || calls.length === 0 || !allowTools) break;
+
+      const results = await Promise.all(calls.map(call => {
+        if (call.name === 'refineSearch') return readRefinement(call);
+        if (call.name === 'rememberPreference') return readPreference(call);
+        return runCatalogSearch(call);
+      }));
+      results.forEach(result => {
+        if ('change' in result) {
+          reply.constraintChange = mergeConstraintChanges(reply.constraintChange, result.change);
+          return;
+        }
+        if ('profileUpdate' in result) {
+          reply.profileUpdate = mergeStyleProfileUpdates(reply.profileUpdate, result.profileUpdate);
+          return;
+        }
+        const known = new Set(reply.products.map(p => p.id));
+        reply.products = [...reply.products, ...result.products.filter(p => !known.has(p.id))];
+        reply.productTarget = reply.productTarget ?? result.target;
+      });
+      onUpdate({ ...reply });
+      nextMessage = results.map(result => result.result);
+    }
+    return reply;
   } catch (error) {
-    console.error("Error sending message with Gemini Chat:", error);
-    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred during chat.";
-    return `I apologize, but I encountered an error: ${errorMessage}`;
+    if (signal?.aborted) {
+      return reply;
+    }
+    console.error(`Error streaming chat message (${aiProvider.id}):`, error);
+    throw toAIError(error);
   }
 };
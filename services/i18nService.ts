@@ -0,0 +1,138 @@
+import { LocaleSettings, Message } from '../types';
+import { en, MessageKey } from '../data/messages/en';
+import { ar } from '../data/messages/ar';
+import { DEFAULT_CURRENCY } from './priceService';
+
+export type { MessageKey };
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleOption {
+  code: string;
+  label: string; // In the locale's own language, so shoppers can find theirs
+  currency: string; // Picked by default along with the locale
+}
+
+const STORAGE_KEY = 'shopsmarter.locale';
+
+export const DEFAULT_LOCALE = 'en-US';
+
+export const SUPPORTED_LOCALES: LocaleOption[] = [
+  { code: 'en-US', label: 'English (US)', currency: 'USD' },
+  { code: 'en-GB', label: 'English (UK)', currency: 'GBP' },
+  { code: 'en-IN', label: 'English (India)', currency: 'INR' },
+  { code: 'ar-SA', label: 'العربية (السعودية)', currency: 'SAR' },
+  { code: 'ar-AE', label: 'العربية (الإمارات)', currency: 'AED' },
+];
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'INR', 'SAR', 'AED'];
+
+// Catalogs are per language; regional variants share one. Missing keys fall back to English.
+const catalogs: Record<string, Record<MessageKey, Message>> = { en, ar };
+
+const RTL_LANGUAGES = new Set(['ar', 'fa', 'he', 'ur']);
+
+const getLanguage = (locale: string): string => locale.split('-')[0].toLowerCase();
+
+export const getTextDirection = (locale: string): TextDirection => (RTL_LANGUAGES.has(getLanguage(locale)) ? 'rtl' : 'ltr');
+
+/** English name of the locale's language, e.g. "Arabic (Saudi Arabia)", for use in prompts. */
+export const getLanguageName = (locale: string): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+};
+
+const findLocale = (code: string): LocaleOption | undefined => SUPPORTED_LOCALES.find(option => option.code === code);
+
+// Exact matches win, then the first supported locale in the same language.
+const matchLocale = (preferred: readonly string[]): LocaleOption => {
+  for (const tag of preferred) {
+    const exact = SUPPORTED_LOCALES.find(option => option.code.toLowerCase() === tag.toLowerCase());
+    if (exact) return exact;
+    const sameLanguage = SUPPORTED_LOCALES.find(option => getLanguage(option.code) === getLanguage(tag));
+    if (sameLanguage) return sameLanguage;
+  }
+  return findLocale(DEFAULT_LOCALE)!;
+};
+
+export const toLocaleSettings = (code: string): LocaleSettings => {
+  const option = findLocale(code) ?? matchLocale([code]);
+  return { locale: option.code, currency: option.currency };
+};
+
+const getBrowserLocaleSettings = (): LocaleSettings => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  return toLocaleSettings(matchLocale(preferred).code);
+};
+
+/** The saved choice, or the closest match to the browser's languages on a first visit. */
+export const loadLocaleSettings = (): LocaleSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && findLocale(stored.locale) && SUPPORTED_CURRENCIES.includes(stored.currency)) {
+      return { locale: stored.locale, currency: stored.currency };
+    }
+  } catch (error) {
+    console.warn("Could not load language settings:", error);
+  }
+  return getBrowserLocaleSettings();
+};
+
+export const saveLocaleSettings = (settings: LocaleSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save language settings:", error);
+  }
+};
+
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+/**
+ * Looks up UI strings for a locale and fills in `{placeholders}`. Numbers are written the locale's way,
+ * and plural messages pick their form from the `count` parameter.
+ */
+export const createTranslator = (locale: string): Translate => {
+  const catalog = catalogs[getLanguage(locale)] ?? en;
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale, { useGrouping: false });
+
+  return (key, params = {}) => {
+    const message: Message = catalog[key] ?? en[key];
+    const template = typeof message === 'string'
+      ? message
+      : message[plurals.select(Number(params.count ?? 0))] ?? message.other;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+  };
+};
+
+/** Chat-style timestamp: just the time for today, the date as well for anything older. */
+export const formatTimestamp = (date: Date, locale: string, now: Date = new Date()): string => {
+  const isToday = date.toDateString() === now.toDateString();
+  return new Intl.DateTimeFormat(locale, isToday ? { timeStyle: 'short' } : { dateStyle: 'medium', timeStyle: 'short' }).format(date);
+};
+
+export interface I18n {
+  locale: string;
+  currency: string;
+  dir: TextDirection;
+  t: Translate;
+  formatTime: (date: Date) => string;
+}
+
+export const createI18n = (settings: LocaleSettings): I18n => ({
+  ...settings,
+  dir: getTextDirection(settings.locale),
+  t: createTranslator(settings.locale),
+  formatTime: date => formatTimestamp(date, settings.locale),
+});
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = { locale: DEFAULT_LOCALE, currency: DEFAULT_CURRENCY };
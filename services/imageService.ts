@@ -0,0 +1,145 @@
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image.'));
+    img.src = src;
+  });
+
+export const toDataUrl = (base64: string, mimeType: string): string => `data:${mimeType};base64,${base64}`;
+
+/** Renders a small JPEG preview of an image, used for session history and exports. */
+export const createThumbnail = async (base64: string, mimeType: string, maxSize = 160): Promise<string> => {
+  const img = await loadImage(toDataUrl(base64, mimeType));
+  const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser.');
+  }
+  context.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+export interface PreprocessOptions {
+  maxDimension?: number; // Longest side in pixels after resizing
+  targetBytes?: number; // Re-encoding lowers quality until the image fits, down to minQuality
+  minQuality?: number;
+}
+
+export interface ProcessedImage {
+  base64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/** A crop rectangle in fractions (0-1) of the image's width and height. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MAX_SOURCE_FILE_BYTES = 40 * 1024 * 1024; // Sanity limit before preprocessing; the output is much smaller
+
+const DEFAULT_PREPROCESS_OPTIONS: Required<PreprocessOptions> = {
+  maxDimension: 1536,
+  targetBytes: 800 * 1024,
+  minQuality: 0.5,
+};
+
+const base64ByteLength = (base64: string): number => Math.floor((base64.length * 3) / 4);
+
+let webpSupported: boolean | null = null;
+const supportsWebpEncoding = (): boolean => {
+  if (webpSupported === null) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    webpSupported = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpSupported;
+};
+
+// createImageBitmap applies the EXIF orientation explicitly; older browsers fall back to <img>,
+// which does the same by default in every browser that still lacks the bitmap option.
+const decodeImage = async (source: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(source, { imageOrientation: 'from-image' });
+    } catch (error) {
+      console.warn("createImageBitmap failed, falling back to <img>:", error);
+    }
+  }
+  const url = URL.createObjectURL(source);
+  try {
+    return await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, options: Required<PreprocessOptions>): ProcessedImage => {
+  const mimeType = supportsWebpEncoding() ? 'image/webp' : 'image/jpeg';
+  let quality = 0.9;
+  let base64 = canvas.toDataURL(mimeType, quality).split(',')[1];
+  while (base64ByteLength(base64) > options.targetBytes && quality > options.minQuality) {
+    quality = Math.max(options.minQuality, quality - 0.1);
+    base64 = canvas.toDataURL(mimeType, quality).split(',')[1];
+  }
+  return { base64, mimeType, width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Prepares a photo for analysis: applies EXIF rotation, downsizes it and re-encodes it as WebP (or JPEG).
+ * Redrawing onto a canvas drops all metadata, so GPS and camera EXIF never leave the device.
+ */
+export const preprocessImage = async (source: Blob, options: PreprocessOptions = {}): Promise<ProcessedImage> => {
+  const settings = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+  const image = await decodeImage(source);
+  try {
+    const scale = Math.min(1, settings.maxDimension / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not supported in this browser.');
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return encodeCanvas(canvas, settings);
+  } finally {
+    if ('close' in image) image.close();
+  }
+};
+
+/** Crops an already preprocessed image to the given rectangle and re-encodes it. */
+export const cropImage = async (base64: string, mimeType: string, crop: CropRect, options: PreprocessOptions = {}): Promise<ProcessedImage> => {
+  const settings = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+  const img = await loadImage(toDataUrl(base64, mimeType));
+  const sx = Math.round(crop.x * img.width);
+  const sy = Math.round(crop.y * img.height);
+  const sw = Math.max(1, Math.round(crop.width * img.width));
+  const sh = Math.max(1, Math.round(crop.height * img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = sw;
+  canvas.height = sh;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser.');
+  }
+  context.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+  return encodeCanvas(canvas, settings);
+};
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
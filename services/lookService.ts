@@ -0,0 +1,54 @@
+import { Look, LookSlot, Money, Product } from '../types';
+import { compareMoney, sumMoney } from './priceService';
+
+const selectedProduct = (slot: LookSlot): Product | undefined =>
+  slot.candidates.find(product => product.id === slot.selectedId);
+
+export const getLookProducts = (look: Look): Product[] =>
+  look.slots.map(selectedProduct).filter((product): product is Product => !!product);
+
+/** Total of the selected items, one amount per currency. */
+export const getLookTotal = (look: Look): Money[] => sumMoney(getLookProducts(look).map(product => product.price));
+
+// A budget only constrains the total in its own currency; catalogs are expected to use a single currency.
+export const isWithinBudget = (total: Money[], budget: Money | null): boolean => {
+  if (!budget) return true;
+  const inCurrency = total.find(amount => amount.currency === budget.currency);
+  return !inCurrency || compareMoney(inCurrency, budget) <= 0;
+};
+
+export const selectLookItem = (look: Look, slotIndex: number, productId: string | null): Look => ({
+  ...look,
+  slots: look.slots.map((slot, index) => (index === slotIndex ? { ...slot, selectedId: productId } : slot)),
+});
+
+/** Whether choosing `product` for the slot would take the look over budget. */
+export const wouldExceedBudget = (look: Look, slotIndex: number, product: Product, budget: Money | null): boolean =>
+  !isWithinBudget(getLookTotal(selectLookItem(look, slotIndex, product.id)), budget);
+
+const priceOf = (slot: LookSlot): Money | undefined => selectedProduct(slot)?.price;
+
+/**
+ * Brings a look within budget, starting from each slot's best match. Each step makes the swap that saves
+ * the most, moving a slot to its best-ranked cheaper candidate, so quality drops as little as possible.
+ * The shopper's own item is kept. If even the cheapest set is over budget, that set is returned.
+ */
+export const fitLookToBudget = (look: Look, budget: Money | null): Look => {
+  let fitted: Look = { ...look, slots: look.slots.map(slot => ({ ...slot, selectedId: slot.candidates[0]?.id ?? null })) };
+  if (!budget) return fitted;
+
+  while (!isWithinBudget(getLookTotal(fitted), budget)) {
+    let best: { slotIndex: number; productId: string; saving: number } | null = null;
+    for (const [slotIndex, slot] of fitted.slots.entries()) {
+      const current = priceOf(slot);
+      if (slot.isAnchor || !current || current.currency !== budget.currency) continue;
+      const cheaper = slot.candidates.find(p => p.price.currency === current.currency && compareMoney(p.price, current) < 0);
+      if (!cheaper) continue;
+      const saving = current.amountMinor - cheaper.price.amountMinor;
+      if (!best || saving > best.saving) best = { slotIndex, productId: cheaper.id, saving };
+    }
+    if (!best) break;
+    fitted = selectLookItem(fitted, best.slotIndex, best.productId);
+  }
+  return fitted;
+};
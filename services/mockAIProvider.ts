@@ -0,0 +1,225 @@
+import { AIChatChunk, AIChatOptions, AIFunctionCall, AIImageInput, AIProvider, AIStructuredRequest, ProductAttributes } from '../types';
+import { MockImageFixture, mockChatReplies, mockComparisonText, mockImageFixtures, mockLookTemplates } from '../data/mockAIFixtures';
+import { sampleCatalog } from '../data/sampleCatalog';
+import { AICancelledError } from './aiErrors';
+
+export const MOCK_MODEL = 'mock-fixtures';
+
+const STREAM_CHUNK_DELAY_MS = 20;
+
+// Same image, same fixture: a cheap hash over a sample of the data keeps runs reproducible.
+const pickFixture = (image?: AIImageInput): MockImageFixture => {
+  const data = image?.base64 ?? '';
+  let hash = data.length;
+  for (let i = 0; i < data.length; i += Math.max(1, Math.floor(data.length / 64))) {
+    hash = (hash * 31 + data.charCodeAt(i)) >>> 0;
+  }
+  return mockImageFixtures[hash % mockImageFixtures.length];
+};
+
+const catalogVocabulary = (key: keyof ProductAttributes): string[] =>
+  Array.from(new Set(sampleCatalog.map(p => p.attributes?.[key]).filter((value): value is string => !!value)))
+    // Longest first, so "floor lamp" wins over "lamp"-like partial matches
+    .sort((a, b) => b.length - a.length);
+
+const searchableKeys: (keyof ProductAttributes)[] = ['itemType', 'color', 'material', 'style'];
+const vocabulary = Object.fromEntries(searchableKeys.map(key => [key, catalogVocabulary(key)])) as Record<keyof ProductAttributes, string[]>;
+
+// Turns a chat message into searchCatalog arguments by spotting catalog words in it.
+const toSearchCall = (message: string): AIFunctionCall | null => {
+  const text = message.toLowerCase();
+  const args: Record<string, unknown> = {};
+  searchableKeys.forEach(key => {
+    const match = vocabulary[key].find(word => text.includes(word));
+    if (match) args[key] = match;
+  });
+  if (Object.keys(args).length === 0) return null;
+  args.target = /\b(pair|match|go with|goes with|complement|wear with)\b/.test(text) ? 'complementary' : 'similar';
+  return { id: `mock-call-${Object.values(args).join('-')}`, name: 'searchCatalog', args };
+};
+
+// Spots refinement phrasing ("same but in black under $50", "show me boots instead") and turns it into refineSearch arguments.
+const toRefineCall = (message: string): AIFunctionCall | null => {
+  const text = message.toLowerCase();
+  const args: Record<string, unknown> = {};
+  const maxPrice = text.match(/\b(?:under|below|less than|cheaper than|up to|max(?:imum)?)\s*\$?\s*(\d+(?:\.\d+)?)/);
+  const minPrice = text.match(/\b(?:over|above|more than|at least)\s*\$?\s*(\d+(?:\.\d+)?)/);
+  const size = text.match(/\bsize\s+([a-z0-9]+)\b/);
+  if (maxPrice) args.maxPrice = Number(maxPrice[1]);
+  if (minPrice) args.minPrice = Number(minPrice[1]);
+  if (size) args.size = size[1];
+
+  const isRefinement = maxPrice || minPrice || size || /\b(same|instead|but|only)\b/.test(text);
+  if (!isRefinement) return null;
+  searchableKeys.forEach(key => {
+    const match = vocabulary[key].find(word => text.includes(word));
+    if (match) args[key] = match;
+  });
+  const clear: string[] = [];
+  if (/\bany price\b/.test(text)) clear.push('minPrice', 'maxPrice');
+  if (/\bany colou?r\b/.test(text)) clear.push('color');
+  if (/\bstart over\b/.test(text)) clear.push('all');
+  if (clear.length > 0) args.clear = clear;
+  if (Object.keys(args).length === 0) return null;
+  return { id: `mock-refine-${Object.keys(args).join('-')}`, name: 'refineSearch', args };
+};
+
+// Fabrics shoppers often rule out that the demo catalog may not use itself.
+const commonFabrics = ['polyester', 'nylon', 'acrylic', 'wool', 'silk', 'linen', 'viscose', 'spandex'];
+
+// Spots lasting preferences ("I never wear polyester", "I'm a size M") and turns them into rememberPreference arguments.
+const toPreferenceCall = (message: string): AIFunctionCall | null => {
+  const text = message.toLowerCase();
+  const args: Record<string, unknown> = {};
+  const avoided = text.match(/\bi (?:never|don't|do not|won't) wear ([a-z-]+)/);
+  const size = text.match(/\bi(?:'m| am) (?:usually |always )?(?:a )?size ([a-z0-9]+)\b/);
+  const budget = text.match(/\bmy (?:usual )?budget is (?:usually )?(?:under |up to |about )?\$?\s*(\d+(?:\.\d+)?)/);
+  const loved = text.match(/\bi (?:love|always wear) ([a-z]+)/);
+  if (avoided) {
+    if (vocabulary.material.includes(avoided[1]) || commonFabrics.includes(avoided[1])) args.avoidMaterials = [avoided[1]];
+    else args.notes = [`never wears ${avoided[1]}`];
+  }
+  if (size) args.sizes = [size[1].toUpperCase()];
+  if (budget) args.budgetMax = Number(budget[1]);
+  if (loved && vocabulary.color.includes(loved[1])) args.favoriteColors = [loved[1]];
+  if (Object.keys(args).length === 0) return null;
+  return { id: `mock-remember-${Object.keys(args).join('-')}`, name: 'rememberPreference', args };
+};
+
+// Reads a typed request the way toSearchCall reads chat: catalog words become attributes, "under $N" a price cap.
+const textQueryResponse = (query: string) => {
+  const text = query.toLowerCase();
+  const found: Record<string, string> = {};
+  searchableKeys.forEach(key => {
+    const word = vocabulary[key].find(candidate => text.includes(candidate));
+    if (word) found[key] = word;
+  });
+  const match = sampleCatalog.find(p => found.itemType && p.attributes?.itemType === found.itemType);
+  const fixture = mockImageFixtures.find(f => f.attributes.itemType === found.itemType) ?? mockImageFixtures[0];
+  const maxPrice = text.match(/\b(?:under|below|less than|up to|max(?:imum)?)\s*\$?\s*(\d+(?:\.\d+)?)/);
+  const response: Record<string, unknown> = {
+    analysis: `You're looking for: ${query.trim()} (offline demo reading of your request).`,
+    complementaryItemTypes: fixture.complementaryItemTypes,
+    ...(maxPrice ? { maxPrice: Number(maxPrice[1]) } : {}),
+  };
+  if (Object.keys(found).length > 0) {
+    response.attributes = { category: match?.category ?? fixture.attributes.category, ...found };
+  }
+  return response;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function* streamText(text: string, functionCalls: AIFunctionCall[], signal?: AbortSignal): AsyncGenerator<AIChatChunk> {
+  const words = text.split(/(?<= )/);
+  for (const word of words) {
+    if (signal?.aborted) return;
+    await delay(STREAM_CHUNK_DELAY_MS);
+    yield { text: word, functionCalls: [] };
+  }
+  if (functionCalls.length > 0 && !signal?.aborted) {
+    yield { text: '', functionCalls };
+  }
+}
+
+const structuredResponse = (request: AIStructuredRequest): unknown => {
+  switch (request.task) {
+    case 'imageAnalysis': {
+      const { analysis, altText, attributes, complementaryItemTypes } = pickFixture(request.image);
+      return { analysis, altText, attributes, complementaryItemTypes };
+    }
+    case 'multiImageAnalysis': {
+      const fixtures = request.images.map(pickFixture);
+      return {
+        analysis: `These ${request.images.length} items share a ${fixtures[0].attributes.style} feel.`,
+        items: fixtures.map((fixture, imageIndex) => ({ imageIndex, analysis: fixture.analysis, altText: fixture.altText, attributes: fixture.attributes })),
+        complementaryItemTypes: fixtures[0].complementaryItemTypes,
+        comparison: mockComparisonText,
+      };
+    }
+    case 'textQuery':
+      return textQueryResponse(request.query);
+    case 'lookPlanning': {
+      // Planned around the first product the request is about; anything that isn't home decor gets outfits.
+      const anchor = sampleCatalog.find(p => p.id === request.subjectIds[0]);
+      const looks = mockLookTemplates[anchor?.category === 'Home Decor' ? 'Home Decor' : 'Apparel'];
+      const ownType = anchor?.attributes?.itemType;
+      return {
+        looks: looks.map(look => ({ ...look, slots: look.slots.filter(slot => !ownType || !slot.itemTypes.includes(ownType)) })),
+      };
+    }
+    case 'itemDetection':
+      return { items: pickFixture(request.image).detectedItems };
+    case 'ranking':
+      // No picks: the catalog's own match order is used, which is already deterministic.
+      return { similar: [], complementary: [] };
+    case 'productComparison':
+      return {
+        summary: 'A reasonable match for the item in your photo (offline demo comparison).',
+        similarities: ['Fits the same category', 'Works for a similar occasion'],
+        differences: ['Exact colour and material may differ', 'Check the fit before buying'],
+      };
+    case 'multiProductComparison': {
+      const { products } = request;
+      return {
+        attributes: products.map(({ id: productId, attributes }) => ({
+          productId,
+          material: attributes?.material || 'unknown',
+          color: attributes?.color || 'unknown',
+          style: attributes?.style || 'unknown',
+          useCase: attributes?.style ? `${attributes.style} everyday wear` : 'unknown',
+        })),
+        verdict: 'In the offline demo the first product is recommended by default. Connect a live model for a real verdict.',
+        ...(products[0] ? { recommendedProductId: products[0].id } : {}),
+      };
+    }
+  }
+};
+
+/** Deterministic provider backed by fixtures, for CI and offline demos. It never touches the network. */
+export const createMockAIProvider = (): AIProvider => ({
+  id: 'mock',
+  model: MOCK_MODEL,
+
+  async generateStructured(request, signal) {
+    if (signal?.aborted) throw new AICancelledError();
+    return JSON.stringify(structuredResponse(request));
+  },
+
+  createChat(options: AIChatOptions) {
+    // Only the shopping chat has tools; a product chat just answers questions.
+    const hasTools = options.topic === 'shopping';
+    return {
+      async sendMessageStream(message, signal, sendOptions) {
+        if (typeof message !== 'string') {
+          if (message.some(result => result.name === 'rememberPreference')) {
+            return streamText(mockChatReplies.remembered, [], signal);
+          }
+          if (message.some(result => result.name === 'refineSearch')) {
+            return streamText(mockChatReplies.refined, [], signal);
+          }
+          const found = message.some(result => Array.isArray(result.response.products) && result.response.products.length > 0);
+          return streamText(found ? mockChatReplies.withProducts : "I couldn't find anything matching that in the catalog.", [], signal);
+        }
+        if (!hasTools) {
+          return streamText(mockChatReplies.productQuestion, [], signal);
+        }
+        if (sendOptions?.allowTools === false) {
+          return streamText(`${mockChatReplies.greeting} ${mockChatReplies.noSearch}`, [], signal);
+        }
+        const preference = toPreferenceCall(message);
+        if (preference) {
+          return streamText('', [preference], signal);
+        }
+        const refinement = toRefineCall(message);
+        if (refinement) {
+          return streamText('', [refinement], signal);
+        }
+        const call = toSearchCall(message);
+        return call
+          ? streamText('Let me check the catalog. ', [call], signal)
+          : streamText(`${mockChatReplies.greeting} ${mockChatReplies.noSearch}`, [], signal);
+      },
+    };
+  },
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parsePrice } from './priceService';
+
+describe('parsePrice', () => {
+  it.each([
+    ['$49.99', { amountMinor: 4999, currency: 'USD' }],
+    ['€1.299,99', { amountMinor: 129999, currency: 'EUR' }],
+    ['49.99 USD', { amountMinor: 4999, currency: 'USD' }],
+    ['EUR 30', { amountMinor: 3000, currency: 'EUR' }],
+    ['30 euros', { amountMinor: 3000, currency: 'EUR' }],
+    ['from €20 to €40', { amountMinor: 2000, currency: 'EUR' }],
+    ['Price: 30 (in €)', { amountMinor: 3000, currency: 'EUR' }],
+    ['1,299', { amountMinor: 129900, currency: 'USD' }],
+    ['1.299 €', { amountMinor: 129900, currency: 'EUR' }],
+    ['1 299 SEK', { amountMinor: 129900, currency: 'SEK' }],
+  ])('reads %s', (text, expected) => {
+    expect(parsePrice(text)).toEqual(expected);
+  });
+
+  it('takes the amount next to the currency over an earlier number', () => {
+    expect(parsePrice('2 for $30')).toEqual({ amountMinor: 3000, currency: 'USD' });
+    expect(parsePrice('Set of 3 at 25 GBP')).toEqual({ amountMinor: 2500, currency: 'GBP' });
+  });
+
+  it('keeps numbers separated by a comma and a space apart', () => {
+    expect(parsePrice('$30, 2 for $50')).toEqual({ amountMinor: 3000, currency: 'USD' });
+  });
+
+  it('reads the lower bound of a range that names its currency at the end', () => {
+    expect(parsePrice('From 20 to 40 euros')).toEqual({ amountMinor: 2000, currency: 'EUR' });
+    expect(parsePrice('20 - 40 USD')).toEqual({ amountMinor: 2000, currency: 'USD' });
+    expect(parsePrice('20-€40')).toEqual({ amountMinor: 2000, currency: 'EUR' });
+  });
+
+  it('ignores currency codes that are not next to the amount', () => {
+    expect(parsePrice('TOP PICK: $45')).toEqual({ amountMinor: 4500, currency: 'USD' });
+    expect(parsePrice('ALL SIZES 45', 'EUR')).toEqual({ amountMinor: 4500, currency: 'EUR' });
+    expect(parsePrice('all 3 for 45 TRY')).toEqual({ amountMinor: 4500, currency: 'TRY' });
+  });
+
+  it('returns null without an amount', () => {
+    expect(parsePrice('price on request')).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+import { Money } from '../types';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Symbols the model tends to emit, longest first so "US$" wins over "$".
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'],
+  ['CA$', 'CAD'],
+  ['C$', 'CAD'],
+  ['AU$', 'AUD'],
+  ['A$', 'AUD'],
+  ['NZ$', 'NZD'],
+  ['HK$', 'HKD'],
+  ['R$', 'BRL'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['Rs.', 'INR'],
+  ['₩', 'KRW'],
+  ['₽', 'RUB'],
+  ['₺', 'TRY'],
+  ['₪', 'ILS'],
+  ['$', 'USD'],
+];
+
+const CURRENCY_WORDS: Record<string, string> = {
+  dollar: 'USD',
+  dollars: 'USD',
+  euro: 'EUR',
+  euros: 'EUR',
+  pound: 'GBP',
+  pounds: 'GBP',
+  yen: 'JPY',
+  rupee: 'INR',
+  rupees: 'INR',
+};
+
+export const getMinorUnitDigits = (currency: string): number => {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+// Intl accepts any well-formed three-letter code, so words like "FOR" need an explicit allow-list.
+const ISO_CURRENCY_CODES = new Set([
+  'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK',
+  'HUF', 'RUB', 'TRY', 'ILS', 'AED', 'SAR', 'EGP', 'ZAR', 'BRL', 'MXN', 'ARS', 'CLP', 'COP', 'KRW', 'HKD',
+  'SGD', 'TWD', 'THB', 'MYR', 'IDR', 'PHP', 'VND', 'PKR', 'BDT', 'NGN', 'KES',
+]);
+
+// The currency written right next to an amount: "$30", "30€", "EUR 30", "30 USD" or "30 euros".
+// Codes only count in capitals, so "all 3" or "top 5" aren't read as Albanian lek or Tongan pa'anga.
+const detectAttachedCurrency = (before: string, after: string): string | null => {
+  const code = before.match(/\b([A-Z]{3})\s*$/)?.[1] ?? after.match(/^\s*([A-Z]{3})\b/)?.[1];
+  if (code && ISO_CURRENCY_CODES.has(code)) return code;
+
+  const precedingText = before.trimEnd();
+  const followingText = after.trimStart();
+  const symbol = CURRENCY_SYMBOLS.find(([candidate]) => precedingText.endsWith(candidate) || followingText.startsWith(candidate));
+  if (symbol) return symbol[1];
+
+  const word = followingText.toLowerCase().match(/^[a-z]+/)?.[0];
+  return word && word in CURRENCY_WORDS ? CURRENCY_WORDS[word] : null;
+};
+
+// For amounts with nothing next to them, e.g. "Price: 30 (in €)". Codes aren't trusted this far from a number.
+const detectCurrency = (text: string): string | null => {
+  for (const [symbol, currency] of CURRENCY_SYMBOLS) {
+    if (text.includes(symbol)) return currency;
+  }
+
+  const word = text.toLowerCase().match(/[a-z]+/g)?.find(w => w in CURRENCY_WORDS);
+  return word ? CURRENCY_WORDS[word] : null;
+};
+
+// Interprets "1,299.99", "1.299,99", "49,99" and "1 299" the way a shopper would read them.
+const parseAmount = (numeric: string): number | null => {
+  let cleaned = numeric.replace(/[\s ']/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    const decimalSeparator = lastComma > lastDot ? ',' : '.';
+    const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+    cleaned = cleaned.split(groupSeparator).join('').replace(decimalSeparator, '.');
+  } else if (lastComma !== -1) {
+    // A single comma followed by exactly three digits is a thousands separator ("1,299"); otherwise a decimal.
+    const parts = cleaned.split(',');
+    cleaned = parts.length === 2 && parts[1].length !== 3 ? parts.join('.') : parts.join('');
+  } else if (lastDot !== -1) {
+    // Likewise for a dot ("1.299" in German); several dots can only be separators ("1.299.000").
+    const parts = cleaned.split('.');
+    cleaned = parts.length === 2 && parts[1].length !== 3 ? cleaned : parts.join('');
+  }
+
+  const value = parseFloat(cleaned);
+  return Number.isFinite(value) ? value : null;
+};
+
+// One number: separators only count between digits, and a space only before a group of three ("1 299"),
+// so "$30, 2 for $50" holds three numbers rather than "30, 2".
+const NUMBER_PATTERN = /\d+(?:[.,']\d+|[\s\u00a0]\d{3}(?!\d))*/g;
+
+// What may sit between the two ends of a range, e.g. "20-40", "20 to 40" or "20 to €40".
+const RANGE_JOIN_PATTERN = /^\s*(?:-|–|—|to)\s*[^\d\s]{0,3}\s*$/i;
+
+/**
+ * Tolerantly parses a model-written price such as "$49.99", "€30", "49.99 USD" or "from $20".
+ * The first amount with a currency next to it wins, so "2 for $30" is 30; ranges resolve to their lower
+ * bound, also when only the upper one names the currency ("20 to 40 euros"). Returns null when no amount can be found.
+ */
+export const parsePrice = (text: string, fallbackCurrency: string = DEFAULT_CURRENCY): Money | null => {
+  if (!text) return null;
+  const candidates = Array.from(text.matchAll(NUMBER_PATTERN), match => {
+    const end = match.index + match[0].length;
+    return { numeric: match[0], start: match.index, end, currency: detectAttachedCurrency(text.slice(0, match.index), text.slice(end)) };
+  });
+  const priceIndex = candidates.findIndex(candidate => candidate.currency);
+  const lowerBound = candidates[priceIndex - 1];
+  const price = priceIndex === -1
+    ? candidates[0]
+    : lowerBound && RANGE_JOIN_PATTERN.test(text.slice(lowerBound.end, candidates[priceIndex].start))
+      ? { ...lowerBound, currency: candidates[priceIndex].currency }
+      : candidates[priceIndex];
+  if (!price) return null;
+
+  const amount = parseAmount(price.numeric);
+  if (amount === null) return null;
+
+  const currency = price.currency ?? detectCurrency(text) ?? fallbackCurrency;
+  return fromMajorUnits(amount, currency);
+};
+
+export const fromMajorUnits = (amount: number, currency: string): Money => ({
+  amountMinor: Math.round(amount * 10 ** getMinorUnitDigits(currency)),
+  currency,
+});
+
+export const toMajorUnits = (money: Money): number => money.amountMinor / 10 ** getMinorUnitDigits(money.currency);
+
+export const zeroMoney = (currency: string = DEFAULT_CURRENCY): Money => ({ amountMinor: 0, currency });
+
+export const addMoney = (a: Money, b: Money): Money => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot add ${a.currency} and ${b.currency} amounts.`);
+  }
+  return { amountMinor: a.amountMinor + b.amountMinor, currency: a.currency };
+};
+
+export const multiplyMoney = (money: Money, factor: number): Money => ({
+  amountMinor: Math.round(money.amountMinor * factor),
+  currency: money.currency,
+});
+
+/** Sums amounts per currency, since mixed-currency totals cannot be added without conversion rates. */
+export const sumMoney = (amounts: Money[]): Money[] => {
+  const totals = new Map<string, Money>();
+  amounts.forEach(amount => {
+    const current = totals.get(amount.currency);
+    totals.set(amount.currency, current ? addMoney(current, amount) : amount);
+  });
+  return Array.from(totals.values());
+};
+
+/** Orders by currency first, then amount, so sorting a mixed list stays stable and meaningful. */
+export const compareMoney = (a: Money, b: Money): number => {
+  if (a.currency !== b.currency) return a.currency.localeCompare(b.currency);
+  return a.amountMinor - b.amountMinor;
+};
+
+export const formatMoney = (money: Money, locale?: string): string => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: money.currency }).format(toMajorUnits(money));
+  } catch {
+    return `${toMajorUnits(money).toFixed(2)} ${money.currency}`;
+  }
+};
+
+export const formatMoneyList = (amounts: Money[], locale?: string): string =>
+  amounts.length > 0 ? amounts.map(amount => formatMoney(amount, locale)).join(' + ') : formatMoney(zeroMoney(), locale);
@@ -0,0 +1,97 @@
+import { Product, ProductFilters, ProductSort } from '../types';
+import { compareMoney, toMajorUnits } from './priceService';
+
+export const DEFAULT_PRODUCT_FILTERS: ProductFilters = {
+  sort: 'relevance',
+  category: null,
+  minPrice: null,
+  maxPrice: null,
+  query: '',
+};
+
+const SORT_OPTIONS: ProductSort[] = ['relevance', 'price-asc', 'price-desc', 'name'];
+
+// Query-string keys; short so shared links stay readable.
+const PARAMS = {
+  sort: 'sort',
+  category: 'cat',
+  minPrice: 'min',
+  maxPrice: 'max',
+  query: 'q',
+} as const;
+
+export const hasActiveFilters = (filters: ProductFilters): boolean =>
+  filters.category !== null || filters.minPrice !== null || filters.maxPrice !== null || filters.query.trim() !== '';
+
+/** Categories present in the given products, for the category filter. */
+export const getProductCategories = (products: Product[]): string[] =>
+  Array.from(new Set(products.map(p => p.category).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+const matchesQuery = (product: Product, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${product.name} ${product.description}`.toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+/** Filters and sorts a product list. 'relevance' keeps the order the products were ranked in. */
+export const applyProductFilters = (products: Product[], filters: ProductFilters): Product[] => {
+  const filtered = products.filter(product => {
+    if (filters.category && product.category !== filters.category) return false;
+    const price = toMajorUnits(product.price);
+    if (filters.minPrice !== null && price < filters.minPrice) return false;
+    if (filters.maxPrice !== null && price > filters.maxPrice) return false;
+    return !filters.query.trim() || matchesQuery(product, filters.query);
+  });
+
+  switch (filters.sort) {
+    case 'price-asc':
+      return [...filtered].sort((a, b) => compareMoney(a.price, b.price));
+    case 'price-desc':
+      return [...filtered].sort((a, b) => compareMoney(b.price, a.price));
+    case 'name':
+      return [...filtered].sort((a, b) => a.name.localeCompare(b.name));
+    default:
+      return filtered;
+  }
+};
+
+const parsePriceParam = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+/** Reads filters from a query string, ignoring values that don't parse so a bad link still opens. */
+export const readFiltersFromQuery = (search: string): ProductFilters => {
+  const params = new URLSearchParams(search);
+  const sort = params.get(PARAMS.sort) as ProductSort | null;
+  return {
+    sort: sort && SORT_OPTIONS.includes(sort) ? sort : DEFAULT_PRODUCT_FILTERS.sort,
+    category: params.get(PARAMS.category) || null,
+    minPrice: parsePriceParam(params.get(PARAMS.minPrice)),
+    maxPrice: parsePriceParam(params.get(PARAMS.maxPrice)),
+    query: params.get(PARAMS.query) ?? '',
+  };
+};
+
+/** Writes filters into a query string, keeping unrelated parameters and omitting defaults. */
+export const writeFiltersToQuery = (search: string, filters: ProductFilters): string => {
+  const params = new URLSearchParams(search);
+  const values: Record<keyof ProductFilters, string | null> = {
+    sort: filters.sort === DEFAULT_PRODUCT_FILTERS.sort ? null : filters.sort,
+    category: filters.category,
+    minPrice: filters.minPrice === null ? null : String(filters.minPrice),
+    maxPrice: filters.maxPrice === null ? null : String(filters.maxPrice),
+    query: filters.query.trim() || null,
+  };
+  (Object.keys(PARAMS) as (keyof ProductFilters)[]).forEach(key => {
+    const value = values[key];
+    if (value === null) {
+      params.delete(PARAMS[key]);
+    } else {
+      params.set(PARAMS[key], value);
+    }
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
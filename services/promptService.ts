@@ -0,0 +1,472 @@
+import { FunctionDeclaration, Schema, Type } from "@google/genai";
+import {
+  AIChatOptions, AIImageInput, AIShopperContext, AIStructuredRequest, AITaskInputs, CatalogFacets, LocaleSettings, Product,
+} from '../types';
+import { getLanguageName } from './i18nService';
+import { formatMoney } from './priceService';
+import { SEARCH_CONSTRAINT_KEYS } from './searchConstraintService';
+import { describeStyleProfile } from './styleProfileService';
+
+// Prompts, response schemas and tool declarations for every model call. Only the provider that runs the
+// model (the API server's Gemini provider) uses this; clients send task inputs and never see the prompt.
+
+export interface StructuredPrompt {
+  contents: (string | AIImageInput)[]; // Text and images, in the order the model sees them
+  schema: Schema;
+}
+
+export interface ChatConfig {
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+}
+
+// Declared response shapes, so the model returns JSON we can validate instead of scrubbing free text.
+const attributesSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    category: { type: Type.STRING },
+    itemType: { type: Type.STRING },
+    color: { type: Type.STRING },
+    material: { type: Type.STRING },
+    style: { type: Type.STRING },
+  },
+  required: ['category', 'itemType', 'color', 'material', 'style'],
+};
+
+const ALT_TEXT_DESCRIPTION = 'Alt text for the photo: one plain sentence, under 125 characters, for someone who cannot see it.';
+
+const imageAnalysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    analysis: { type: Type.STRING, description: 'Two or three sentences describing the main item.' },
+    altText: { type: Type.STRING, description: ALT_TEXT_DESCRIPTION },
+    attributes: attributesSchema,
+    complementaryItemTypes: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['analysis'],
+  propertyOrdering: ['analysis', 'altText', 'attributes', 'complementaryItemTypes'],
+};
+
+// Price limits are asked for in the catalog's currency, the only one the catalog can filter on.
+const convertNote = '. Convert an amount the shopper gave in another currency approximately.';
+
+const textQuerySchema = (catalogCurrency: string): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    analysis: { type: Type.STRING, description: 'One or two sentences restating what the shopper is looking for.' },
+    attributes: attributesSchema,
+    complementaryItemTypes: { type: Type.ARRAY, items: { type: Type.STRING } },
+    minPrice: { type: Type.NUMBER, description: `Lowest price the shopper mentioned, in ${catalogCurrency}${convertNote}` },
+    maxPrice: { type: Type.NUMBER, description: `Highest price the shopper mentioned, in ${catalogCurrency}${convertNote}` },
+  },
+  required: ['analysis'],
+  propertyOrdering: ['analysis', 'attributes', 'complementaryItemTypes', 'minPrice', 'maxPrice'],
+});
+
+const multiImageAnalysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    analysis: { type: Type.STRING },
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          imageIndex: { type: Type.INTEGER },
+          analysis: { type: Type.STRING },
+          altText: { type: Type.STRING, description: ALT_TEXT_DESCRIPTION },
+          attributes: attributesSchema,
+        },
+        required: ['imageIndex', 'analysis'],
+      },
+    },
+    complementaryItemTypes: { type: Type.ARRAY, items: { type: Type.STRING } },
+    comparison: { type: Type.STRING },
+  },
+  required: ['analysis', 'items'],
+  propertyOrdering: ['analysis', 'items', 'complementaryItemTypes', 'comparison'],
+};
+
+const detectionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+          attributes: attributesSchema,
+          complementaryItemTypes: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['label', 'box_2d'],
+      },
+    },
+  },
+  required: ['items'],
+};
+
+const productComparisonSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    similarities: { type: Type.ARRAY, items: { type: Type.STRING } },
+    differences: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['summary', 'similarities', 'differences'],
+  propertyOrdering: ['summary', 'similarities', 'differences'],
+};
+
+const multiProductComparisonSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    attributes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          productId: { type: Type.STRING },
+          material: { type: Type.STRING },
+          color: { type: Type.STRING },
+          style: { type: Type.STRING },
+          useCase: { type: Type.STRING },
+        },
+        required: ['productId', 'material', 'color', 'style', 'useCase'],
+      },
+    },
+    verdict: { type: Type.STRING },
+    recommendedProductId: { type: Type.STRING },
+  },
+  required: ['attributes', 'verdict'],
+  propertyOrdering: ['attributes', 'verdict', 'recommendedProductId'],
+};
+
+const lookPlanSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    looks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          slots: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING, description: 'What the slot is for, e.g. "Shoes" or "Rug".' },
+                itemTypes: { type: Type.ARRAY, items: { type: Type.STRING } },
+              },
+              required: ['name', 'itemTypes'],
+            },
+          },
+        },
+        required: ['name', 'description', 'slots'],
+      },
+    },
+  },
+  required: ['looks'],
+};
+
+const rankedPicksSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING, description: 'A catalog id from the candidate list.' },
+      reason: { type: Type.STRING },
+    },
+    required: ['id', 'reason'],
+  },
+};
+
+const rankingSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    similar: rankedPicksSchema,
+    complementary: rankedPicksSchema,
+  },
+  required: ['similar', 'complementary'],
+};
+
+// Prompt text asking for shopper-facing text in their language. Catalog vocabulary stays in English so
+// searches still match, and listed prices stay as listed since there are no exchange rates to convert with.
+const describeResponseLocale = ({ locale, currency }: LocaleSettings): string =>
+  [
+    `Write all shopper-facing text (descriptions, labels, reasons, verdicts and replies) in ${getLanguageName(locale)} (${locale}).`,
+    'Keep ids, JSON keys and catalog vocabulary (categories, item types, colors, materials, styles) in English, exactly as listed.',
+    `The shopper pays in ${currency}. Quote catalog prices as listed; when a listed price is in another currency, add an approximate ${currency} amount after it and say it is approximate.`,
+  ].join('\n');
+
+// Prompt text for the shopper's saved preferences; empty when they haven't set any.
+const describeShopper = ({ styleProfile }: AIShopperContext): string => {
+  const lines = describeStyleProfile(styleProfile);
+  return lines.length > 0
+    ? `The shopper's saved style profile (respect it unless they ask otherwise):\n${lines.map(line => `- ${line}`).join('\n')}`
+    : '';
+};
+
+const describeFacets = (facets: CatalogFacets): string =>
+  `Prefer these store categories: ${facets.categories.join(', ')}.
+      Prefer these item types where one fits: ${facets.itemTypes.join(', ')}.`;
+
+const formatCandidates = (products: Product[]): string =>
+  products
+    .map(p => `- id: ${p.id} | ${p.name} | ${p.category}/${p.attributes?.itemType ?? ''} | color: ${p.attributes?.color ?? ''} | material: ${p.attributes?.material ?? ''} | style: ${p.attributes?.style ?? ''} | ${formatMoney(p.price, 'en-US')}`)
+    .join('\n');
+
+const describeProduct = (product: Product): string => {
+  const attributes = product.attributes
+    ? Object.entries(product.attributes).filter(([, value]) => value).map(([key, value]) => `${key}: ${value}`).join(', ')
+    : 'none listed';
+  return `Name: ${product.name}
+Price: ${formatMoney(product.price, 'en-US')}
+Category: ${product.category}
+Attributes: ${attributes}
+Description: ${product.description}`;
+};
+
+type PromptBuilders = { [T in keyof AITaskInputs]: (input: AITaskInputs[T], shopper: AIShopperContext) => StructuredPrompt };
+
+const promptBuilders: PromptBuilders = {
+  imageAnalysis: ({ image, userPrompt, facets }, shopper) => ({
+    contents: [image, `
+      You are an AI Shopping Assistant. Analyze the provided image.
+      1. Briefly describe the key visual features of the main item in the image (e.g., category, style, color, texture, material, any discernible patterns or brand-like attributes). Limit this to 2-3 sentences.
+      2. Extract the main item's attributes: "category", "itemType", "color", "material" and "style".
+         ${describeFacets(facets)}
+      3. List 2-4 "complementaryItemTypes" that would pair well with the main item${userPrompt ? `, taking into account the user's specific request: "${userPrompt}"` : ''}. Prefer the item types listed above.
+      4. Write "altText": one plain sentence describing the whole photo for someone who can't see it.
+
+      If the image is unclear or not product-related, state that in the analysis and omit "attributes".
+      ${describeShopper(shopper)}
+      ${describeResponseLocale(shopper.locale)}
+    `],
+    schema: imageAnalysisSchema,
+  }),
+
+  multiImageAnalysis: ({ images, mode, userPrompt, facets }, shopper) => {
+    const modeInstructions = mode === 'outfit'
+      ? `Treat the images as pieces of ONE outfit or look. In "analysis", describe the overall look in 2-3 sentences.
+      List 2-4 "complementaryItemTypes" that would complete the look and are not already shown.`
+      : `Treat the images as ALTERNATIVES the shopper is comparing. In "analysis", summarise what they have in common in 1-2 sentences.
+      In "comparison", compare the items in 2-4 sentences: key differences in style, material, versatility and likely price.
+      List 2-3 "complementaryItemTypes" that would pair well with any of them.`;
+    return {
+      contents: [
+        ...images.flatMap((image, index) => [`Image ${index}:`, image]),
+        `
+      You are an AI Shopping Assistant. You are given ${images.length} images, numbered 0 to ${images.length - 1} in the order shown.
+      For each image, add an entry to "items" with its "imageIndex", a one-sentence "analysis" of the main item, and its "attributes"
+      ("category", "itemType", "color", "material", "style"). Omit "attributes" for an image that is unclear or not product-related.
+      Also give each item an "altText": one plain sentence describing that image for someone who can't see it.
+      ${describeFacets(facets)}
+      ${modeInstructions}
+      ${userPrompt ? `Take into account the user's specific request: "${userPrompt}".` : ''}
+      ${describeShopper(shopper)}
+      ${describeResponseLocale(shopper.locale)}
+    `,
+      ],
+      schema: multiImageAnalysisSchema,
+    };
+  },
+
+  textQuery: ({ query, facets }, shopper) => ({
+    contents: [`
+      You are an AI Shopping Assistant. The shopper has no photo and described what they want in their own words:
+      "${query}"
+      1. In "analysis", restate what they are looking for in 1-2 sentences, including the occasion if they gave one.
+      2. Extract the attributes of the item they want: "category", "itemType", "color", "material" and "style".
+         ${describeFacets(facets)}
+         Infer a sensible style or material from the occasion when the shopper didn't name one.
+      3. List 2-4 "complementaryItemTypes" that would pair well with it. Prefer the item types listed above.
+      4. If they mentioned a budget, set "maxPrice" (and "minPrice" for a lower bound) as plain numbers.
+
+      If the request isn't about a product, say so in the analysis and omit "attributes".
+      ${describeShopper(shopper)}
+      ${describeResponseLocale(shopper.locale)}
+    `],
+    schema: textQuerySchema(shopper.catalogCurrency),
+  }),
+
+  itemDetection: ({ image, facets }, shopper) => ({
+    contents: [image, `
+      Detect each distinct wearable or shoppable item in the image (at most 6), e.g. jacket, jeans, sneakers, bag.
+      For each item return a short "label", its "box_2d" as [ymin, xmin, ymax, xmax] normalized to 0-1000,
+      its "attributes" ("category", "itemType", "color", "material", "style") and 2-3 "complementaryItemTypes".
+      ${describeFacets(facets)}
+      Return an empty "items" array if the image shows no shoppable items.
+      ${describeResponseLocale(shopper.locale)}
+    `],
+    schema: detectionSchema,
+  }),
+
+  ranking: ({ analysis, userPrompt, similar, complementary }, shopper) => ({
+    contents: [`
+    You are an AI Shopping Assistant. A shopper uploaded an image described as: "${analysis}"
+    ${userPrompt ? `Their specific request is: "${userPrompt}".` : ''}
+    ${describeShopper(shopper)}
+    ${describeResponseLocale(shopper.locale)}
+
+    Here are candidate items from our store catalog that look SIMILAR to the item in the image:
+${formatCandidates(similar)}
+
+    Here are candidate items that could COMPLEMENT the item in the image:
+${formatCandidates(complementary)}
+
+    Pick the 3-5 best similar items and the 2-3 best complementary items, best first. Only use ids from the lists above.
+    For each pick give a one-sentence "reason" explaining why it suits the shopper.
+  `],
+    schema: rankingSchema,
+  }),
+
+  productComparison: ({ product, analyzedText }, shopper) => ({
+    contents: [`
+      A shopper uploaded a photo described as: "${analyzedText}"
+      Compare it with this product from our catalog:
+      ${describeProduct(product)}
+
+      Return a one-sentence "summary" of how well the product matches, 2-4 "similarities" and 2-4 "differences".
+      Each entry should be short and concrete (style, colour, material, fit, occasion). Do not invent details that are not given.
+      ${describeResponseLocale(shopper.locale)}
+    `],
+    schema: productComparisonSchema,
+  }),
+
+  multiProductComparison: ({ products, analyzedText, shopperNeeds }, shopper) => ({
+    contents: [`
+      Compare these products for a shopper:
+      ${products.map(p => `Product id: ${p.id}\n${describeProduct(p)}`).join('\n\n')}
+
+      ${analyzedText ? `The shopper started from a photo described as: "${analyzedText}".` : ''}
+      ${shopperNeeds.length > 0 ? `What the shopper has said they want:\n${shopperNeeds.map(need => `- "${need}"`).join('\n')}` : 'The shopper has not stated specific needs.'}
+      ${describeShopper(shopper)}
+      ${describeResponseLocale(shopper.locale)}
+
+      For EVERY product, add an "attributes" entry with its "productId" and short values for "material", "color", "style"
+      and "useCase" (the occasion or purpose it suits). Use "unknown" when the details don't say.
+      Then give a 2-3 sentence "verdict" on which product best fits the shopper's needs and why,
+      and set "recommendedProductId" to that product's id.
+    `],
+    schema: multiProductComparisonSchema,
+  }),
+
+  lookPlanning: ({ analysis, attributes, itemTypes, budget }, shopper) => ({
+    contents: [`
+        You are a stylist putting together complete, coordinated sets around the shopper's item: "${analysis}".
+        ${attributes ? `Its attributes: ${Object.entries(attributes).filter(([, v]) => v).map(([k, v]) => `${k}: ${v}`).join(', ')}.` : ''}
+        Plan 2-3 distinct "looks", each with a short "name" and a one-sentence "description".
+        Give each look 2-4 "slots" for the OTHER pieces that complete it (the shopper's item already has its own slot).
+        Each slot has a "name" (e.g. "Bottom", "Shoes", "Accessory", "Rug", "Lighting") and 1-3 "itemTypes" from this list:
+        ${itemTypes.join(', ')}.
+        For clothing build whole outfits (top, bottom, shoes, accessory); for home items build whole rooms (e.g. sofa, rug, lamp).
+        ${budget ? `The shopper wants each complete look to cost at most ${formatMoney(budget, 'en-US')}.` : ''}
+        ${describeShopper(shopper)}
+        ${describeResponseLocale(shopper.locale)}
+      `],
+    schema: lookPlanSchema,
+  }),
+};
+
+/** Writes the prompt and response schema for a structured task from its inputs. */
+export const buildStructuredPrompt = (request: AIStructuredRequest): StructuredPrompt => {
+  const build = promptBuilders[request.task] as (input: AIStructuredRequest, shopper: AIShopperContext) => StructuredPrompt;
+  return build(request, request.shopper);
+};
+
+const searchCatalogDeclaration: FunctionDeclaration = {
+  name: 'searchCatalog',
+  description: 'Searches the store catalog for products. Call this whenever the shopper wants new, different or additional products.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      category: { type: Type.STRING, description: 'Broad store category, e.g. "Apparel" or "Home Decor".' },
+      itemType: { type: Type.STRING, description: 'Specific kind of item, e.g. "jacket" or "floor lamp".' },
+      color: { type: Type.STRING },
+      material: { type: Type.STRING },
+      style: { type: Type.STRING },
+      target: {
+        type: Type.STRING,
+        enum: ['similar', 'complementary'],
+        description: '"similar" for alternatives to the main item, "complementary" for items that pair with it.',
+      },
+    },
+    required: ['target'],
+  },
+};
+
+const refineSearchDeclaration = (catalogCurrency: string): FunctionDeclaration => ({
+  name: 'refineSearch',
+  description: 'Refines the product grid the shopper is browsing, e.g. "same but in black under $50" or "show me boots instead". '
+    + 'Pass only the constraints that changed; earlier ones stay in place until cleared. The grid refreshes on its own.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      category: { type: Type.STRING, description: 'Switch to another store category, e.g. "Footwear".' },
+      itemType: { type: Type.STRING, description: 'Switch to another kind of item, e.g. "boots".' },
+      color: { type: Type.STRING },
+      material: { type: Type.STRING },
+      style: { type: Type.STRING },
+      size: { type: Type.STRING, description: 'Size the shopper needs, e.g. "M" or "42".' },
+      minPrice: { type: Type.NUMBER, description: `Lowest price in ${catalogCurrency}${convertNote}` },
+      maxPrice: { type: Type.NUMBER, description: `Highest price in ${catalogCurrency}${convertNote}` },
+      clear: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING, enum: [...SEARCH_CONSTRAINT_KEYS, 'all'] },
+        description: 'Constraints the shopper dropped, e.g. ["maxPrice"] for "price doesn\'t matter", or ["all"] to start over.',
+      },
+    },
+  },
+});
+
+const rememberPreferenceDeclaration = (currency: string): FunctionDeclaration => ({
+  name: 'rememberPreference',
+  description: 'Proposes saving a lasting preference to the shopper\'s style profile, used in every future search. '
+    + 'Only for things that hold beyond the current search; use refineSearch for those. The shopper confirms before anything is saved.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      sizes: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Sizes with what they are for, e.g. ["M tops", "EU 42 shoes"].' },
+      favoriteColors: { type: Type.ARRAY, items: { type: Type.STRING } },
+      avoidBrands: { type: Type.ARRAY, items: { type: Type.STRING } },
+      avoidMaterials: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'E.g. ["polyester"] for "I never wear polyester".' },
+      fit: { type: Type.STRING, description: 'Gender or fit preference, e.g. "menswear, slim fit".' },
+      budgetMin: { type: Type.NUMBER, description: `Usual lowest spend per item in ${currency}.` },
+      budgetMax: { type: Type.NUMBER, description: `Usual highest spend per item in ${currency}.` },
+      notes: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Any other lasting preference, in a few words.' },
+    },
+  },
+});
+
+/** Writes the system instruction for a chat and picks its tools. */
+export const buildChatConfig = (options: AIChatOptions): ChatConfig => {
+  const { shopper } = options;
+  if (options.topic === 'product') {
+    return {
+      systemInstruction: `You are ShopSmarter AI answering questions about ONE specific product. Every question refers to this product:
+${describeProduct(options.product)}
+${options.analyzedText ? `For context, the shopper originally uploaded a photo described as: "${options.analyzedText}".` : ''}
+${describeShopper(shopper)}
+${describeResponseLocale(shopper.locale)}
+Answer concisely. If the details above don't cover a question (e.g. exact measurements or care instructions), say so and give general guidance for this kind of product.`,
+      tools: [],
+    };
+  }
+  return {
+    systemInstruction: `You are ShopSmarter, a friendly and helpful AI personal shopping assistant.
+    Your goal is to help users find products based on their uploaded images and subsequent requests.
+    Be concise and focus on product recommendations and style advice.
+    If the user asks for modifications or has new inputs, try to incorporate them into your suggestions.
+    If asked for new products, call the searchCatalog tool and only recommend items it returns, referring to them by name. The shopper sees those items as product cards, so keep your text short and do not repeat every detail.
+    When the shopper narrows or changes what they are browsing (a color, a price cap, a size, a style, or a different kind of item), call the refineSearch tool with just what changed, then confirm the change in one short sentence.
+    When the shopper states a LASTING preference about themselves ("I never wear polyester", "I'm a size M", "my budget is usually under $80"), call the rememberPreference tool. It only proposes the change; the shopper confirms it before it is saved.
+    ${describeShopper(shopper)}
+    ${describeResponseLocale(shopper.locale)}
+    Do not attempt to re-analyze the original image unless specifically asked or provided with a new one. Focus on the ongoing conversation and previous product suggestions.
+    Always ensure your responses are directly usable and avoid meta-comments about your process unless specifically relevant to clarifying a user's query.`,
+    tools: [searchCatalogDeclaration, refineSearchDeclaration(shopper.catalogCurrency), rememberPreferenceDeclaration(shopper.locale.currency)],
+  };
+};
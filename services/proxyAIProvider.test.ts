@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIChatChunk, AIChatOptions, AIChatTurn, ChatRequestBody } from '../types';
+import { CHAT_SESSION_HEADER, createProxyAIProvider, MAX_CHAT_BODY_BYTES } from './proxyAIProvider';
+import { createEmptyStyleProfile } from './styleProfileService';
+
+const shopper = { locale: { locale: 'en-US', currency: 'USD' }, styleProfile: createEmptyStyleProfile(), catalogCurrency: 'USD' };
+
+const streamResponse = (sessionId: string, texts: string[]): Response =>
+  new Response(texts.map(text => `${JSON.stringify({ text, functionCalls: [] })}\n`).join(''), {
+    status: 200,
+    headers: { 'Content-Type': 'application/x-ndjson', [CHAT_SESSION_HEADER]: sessionId },
+  });
+
+const expiredResponse = (): Response =>
+  new Response(JSON.stringify({ error: 'This chat session has expired. Please start a new chat.' }), {
+    status: 404,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const readAll = async (chunks: AsyncIterable<AIChatChunk>): Promise<string> => {
+  let text = '';
+  for await (const chunk of chunks) text += chunk.text;
+  return text;
+};
+
+// Records each /api/chat body and answers with the queued responses in order.
+const mockFetch = (responses: Response[]) => {
+  const bodies: ChatRequestBody[] = [];
+  const sizes: number[] = [];
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(init.body as string));
+    sizes.push(new TextEncoder().encode(init.body as string).length);
+    const response = responses.shift();
+    if (!response) throw new Error('Unexpected request');
+    return response;
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { bodies, sizes, fetchMock };
+};
+
+describe('proxy chat sessions', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reuses the session id the server returned', async () => {
+    const { bodies } = mockFetch([streamResponse('session-1', ['Hi']), streamResponse('session-1', ['Sure'])]);
+    const chat = createProxyAIProvider().createChat({ topic: 'shopping', shopper });
+
+    await readAll(await chat.sendMessageStream('hello'));
+    await readAll(await chat.sendMessageStream('show me boots'));
+
+    expect(bodies[0]).toMatchObject({ options: { topic: 'shopping' }, message: 'hello' });
+    expect(bodies[1]).toEqual({ sessionId: 'session-1', message: 'show me boots' });
+  });
+
+  it('reopens an expired session with the conversation so far', async () => {
+    const options: AIChatOptions = { topic: 'shopping', shopper, history: [{ role: 'user', text: 'earlier question' }, { role: 'model', text: 'earlier answer' }] };
+    const { bodies } = mockFetch([
+      streamResponse('session-1', ['Black ', 'boots it is.']),
+      expiredResponse(),
+      streamResponse('session-2', ['Here are some.']),
+      streamResponse('session-2', ['Anything else?']),
+    ]);
+    const chat = createProxyAIProvider().createChat(options);
+
+    await readAll(await chat.sendMessageStream('black boots please'));
+    const reply = await readAll(await chat.sendMessageStream('under $80'));
+    await readAll(await chat.sendMessageStream('thanks'));
+
+    expect(reply).toBe('Here are some.');
+    expect(bodies[1]).toEqual({ sessionId: 'session-1', message: 'under $80' });
+    expect(bodies[2]).toEqual({
+      options: {
+        topic: 'shopping',
+        shopper,
+        history: [
+          { role: 'user', text: 'earlier question' },
+          { role: 'model', text: 'earlier answer' },
+          { role: 'user', text: 'black boots please' },
+          { role: 'model', text: 'Black boots it is.' },
+        ],
+      },
+      message: 'under $80',
+    });
+    expect(bodies[3]).toEqual({ sessionId: 'session-2', message: 'thanks' });
+    // The caller's options are left as they were.
+    expect(options.history).toHaveLength(2);
+  });
+
+  it('drops an expired session without resending function results', async () => {
+    const { bodies } = mockFetch([
+      streamResponse('session-1', ['Let me check. ']),
+      expiredResponse(),
+      streamResponse('session-2', ['Hello again.']),
+    ]);
+    const chat = createProxyAIProvider().createChat({ topic: 'shopping', shopper });
+
+    await readAll(await chat.sendMessageStream('boots'));
+    await expect(chat.sendMessageStream([{ name: 'searchCatalog', response: { products: [] } }])).rejects.toMatchObject({ kind: 'unknown' });
+    await readAll(await chat.sendMessageStream('hello?'));
+
+    expect(bodies).toHaveLength(3);
+    expect(bodies[2]).toMatchObject({ options: { history: [{ role: 'user', text: 'boots' }, { role: 'model', text: 'Let me check. ' }] }, message: 'hello?' });
+  });
+
+  it('drops the oldest turns so a long conversation still fits the server body limit', async () => {
+    // 200 turns of about 3 KB of Arabic text (two bytes a character) is well over the limit.
+    const history: AIChatTurn[] = Array.from({ length: 200 }, (_, index) => ({
+      role: index % 2 === 0 ? 'user' : 'model',
+      text: `${index} ${'ب'.repeat(1_500)}`,
+    }));
+    const { bodies, sizes } = mockFetch([
+      streamResponse('session-1', ['First.']),
+      expiredResponse(),
+      streamResponse('session-2', ['Second.']),
+    ]);
+    const chat = createProxyAIProvider().createChat({ topic: 'shopping', shopper, history });
+
+    await readAll(await chat.sendMessageStream('first question'));
+    await readAll(await chat.sendMessageStream('second question'));
+
+    sizes.forEach(size => expect(size).toBeLessThanOrEqual(MAX_CHAT_BODY_BYTES));
+    const opened = bodies[0] as { options: AIChatOptions };
+    const reopened = bodies[2] as { options: AIChatOptions };
+    expect(opened.options.history!.length).toBeGreaterThan(0);
+    expect(opened.options.history![0].role).toBe('user');
+    expect(opened.options.history!.at(-1)).toEqual(history.at(-1));
+    expect(reopened.options.history!.slice(-2)).toEqual([{ role: 'user', text: 'first question' }, { role: 'model', text: 'First.' }]);
+    expect(reopened.options.history![0].role).toBe('user');
+  });
+});
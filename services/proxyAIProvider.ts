@@ -0,0 +1,150 @@
+import { AIChatChunk, AIChatOptions, AIChatTurn, AIErrorKind, AIFunctionResult, AIProvider, AnalyzeResponseBody, ApiErrorBody, ChatRequestBody } from '../types';
+import { AIError, createAIError } from './aiErrors';
+
+// The server names the chat session it created in this header; later messages send the id back.
+export const CHAT_SESSION_HEADER = 'X-Chat-Session-Id';
+
+export const PROXY_MODEL = 'server';
+
+// The API server turns larger /api/chat bodies away (413). Restored history gets at most this share of it,
+// leaving room for the message, style profile and product.
+export const MAX_CHAT_BODY_BYTES = 256 * 1024;
+export const MAX_CHAT_HISTORY_BYTES = 192 * 1024;
+
+const byteLength = (value: unknown): number => new TextEncoder().encode(JSON.stringify(value)).length;
+
+/** Keeps the most recent turns that fit in `maxBytes` of JSON. History has to open with a user turn. */
+export const trimChatHistory = (history: AIChatTurn[], maxBytes: number): AIChatTurn[] => {
+  let size = byteLength([]);
+  let start = history.length;
+  while (start > 0) {
+    const turnSize = byteLength(history[start - 1]) + 1; // And its comma
+    if (size + turnSize > maxBytes) break;
+    size += turnSize;
+    start--;
+  }
+  const kept = history.slice(start);
+  return kept[0]?.role === 'model' ? kept.slice(1) : kept;
+};
+
+// Without a kind from the server (e.g. its own rate limiter, or a gateway in front of it) the status decides.
+const kindForStatus = (status: number): AIErrorKind => {
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'network';
+  return 'unknown';
+};
+
+const readError = async (response: Response): Promise<AIError> => {
+  let message = `${response.status} ${response.statusText}`.trim();
+  let kind = kindForStatus(response.status);
+  try {
+    const body = (await response.json()) as Partial<ApiErrorBody>;
+    if (typeof body.error === 'string') message = body.error;
+    if (body.kind) kind = body.kind;
+  } catch {
+    // Not JSON, e.g. an HTML error page from a reverse proxy; the status line will do.
+  }
+  const retryAfterSeconds = Number(response.headers.get('Retry-After'));
+  return createAIError(kind, `API request failed: ${message}`, retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined);
+};
+
+const postJson = (url: string, body: unknown, signal?: AbortSignal): Promise<Response> =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+// The chat endpoint streams one JSON object per line: a chunk, or an error if the model failed mid-reply.
+async function* readChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<AIChatChunk> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split('\n');
+      buffered = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const parsed = JSON.parse(line) as AIChatChunk | ApiErrorBody;
+        if ('error' in parsed) throw createAIError(parsed.kind ?? 'unknown', `API request failed: ${parsed.error}`);
+        yield parsed;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Consecutive turns from one side are merged, as in a restored transcript, e.g. the text of several tool rounds.
+const appendTurn = (history: AIChatTurn[], role: AIChatTurn['role'], text: string): void => {
+  if (!text) return;
+  const last = history[history.length - 1];
+  if (last && last.role === role) {
+    last.text += `\n${text}`;
+  } else {
+    history.push({ role, text });
+  }
+};
+
+// Passes chunks through while adding the reply text to the history, including a reply cut short.
+async function* recordReply(chunks: AsyncIterable<AIChatChunk>, history: AIChatTurn[]): AsyncGenerator<AIChatChunk> {
+  let text = '';
+  try {
+    for await (const chunk of chunks) {
+      text += chunk.text;
+      yield chunk;
+    }
+  } finally {
+    appendTurn(history, 'model', text);
+  }
+}
+
+/** Calls the app's own API server, which holds the model key and talks to Gemini on the browser's behalf. */
+export const createProxyAIProvider = (): AIProvider => ({
+  id: 'proxy',
+  model: PROXY_MODEL,
+
+  async generateStructured(request, signal) {
+    const response = await postJson('/api/analyze', request, signal);
+    if (!response.ok) throw await readError(response);
+    return ((await response.json()) as AnalyzeResponseBody).text;
+  },
+
+  createChat(options: AIChatOptions) {
+    // Created lazily: the server only opens a session when the first message arrives.
+    let sessionId: string | null = null;
+    // The conversation so far, so a session the server has expired can be reopened where it left off.
+    // Its oldest turns are dropped once the whole request would no longer fit the server's body limit.
+    let history: AIChatTurn[] = (options.history || []).map(turn => ({ ...turn }));
+    const open = (message: string | AIFunctionResult[], toolOptions: { allowTools?: false }, signal?: AbortSignal) => {
+      const body = { options: { ...options, history: [] }, message, ...toolOptions } satisfies ChatRequestBody;
+      history = trimChatHistory(history, MAX_CHAT_BODY_BYTES - byteLength(body));
+      return postJson('/api/chat', { ...body, options: { ...options, history } } satisfies ChatRequestBody, signal);
+    };
+
+    return {
+      async sendMessageStream(message, signal, sendOptions) {
+        const toolOptions = sendOptions?.allowTools === false ? { allowTools: false as const } : {};
+        let response = sessionId
+          ? await postJson('/api/chat', { sessionId, message, ...toolOptions } satisfies ChatRequestBody, signal)
+          : await open(message, toolOptions, signal);
+        // Idle sessions expire on the server (404). A text message can start over in a new session with the
+        // history so far; function results answer calls that only the lost session knew about.
+        if (response.status === 404 && sessionId) {
+          sessionId = null;
+          if (typeof message === 'string') response = await open(message, toolOptions, signal);
+        }
+        if (!response.ok || !response.body) throw await readError(response);
+        sessionId = response.headers.get(CHAT_SESSION_HEADER) ?? sessionId;
+        if (typeof message === 'string') appendTurn(history, 'user', message);
+        return recordReply(readChunks(response.body), history);
+      },
+    };
+  },
+});
@@ -0,0 +1,111 @@
+import { Product, SharedResult } from '../types';
+import { formatMoney } from './priceService';
+import { I18n } from './i18nService';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+// Product photos come from catalogs and shared files; only ones that are plainly images are embedded.
+const safeImageUrl = (url: string): string | null => (/^(https?:|data:image\/)/.test(url) ? url : null);
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #1f2937; margin: 2rem auto; max-width: 52rem; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.75rem; margin: 0; color: #3730a3; }
+  h2 { font-size: 1.15rem; margin: 2rem 0 0.5rem; color: #3730a3; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin: 0.25rem 0 1.5rem; }
+  .note { background: #eef2ff; border-inline-start: 4px solid #6366f1; padding: 0.75rem 1rem; white-space: pre-wrap; }
+  .summary { display: flex; gap: 1.5rem; align-items: flex-start; }
+  .summary img { max-width: 16rem; max-height: 16rem; border-radius: 0.5rem; object-fit: cover; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; margin: 0.75rem 0 0; font-size: 0.875rem; }
+  dt { color: #6b7280; }
+  dd { margin: 0; text-transform: capitalize; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { text-align: start; padding: 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f9fafb; }
+  td.thumb { width: 4rem; }
+  td.thumb img { width: 4rem; height: 4rem; object-fit: cover; border-radius: 0.25rem; }
+  td.price { white-space: nowrap; font-weight: 600; }
+  .reason { color: #4f46e5; font-style: italic; }
+  .chat p { margin: 0.5rem 0; white-space: pre-wrap; }
+  .chat .who { font-weight: 600; }
+  footer { margin-top: 2rem; color: #9ca3af; font-size: 0.75rem; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    tr, .chat p { break-inside: avoid; }
+  }
+`;
+
+const renderProductTable = (products: Product[], { t, locale }: I18n): string => {
+  const rows = products.map(product => {
+    const image = safeImageUrl(product.imageUrl);
+    return `
+      <tr>
+        <td class="thumb">${image ? `<img src="${escapeHtml(image)}" alt="">` : ''}</td>
+        <td>
+          <strong>${escapeHtml(product.name)}</strong><br>
+          ${escapeHtml(product.description)}
+          ${product.matchReason ? `<br><span class="reason">${escapeHtml(product.matchReason)}</span>` : ''}
+        </td>
+        <td>${escapeHtml(product.category)}</td>
+        <td class="price">${escapeHtml(formatMoney(product.price, locale))}</td>
+      </tr>`;
+  }).join('');
+  return `
+    <table>
+      <thead><tr><th></th><th>${escapeHtml(t('report.product'))}</th><th>${escapeHtml(t('report.category'))}</th><th>${escapeHtml(t('report.price'))}</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+};
+
+/**
+ * Renders a shared result as a standalone HTML page for printing or saving as PDF. Everything is inline
+ * (styles and the photo) so the file still works when emailed on its own.
+ */
+export const renderShoppingReport = (result: SharedResult, i18n: I18n): string => {
+  const { t, locale, dir } = i18n;
+  const title = result.title || t('shared.untitled');
+  const attributeRows = result.attributes
+    ? (['category', 'itemType', 'color', 'material', 'style'] as const)
+        .filter(key => result.attributes![key])
+        .map(key => `<dt>${escapeHtml(t(`report.attribute.${key}`))}</dt><dd>${escapeHtml(result.attributes![key])}</dd>`)
+        .join('')
+    : '';
+  const sections = [
+    result.note ? `<h2>${escapeHtml(t('report.note'))}</h2><p class="note">${escapeHtml(result.note)}</p>` : '',
+    `<h2>${escapeHtml(t('report.analysis'))}</h2>
+    <div class="summary">
+      ${result.image ? `<img src="${escapeHtml(result.image)}" alt="${escapeHtml(result.imageAlt ?? t('upload.previewAlt'))}">` : ''}
+      <div>
+        <p>${escapeHtml(result.analysis ?? '')}</p>
+        ${attributeRows ? `<dl>${attributeRows}</dl>` : ''}
+      </div>
+    </div>`,
+    result.similarProducts.length > 0 ? `<h2>${escapeHtml(t('discover.tabSimilar'))}</h2>${renderProductTable(result.similarProducts, i18n)}` : '',
+    result.complementaryProducts.length > 0 ? `<h2>${escapeHtml(t('discover.tabComplementary'))}</h2>${renderProductTable(result.complementaryProducts, i18n)}` : '',
+    result.chatExcerpts.length > 0
+      ? `<h2>${escapeHtml(t('report.chat'))}</h2>
+        <div class="chat">${result.chatExcerpts.map(excerpt => `
+          <p><span class="who">${escapeHtml(excerpt.sender === 'user' ? t('chat.you') : t('chat.ai'))}:</span> ${escapeHtml(excerpt.text)}</p>`).join('')}
+        </div>`
+      : '',
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}" dir="${dir}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · ${escapeHtml(t('app.title'))}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">${escapeHtml(t('report.preparedOn', { date: new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(result.sharedAt) }))}</p>
+</header>
+<main>${sections.join('')}</main>
+<footer>${escapeHtml(t('report.footer'))}</footer>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { streamWithRetries, withRetries } from './retryService';
+
+// Counts the abort listeners added to and removed from a caller's signal.
+const watchedSignal = () => {
+  const controller = new AbortController();
+  const add = vi.spyOn(controller.signal, 'addEventListener');
+  const remove = vi.spyOn(controller.signal, 'removeEventListener');
+  return { controller, signal: controller.signal, linked: () => add.mock.calls.length - remove.mock.calls.length };
+};
+
+async function* slowChunks(signal: AbortSignal, ...delays: number[]): AsyncGenerator<string> {
+  for (const delay of delays) {
+    await new Promise(resolve => setTimeout(resolve, delay));
+    if (signal.aborted) return;
+    yield `after ${delay} ms`;
+  }
+}
+
+describe('withRetries', () => {
+  it('leaves no listener on the caller signal after retried and successful attempts', async () => {
+    const { signal, linked } = watchedSignal();
+    let calls = 0;
+
+    const value = await withRetries(async () => {
+      calls++;
+      if (calls < 3) throw new TypeError('fetch failed');
+      return 'done';
+    }, { timeoutMs: 1_000, signal, baseDelayMs: 1, maxDelayMs: 1 });
+
+    expect(value).toBe('done');
+    expect(calls).toBe(3);
+    expect(linked()).toBe(0);
+  });
+});
+
+describe('streamWithRetries', () => {
+  it('keeps the caller linked while the stream is read and unlinks it at the end', async () => {
+    const { signal, linked } = watchedSignal();
+    const stream = await streamWithRetries(async attemptSignal => slowChunks(attemptSignal, 1, 1), { timeoutMs: 1_000, idleTimeoutMs: 1_000, signal });
+
+    expect(linked()).toBe(1);
+    const chunks: string[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+
+    expect(chunks).toHaveLength(2);
+    expect(linked()).toBe(0);
+  });
+
+  it('fails a stream that stops sending chunks and aborts it', async () => {
+    const { signal, linked } = watchedSignal();
+    let attemptSignal: AbortSignal | undefined;
+    const stream = await streamWithRetries(async opened => {
+      attemptSignal = opened;
+      return slowChunks(opened, 1, 200);
+    }, { timeoutMs: 1_000, idleTimeoutMs: 50, signal });
+
+    const chunks: string[] = [];
+    await expect((async () => {
+      for await (const chunk of stream) chunks.push(chunk);
+    })()).rejects.toMatchObject({ kind: 'timeout' });
+
+    expect(chunks).toHaveLength(1);
+    expect(attemptSignal?.aborted).toBe(true);
+    expect(linked()).toBe(0);
+  });
+});
@@ -0,0 +1,153 @@
+import { AICancelledError, AIError, AIQuotaError, AITimeoutError, toAIError } from './aiErrors';
+
+export interface RetryOptions {
+  timeoutMs: number; // Per attempt, not for the whole call
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 8_000;
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AICancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface AttemptResult<T> {
+  value: T;
+  controller: AbortController; // Aborts whatever the attempt opened, e.g. a stream still being read
+  unlink: () => void; // Stops forwarding the caller's abort to `controller`
+}
+
+// Each attempt gets its own signal, aborted on timeout or when the caller aborts. A failed attempt is
+// unlinked from the caller straight away; a successful one stays linked until its result is finished with.
+const runAttempt = <T>(attempt: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<AttemptResult<T>> => {
+  const controller = new AbortController();
+  const abortAttempt = () => controller.abort();
+  signal?.addEventListener('abort', abortAttempt, { once: true });
+  const unlink = () => signal?.removeEventListener('abort', abortAttempt);
+
+  return new Promise<AttemptResult<T>>((resolve, reject) => {
+    // Settle as soon as the timeout or the caller fires, even if the provider ignores its signal.
+    const fail = (error: unknown) => {
+      unlink();
+      reject(error);
+    };
+    const onCallerAbort = () => fail(new AICancelledError());
+    const timer = setTimeout(() => {
+      fail(new AITimeoutError(`No response within ${Math.round(timeoutMs / 1000)} seconds.`));
+      controller.abort();
+    }, timeoutMs);
+    signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    attempt(controller.signal)
+      .then(value => resolve({ value, controller, unlink }), fail)
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onCallerAbort);
+      });
+  });
+};
+
+const backoffDelay = (error: AIError, attemptNumber: number, baseDelayMs: number, maxDelayMs: number): number => {
+  if (error instanceof AIQuotaError && error.retryAfterMs) {
+    return Math.min(error.retryAfterMs, maxDelayMs);
+  }
+  // Full jitter, so clients that failed together don't all come back at the same moment.
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attemptNumber - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+const retryAttempts = async <T>(attempt: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<AttemptResult<T>> => {
+  const {
+    timeoutMs,
+    signal,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  } = options;
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    if (signal?.aborted) throw new AICancelledError();
+    try {
+      return await runAttempt(attempt, timeoutMs, signal);
+    } catch (caught) {
+      const error = signal?.aborted ? new AICancelledError() : toAIError(caught);
+      if (!error.retryable || attemptNumber >= maxAttempts) throw error;
+      const delay = backoffDelay(error, attemptNumber, baseDelayMs, maxDelayMs);
+      console.warn(`AI call failed (${error.kind}: ${error.message}); retrying in ${delay} ms.`);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+/**
+ * Runs `attempt` with a per-attempt timeout, retrying transient failures (quota, network, parse, timeout)
+ * with exponential backoff. Whatever fails is rethrown as an AIError; aborting `signal` rejects with
+ * AICancelledError straight away, including while waiting between attempts.
+ */
+export const withRetries = async <T>(attempt: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { value, unlink } = await retryAttempts(attempt, options);
+  unlink();
+  return value;
+};
+
+export interface StreamRetryOptions extends RetryOptions {
+  idleTimeoutMs: number; // Longest wait for the next chunk once the stream is open
+}
+
+// Waits for the next chunk, aborting the stream if none arrives in time.
+const nextChunk = <T>(iterator: AsyncIterator<T>, idleTimeoutMs: number, controller: AbortController): Promise<IteratorResult<T>> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new AITimeoutError(`The reply stalled for ${Math.round(idleTimeoutMs / 1000)} seconds.`));
+      controller.abort();
+    }, idleTimeoutMs);
+    iterator.next().then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+async function* watchStream<T>(stream: AsyncIterable<T>, idleTimeoutMs: number, { controller, unlink }: AttemptResult<unknown>): AsyncGenerator<T> {
+  const iterator = stream[Symbol.asyncIterator]();
+  let finished = false;
+  try {
+    while (true) {
+      const result = await nextChunk(iterator, idleTimeoutMs, controller);
+      if (result.done) {
+        finished = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    unlink();
+    // Stopped early (a break, an error or a stall): close the provider's stream without waiting on it.
+    if (!finished) {
+      controller.abort();
+      iterator.return?.().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Opens a stream like `withRetries` (only opening is retried) and watches it while it is read: a stream with
+ * no chunk for `idleTimeoutMs` fails with AITimeoutError, and the caller's signal stays linked until it ends.
+ */
+export const streamWithRetries = async <T>(
+  open: (signal: AbortSignal) => Promise<AsyncIterable<T>>,
+  { idleTimeoutMs, ...options }: StreamRetryOptions
+): Promise<AsyncIterable<T>> => {
+  const attempt = await retryAttempts(open, options);
+  return watchStream(attempt.value, idleTimeoutMs, attempt);
+};
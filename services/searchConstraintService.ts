@@ -0,0 +1,57 @@
+import { ConstraintChange, SearchConstraintKey, SearchConstraints } from '../types';
+import { formatMoney } from './priceService';
+
+export const SEARCH_CONSTRAINT_KEYS: SearchConstraintKey[] = [
+  'category', 'itemType', 'color', 'material', 'style', 'size', 'minPrice', 'maxPrice',
+];
+
+export const MAX_RESULTS_HISTORY = 10;
+
+export const hasConstraints = (constraints: SearchConstraints): boolean =>
+  SEARCH_CONSTRAINT_KEYS.some(key => constraints[key] !== undefined);
+
+export const removeConstraint = (constraints: SearchConstraints, key: SearchConstraintKey): SearchConstraints => {
+  const next = { ...constraints };
+  delete next[key];
+  return next;
+};
+
+/** Applies a change from chat: cleared keys go first, so a turn can both drop and replace a constraint. */
+export const applyConstraintChange = (constraints: SearchConstraints, change: ConstraintChange): SearchConstraints => {
+  const next = change.clear.reduce(removeConstraint, constraints);
+  return { ...next, ...change.set };
+};
+
+// Combines the refinements from several tool calls in one chat turn; later calls win.
+export const mergeConstraintChanges = (first: ConstraintChange | undefined, second: ConstraintChange): ConstraintChange => {
+  if (!first) return second;
+  const set = second.clear.reduce(removeConstraint, first.set);
+  return {
+    set: { ...set, ...second.set },
+    clear: Array.from(new Set([...first.clear.filter(key => second.set[key] === undefined), ...second.clear])),
+  };
+};
+
+export const isSameConstraints = (a: SearchConstraints, b: SearchConstraints): boolean =>
+  SEARCH_CONSTRAINT_KEYS.every(key => {
+    const first = a[key];
+    const second = b[key];
+    return typeof first === 'object' && typeof second === 'object'
+      ? first.amountMinor === second.amountMinor && first.currency === second.currency
+      : first === second;
+  });
+
+/** Price bounds the catalog can't apply: without exchange rates, a bound only works in the catalog's own currency. */
+export const getUnappliedPriceKeys = (constraints: SearchConstraints, catalogCurrency: string): SearchConstraintKey[] =>
+  (['minPrice', 'maxPrice'] as const).filter(key => constraints[key] && constraints[key].currency !== catalogCurrency);
+
+/** Plain-English summary for prompts, e.g. "color: black, at most $50.00". Empty when nothing is set. */
+export const describeConstraints = (constraints: SearchConstraints): string => {
+  const parts: string[] = [];
+  (['category', 'itemType', 'color', 'material', 'style', 'size'] as const).forEach(key => {
+    if (constraints[key]) parts.push(`${key}: ${constraints[key]}`);
+  });
+  if (constraints.minPrice) parts.push(`at least ${formatMoney(constraints.minPrice, 'en-US')}`);
+  if (constraints.maxPrice) parts.push(`at most ${formatMoney(constraints.maxPrice, 'en-US')}`);
+  return parts.join(', ');
+};
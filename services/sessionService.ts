@@ -0,0 +1,90 @@
+import { ProductAttributes, ShoppingSession, ShoppingSessionSummary } from '../types';
+
+const DB_NAME = 'shopsmarter';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open the session database.'));
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing blocked it).
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSIONS_STORE, mode);
+    const request = action(transaction.objectStore(SESSIONS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error ?? new Error('Session database request failed.'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Session database transaction was aborted.'));
+  });
+};
+
+export const createSessionId = (): string => `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const buildSessionTitle = (analyzedText: string | null, attributes?: ProductAttributes | null): string => {
+  const described = attributes ? [attributes.color, attributes.material, attributes.itemType].filter(Boolean).join(' ') : '';
+  if (described) {
+    return described.charAt(0).toUpperCase() + described.slice(1);
+  }
+  if (analyzedText) {
+    return analyzedText.length > 40 ? `${analyzedText.slice(0, 40)}...` : analyzedText;
+  }
+  return '';
+};
+
+/** Inserts or updates a session, keeping the original creation time when it already exists. */
+export const saveSession = async (session: Omit<ShoppingSession, 'createdAt'>): Promise<void> => {
+  const db = await openDatabase();
+  // Streaming flags describe in-flight UI state and must not survive a reload.
+  const chatMessages = session.chatMessages.map(({ isStreaming, ...msg }) => msg);
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(SESSIONS_STORE);
+    const existing = store.get(session.id);
+    existing.onsuccess = () => {
+      const createdAt = (existing.result as ShoppingSession | undefined)?.createdAt ?? session.updatedAt;
+      store.put({ ...session, chatMessages, createdAt });
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('Failed to save the session.'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Saving the session was aborted.'));
+  });
+};
+
+export const getSession = async (id: string): Promise<ShoppingSession | null> =>
+  (await runRequest<ShoppingSession | undefined>('readonly', store => store.get(id))) ?? null;
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+/** Lists saved sessions, most recently updated first, without loading products or transcripts. */
+export const listSessions = async (): Promise<ShoppingSessionSummary[]> => {
+  const sessions = await runRequest<ShoppingSession[]>('readonly', store => store.getAll());
+  return sessions
+    .map(({ id, title, createdAt, updatedAt, thumbnail }) => ({ id, title, createdAt, updatedAt, thumbnail }))
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+};
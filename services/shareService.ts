@@ -0,0 +1,186 @@
+import { ChatMessage, Product, ProductAttributes, SharedChatExcerpt, SharedResult, ValidationIssue } from '../types';
+import { validateAttributes, validateProducts } from './validationService';
+
+const SHARE_VERSION = 1;
+const SHARE_HASH_KEY = 'share';
+
+// Long links get cut off by some mail and chat apps; past this the photo is left out, then the link is refused.
+export const MAX_SHARE_LINK_LENGTH = 16000;
+
+const MAX_NOTE_CHARS = 2000;
+const MAX_EXCERPT_CHARS = 4000;
+
+/** Thrown when a shared link or file is damaged, from a newer version of the app, or not a shared result at all. */
+export class SharedResultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SharedResultError';
+  }
+}
+
+export interface SharedResultSource {
+  title: string;
+  image: string | null;
+  imageAlt?: string;
+  analysis: string | null;
+  attributes?: ProductAttributes | null;
+  similarProducts: Product[];
+  complementaryProducts: Product[];
+}
+
+/** Chat messages worth offering as excerpts: finished replies and questions with some text. */
+export const getShareableMessages = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.filter(msg => !msg.isStreaming && !msg.errorKind && msg.text.trim());
+
+export const buildSharedResult = (source: SharedResultSource, excerpts: ChatMessage[] = [], note = ''): SharedResult => {
+  const trimmedNote = note.trim().slice(0, MAX_NOTE_CHARS);
+  return {
+    version: SHARE_VERSION,
+    title: source.title,
+    sharedAt: new Date(),
+    image: source.image,
+    ...(source.imageAlt ? { imageAlt: source.imageAlt } : {}),
+    analysis: source.analysis,
+    ...(source.attributes ? { attributes: source.attributes } : {}),
+    similarProducts: source.similarProducts,
+    complementaryProducts: source.complementaryProducts,
+    chatExcerpts: excerpts.map(({ sender, text, timestamp }) => ({ sender, text, timestamp })),
+    ...(trimmedNote ? { note: trimmedNote } : {}),
+  };
+};
+
+const asOptionalText = (value: unknown, maxLength: number): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : undefined;
+
+const parseExcerpts = (value: unknown): SharedChatExcerpt[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry): SharedChatExcerpt[] => {
+    if (typeof entry !== 'object' || entry === null) return [];
+    const { sender, text, timestamp } = entry as Record<string, unknown>;
+    const parsedText = asOptionalText(text, MAX_EXCERPT_CHARS);
+    if ((sender !== 'user' && sender !== 'ai') || !parsedText) return [];
+    const date = new Date(typeof timestamp === 'string' || typeof timestamp === 'number' ? timestamp : NaN);
+    return [{ sender, text: parsedText, timestamp: Number.isNaN(date.getTime()) ? new Date(0) : date }];
+  });
+};
+
+/**
+ * Checks a shared result read from a link or file. Anyone can hand-craft one, so every field goes through
+ * the same checks as AI output; broken products are dropped and only an unreadable bundle is rejected.
+ */
+export const parseSharedResult = (value: unknown): SharedResult => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SharedResultError('This is not a shared ShopSmarter result.');
+  }
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.version !== 'number' || !Array.isArray(raw.similarProducts)) {
+    throw new SharedResultError('This is not a shared ShopSmarter result.');
+  }
+  if (raw.version > SHARE_VERSION) {
+    throw new SharedResultError('This result was shared from a newer version of ShopSmarter.');
+  }
+
+  const issues: ValidationIssue[] = [];
+  const similar = validateProducts(raw.similarProducts, 'similarProducts');
+  const complementary = validateProducts(raw.complementaryProducts, 'complementaryProducts');
+  const attributes = validateAttributes(raw.attributes, 'attributes', issues);
+  if (similar.issues.length + complementary.issues.length + issues.length > 0) {
+    console.warn("Shared result had problems:", [...similar.issues, ...complementary.issues, ...issues]);
+  }
+
+  const image = typeof raw.image === 'string' && raw.image.startsWith('data:image/') ? raw.image : null;
+  const sharedAt = new Date(typeof raw.sharedAt === 'string' || typeof raw.sharedAt === 'number' ? raw.sharedAt : NaN);
+  const imageAlt = asOptionalText(raw.imageAlt, 250);
+  const note = asOptionalText(raw.note, MAX_NOTE_CHARS);
+  return {
+    version: raw.version,
+    title: asOptionalText(raw.title, 120) ?? '',
+    sharedAt: Number.isNaN(sharedAt.getTime()) ? new Date() : sharedAt,
+    image,
+    ...(image && imageAlt ? { imageAlt } : {}),
+    analysis: asOptionalText(raw.analysis, MAX_EXCERPT_CHARS) ?? null,
+    ...(attributes ? { attributes } : {}),
+    similarProducts: similar.value,
+    complementaryProducts: complementary.value,
+    chatExcerpts: parseExcerpts(raw.chatExcerpts),
+    ...(note ? { note } : {}),
+  };
+};
+
+// --- JSON bundle ---
+
+export const exportSharedResultToJson = (result: SharedResult): string => JSON.stringify(result, null, 2);
+
+export const parseSharedResultFile = (text: string): SharedResult => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new SharedResultError('The file is not valid JSON.');
+  }
+  return parseSharedResult(value);
+};
+
+// --- Links ---
+// The result travels in the URL fragment, which browsers never send to the server, deflated and base64url-encoded.
+
+const readStream = async (stream: ReadableStream<Uint8Array>): Promise<Uint8Array> => {
+  const buffer = await new Response(stream).arrayBuffer();
+  return new Uint8Array(buffer);
+};
+
+const deflate = (text: string): Promise<Uint8Array> =>
+  readStream(new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw')));
+
+const inflate = async (bytes: Uint8Array): Promise<string> =>
+  new TextDecoder().decode(await readStream(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))));
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000; // Keeps String.fromCharCode under the argument limit
+  for (let index = 0; index < bytes.length; index += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + chunkSize));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const toShareUrl = async (result: SharedResult, baseUrl: string): Promise<string> => {
+  const url = new URL(baseUrl);
+  url.hash = `${SHARE_HASH_KEY}=${toBase64Url(await deflate(JSON.stringify(result)))}`;
+  return url.toString();
+};
+
+export interface ShareLink {
+  url: string;
+  includesImage: boolean;
+}
+
+/** Builds a link that opens the result read-only. Returns null when it would be too long even without the photo. */
+export const createShareLink = async (result: SharedResult, baseUrl: string): Promise<ShareLink | null> => {
+  if (result.image) {
+    const url = await toShareUrl(result, baseUrl);
+    if (url.length <= MAX_SHARE_LINK_LENGTH) return { url, includesImage: true };
+  }
+  const { imageAlt, ...withoutImage } = result;
+  const url = await toShareUrl({ ...withoutImage, image: null }, baseUrl);
+  return url.length <= MAX_SHARE_LINK_LENGTH ? { url, includesImage: false } : null;
+};
+
+/** The encoded result in a location hash such as "#share=...", or null when the page was opened normally. */
+export const getSharePayload = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_HASH_KEY) || null;
+
+export const decodeSharePayload = async (payload: string): Promise<SharedResult> => {
+  let text: string;
+  try {
+    text = await inflate(fromBase64Url(payload));
+  } catch {
+    throw new SharedResultError('The link is incomplete or damaged. Ask for it to be sent again.');
+  }
+  return parseSharedResultFile(text);
+};
@@ -0,0 +1,114 @@
+// The Web Speech API isn't in TypeScript's DOM typings, so only the parts used here are declared.
+interface SpeechRecognitionResultLike {
+  readonly isFinal: boolean;
+  readonly length: number;
+  readonly [index: number]: { readonly transcript: string };
+}
+
+interface SpeechRecognitionEventLike {
+  readonly resultIndex: number;
+  readonly results: ArrayLike<SpeechRecognitionResultLike>;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  interimResults: boolean;
+  continuous: boolean;
+  processLocally?: boolean; // Chrome 139+: keep audio on the device
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+interface SpeechRecognitionConstructor {
+  new (): SpeechRecognitionLike;
+  available?: (options: { langs: string[]; processLocally: boolean }) => Promise<string>;
+}
+
+// Why recognition stopped; the UI words each one in the shopper's language.
+export type SpeechErrorKind = 'notAllowed' | 'serviceNotAllowed' | 'audioCapture' | 'noSpeech' | 'network' | 'languageNotSupported' | 'unknown';
+
+export interface SpeechCallbacks {
+  onTranscript: (text: string, isFinal: boolean) => void;
+  onError: (kind: SpeechErrorKind) => void;
+  onEnd: () => void;
+}
+
+export interface SpeechSession {
+  onDevice: boolean; // False when the browser sends the audio to its own speech service
+  stop: () => void; // Finishes with whatever was heard so far
+  cancel: () => void;
+}
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+};
+
+export const isSpeechRecognitionSupported = (): boolean => getRecognitionConstructor() !== null;
+
+// On-device recognition needs the language pack installed; only ask for it when it's ready to use.
+const canProcessLocally = async (Recognition: SpeechRecognitionConstructor, lang: string): Promise<boolean> => {
+  if (!Recognition.available) return false;
+  try {
+    return (await Recognition.available({ langs: [lang], processLocally: true })) === 'available';
+  } catch {
+    return false;
+  }
+};
+
+const errorKinds: Record<string, SpeechErrorKind> = {
+  'not-allowed': 'notAllowed',
+  'service-not-allowed': 'serviceNotAllowed',
+  'audio-capture': 'audioCapture',
+  'no-speech': 'noSpeech',
+  network: 'network',
+  'language-not-supported': 'languageNotSupported',
+};
+
+/**
+ * Listens for one spoken query, reporting interim and final transcripts. Recognition runs on the device
+ * where the browser supports it; otherwise the browser's own speech service is used. Returns null when
+ * the browser has no speech recognition at all.
+ */
+export const startSpeechRecognition = async (lang: string, callbacks: SpeechCallbacks): Promise<SpeechSession | null> => {
+  const Recognition = getRecognitionConstructor();
+  if (!Recognition) return null;
+
+  const onDevice = await canProcessLocally(Recognition, lang);
+  const recognition = new Recognition();
+  recognition.lang = lang;
+  recognition.interimResults = true;
+  recognition.continuous = false;
+  if (onDevice) recognition.processLocally = true;
+
+  let transcript = '';
+  recognition.onresult = (event) => {
+    let interim = '';
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) transcript += result[0].transcript;
+      else interim += result[0].transcript;
+    }
+    callbacks.onTranscript((transcript + interim).trim(), interim === '' && transcript !== '');
+  };
+  recognition.onerror = (event) => {
+    if (event.error === 'aborted') return;
+    callbacks.onError(errorKinds[event.error] ?? 'unknown');
+  };
+  recognition.onend = callbacks.onEnd;
+  recognition.start();
+
+  return {
+    onDevice,
+    stop: () => recognition.stop(),
+    cancel: () => recognition.abort(),
+  };
+};
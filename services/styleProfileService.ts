@@ -0,0 +1,132 @@
+import { Money, StyleProfile, StyleProfileUpdate } from '../types';
+import { DEFAULT_CURRENCY, formatMoney } from './priceService';
+import { I18n } from './i18nService';
+import { validateStyleProfileUpdate } from './validationService';
+
+const STORAGE_KEY = 'shopsmarter.styleProfile';
+
+export type StyleProfileListKey = 'sizes' | 'favoriteColors' | 'avoidBrands' | 'avoidMaterials' | 'notes';
+
+export const STYLE_PROFILE_LIST_KEYS: StyleProfileListKey[] = ['sizes', 'favoriteColors', 'avoidBrands', 'avoidMaterials', 'notes'];
+
+export const STYLE_PROFILE_LABELS: Record<keyof StyleProfile, string> = {
+  sizes: 'Sizes',
+  budgetMin: 'Budget from',
+  budgetMax: 'Budget up to',
+  favoriteColors: 'Favorite colors',
+  avoidBrands: 'Brands to avoid',
+  avoidMaterials: 'Materials to avoid',
+  fit: 'Fit',
+  notes: 'Other preferences',
+};
+
+export const createEmptyStyleProfile = (): StyleProfile => ({
+  sizes: [],
+  favoriteColors: [],
+  avoidBrands: [],
+  avoidMaterials: [],
+  fit: '',
+  notes: [],
+});
+
+export const isStyleProfileEmpty = (profile: StyleProfile): boolean =>
+  STYLE_PROFILE_LIST_KEYS.every(key => profile[key].length === 0)
+  && !profile.fit && profile.budgetMin === undefined && profile.budgetMax === undefined;
+
+// Case-insensitive, so "Polyester" and "polyester" are one entry; the first spelling is kept.
+const mergeList = (existing: string[], added: string[] = []): string[] => {
+  const seen = new Set(existing.map(entry => entry.toLowerCase()));
+  const merged = [...existing];
+  added.forEach(entry => {
+    if (seen.has(entry.toLowerCase())) return;
+    seen.add(entry.toLowerCase());
+    merged.push(entry);
+  });
+  return merged;
+};
+
+/** Adds list entries from `update` and replaces the fit and budget bounds it sets. */
+export const applyStyleProfileUpdate = (profile: StyleProfile, update: StyleProfileUpdate): StyleProfile => {
+  const next: StyleProfile = { ...profile };
+  STYLE_PROFILE_LIST_KEYS.forEach(key => {
+    next[key] = mergeList(profile[key], update[key]);
+  });
+  if (update.fit !== undefined) next.fit = update.fit;
+  if (update.budgetMin !== undefined) next.budgetMin = update.budgetMin;
+  if (update.budgetMax !== undefined) next.budgetMax = update.budgetMax;
+  return next;
+};
+
+// Combines the updates from several tool calls in one chat turn.
+export const mergeStyleProfileUpdates = (first: StyleProfileUpdate | undefined, second: StyleProfileUpdate): StyleProfileUpdate => {
+  if (!first) return second;
+  const merged: StyleProfileUpdate = { ...first, ...second };
+  STYLE_PROFILE_LIST_KEYS.forEach(key => {
+    if (first[key] || second[key]) merged[key] = mergeList(first[key] || [], second[key]);
+  });
+  return merged;
+};
+
+const formatBudget = (min?: Money, max?: Money): string => {
+  if (min && max) return `${formatMoney(min, 'en-US')} to ${formatMoney(max, 'en-US')}`;
+  if (max) return `up to ${formatMoney(max, 'en-US')}`;
+  return min ? `from ${formatMoney(min, 'en-US')}` : '';
+};
+
+/** One line per preference, e.g. "Materials to avoid: polyester", in English for prompts and tool replies. */
+export const describeStyleProfile = (profile: StyleProfileUpdate): string[] => {
+  const lines: string[] = [];
+  STYLE_PROFILE_LIST_KEYS.forEach(key => {
+    const entries = profile[key];
+    if (entries && entries.length > 0) lines.push(`${STYLE_PROFILE_LABELS[key]}: ${entries.join(', ')}`);
+  });
+  if (profile.fit) lines.push(`${STYLE_PROFILE_LABELS.fit}: ${profile.fit}`);
+  if (profile.budgetMin !== undefined || profile.budgetMax !== undefined) {
+    lines.push(`Budget: ${formatBudget(profile.budgetMin, profile.budgetMax)}`);
+  }
+  return lines;
+};
+
+/** The lines of `describeStyleProfile`, worded for the shopper: catalog labels and budgets in their number format. */
+export const formatStyleProfile = (profile: StyleProfileUpdate, { t, locale }: I18n): string[] => {
+  const line = (label: string, value: string) => t('profile.line', { label, value });
+  const money = (amount: Money) => formatMoney(amount, locale);
+  const lines: string[] = [];
+  STYLE_PROFILE_LIST_KEYS.forEach(key => {
+    const entries = profile[key];
+    if (entries && entries.length > 0) lines.push(line(t(`profile.field.${key}`), entries.join(', ')));
+  });
+  if (profile.fit) lines.push(line(t('profile.field.fit'), profile.fit));
+  const { budgetMin: min, budgetMax: max } = profile;
+  if (min !== undefined && max !== undefined) {
+    lines.push(line(t('profile.field.budget'), t('profile.budgetRange', { min: money(min), max: money(max) })));
+  } else if (max !== undefined) {
+    lines.push(line(t('profile.field.budget'), t('profile.budgetUpTo', { max: money(max) })));
+  } else if (min !== undefined) {
+    lines.push(line(t('profile.field.budget'), t('profile.budgetFrom', { min: money(min) })));
+  }
+  return lines;
+};
+
+export const loadStyleProfile = (): StyleProfile => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return createEmptyStyleProfile();
+    // Stored data is re-checked like a model response, so a hand-edited entry can't break the prompts.
+    // Budgets saved as bare numbers, before they carried a currency, were always in the default one.
+    const { value, issues } = validateStyleProfileUpdate(JSON.parse(stored), 'styleProfile', DEFAULT_CURRENCY);
+    if (issues.length > 0) console.warn("Dropped invalid style profile entries:", issues);
+    return applyStyleProfileUpdate(createEmptyStyleProfile(), value);
+  } catch (error) {
+    console.warn("Could not load style profile, starting empty:", error);
+    return createEmptyStyleProfile();
+  }
+};
+
+export const saveStyleProfile = (profile: StyleProfile): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.warn("Could not save style profile:", error);
+  }
+};
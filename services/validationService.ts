@@ -0,0 +1,517 @@
+import {
+  BoundingBox, CatalogRanking, ConstraintChange, DetectedItem, ExtractedProductAttributes, ImageAnalysis, ImageItemAnalysis, LookPlan, Money,
+  MultiImageAnalysis, MultiProductComparison, Product, ProductAttributes, ProductComparison, RankedPick, SearchConstraintKey, StyleProfileUpdate,
+  TextQueryAnalysis, ValidationIssue, ValidationResult,
+} from '../types';
+import { fromMajorUnits, parsePrice } from './priceService';
+import { SEARCH_CONSTRAINT_KEYS } from './searchConstraintService';
+
+/** Thrown when a response is too broken to repair, carrying every issue found along the way. */
+export class ResponseValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string | null => {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+};
+
+/**
+ * Parses a JSON response body. Structured output should already be clean JSON, so the only
+ * leniency is stripping a markdown fence the model occasionally wraps around it.
+ */
+export const parseJsonResponse = (text: string | undefined): unknown => {
+  const trimmed = (text || '').trim();
+  if (!trimmed) {
+    throw new ResponseValidationError('Gemini returned an empty response.', [
+      { path: '$', message: 'Response body was empty.', action: 'dropped' },
+    ]);
+  }
+  const fenced = trimmed.match(/^```(?:\w+)?\s*([\s\S]*?)\s*```$/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : trimmed);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    throw new ResponseValidationError(`Gemini returned invalid JSON: ${detail}`, [
+      { path: '$', message: `Invalid JSON: ${detail}`, action: 'dropped' },
+    ]);
+  }
+};
+
+const validateMoney = (value: unknown, path: string, issues: ValidationIssue[]): Money | null => {
+  if (isRecord(value) && Number.isInteger(value.amountMinor) && typeof value.currency === 'string' && /^[A-Z]{3}$/.test(value.currency)) {
+    return { amountMinor: value.amountMinor as number, currency: value.currency };
+  }
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+    issues.push({ path, message: 'Price was a bare number; assumed USD.', action: 'repaired' });
+    return fromMajorUnits(value, 'USD');
+  }
+  if (typeof value === 'string') {
+    const parsed = parsePrice(value);
+    if (parsed) return parsed;
+  }
+  return null;
+};
+
+export const validateAttributes = (value: unknown, path: string, issues: ValidationIssue[]): ProductAttributes | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'Attributes were not an object.', action: 'dropped' });
+    return undefined;
+  }
+  const keys: (keyof ProductAttributes)[] = ['category', 'itemType', 'color', 'material', 'style'];
+  const attributes = {} as ProductAttributes;
+  keys.forEach(key => {
+    const text = asText(value[key]);
+    if (text === null && value[key] !== undefined) {
+      issues.push({ path: `${path}.${key}`, message: `Expected a string for "${key}".`, action: 'repaired' });
+    }
+    attributes[key] = text ?? '';
+  });
+  return attributes;
+};
+
+/** Checks every Product field. Returns null (and records why) for entries that cannot be shown. */
+export const validateProduct = (value: unknown, path: string, issues: ValidationIssue[]): Product | null => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'Product entry was not an object.', action: 'dropped' });
+    return null;
+  }
+
+  const id = asText(value.id);
+  const name = asText(value.name);
+  const price = validateMoney(value.price, `${path}.price`, issues);
+  const missing = [!id && 'id', !name && 'name', !price && 'price'].filter(Boolean);
+  if (missing.length > 0) {
+    issues.push({ path, message: `Missing or invalid required field(s): ${missing.join(', ')}.`, action: 'dropped' });
+    return null;
+  }
+
+  const description = typeof value.description === 'string' ? value.description.trim() : '';
+  if (typeof value.description !== 'string') {
+    issues.push({ path: `${path}.description`, message: 'Missing description; left blank.', action: 'repaired' });
+  }
+
+  let imageUrl = typeof value.imageUrl === 'string' ? value.imageUrl.trim() : '';
+  if (imageUrl && !/^(https?:|data:image\/)/.test(imageUrl)) {
+    issues.push({ path: `${path}.imageUrl`, message: 'Image URL was not http(s) or a data URL; removed.', action: 'repaired' });
+    imageUrl = '';
+  }
+
+  const attributes = validateAttributes(value.attributes, `${path}.attributes`, issues);
+  let category = asText(value.category);
+  if (!category) {
+    category = attributes?.category || 'Other';
+    issues.push({ path: `${path}.category`, message: `Missing category; set to "${category}".`, action: 'repaired' });
+  }
+
+  const product: Product = { id: id!, name: name!, description, price: price!, imageUrl, category };
+  if (attributes) product.attributes = attributes;
+  const matchReason = asText(value.matchReason);
+  if (matchReason) product.matchReason = matchReason;
+  return product;
+};
+
+/** Validates a product list, dropping bad and duplicate entries rather than failing the whole response. */
+export const validateProducts = (value: unknown, path: string): ValidationResult<Product[]> => {
+  const issues: ValidationIssue[] = [];
+  if (value === undefined || value === null) {
+    return { value: [], issues };
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected an array of products.', action: 'dropped' });
+    return { value: [], issues };
+  }
+
+  const seen = new Set<string>();
+  const products: Product[] = [];
+  value.forEach((entry, index) => {
+    const product = validateProduct(entry, `${path}[${index}]`, issues);
+    if (!product) return;
+    if (seen.has(product.id)) {
+      issues.push({ path: `${path}[${index}]`, message: `Duplicate product id "${product.id}".`, action: 'dropped' });
+      return;
+    }
+    seen.add(product.id);
+    products.push(product);
+  });
+  return { value: products, issues };
+};
+
+const validateStringList = (value: unknown, path: string, issues: ValidationIssue[]): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected an array of strings.', action: 'dropped' });
+    return [];
+  }
+  return value.map(asText).filter((text): text is string => {
+    if (text === null) issues.push({ path, message: 'Dropped a non-string entry.', action: 'dropped' });
+    return text !== null;
+  });
+};
+
+// Screen readers read alt text in one go; anything longer belongs in the analysis.
+const MAX_ALT_TEXT_CHARS = 250;
+
+export const validateImageAnalysis = (value: unknown): ValidationResult<ImageAnalysis> => {
+  const issues: ValidationIssue[] = [];
+  if (!isRecord(value)) {
+    throw new ResponseValidationError('Image analysis response was not a JSON object.', [
+      { path: '$', message: 'Expected an object.', action: 'dropped' },
+    ]);
+  }
+  const analysis = asText(value.analysis);
+  if (!analysis) {
+    throw new ResponseValidationError('Image analysis response had no "analysis" text.', [
+      { path: 'analysis', message: 'Missing analysis text.', action: 'dropped' },
+    ]);
+  }
+  const altText = asText(value.altText)?.slice(0, MAX_ALT_TEXT_CHARS);
+  return {
+    value: {
+      analysis,
+      ...(altText ? { altText } : {}),
+      attributes: validateAttributes(value.attributes, 'attributes', issues),
+      complementaryItemTypes: validateStringList(value.complementaryItemTypes, 'complementaryItemTypes', issues),
+    },
+    issues,
+  };
+};
+
+/** Validates a multi-image analysis; items pointing at images that were not sent are dropped. */
+export const validateMultiImageAnalysis = (value: unknown, imageCount: number): ValidationResult<MultiImageAnalysis> => {
+  const { value: base, issues } = validateImageAnalysis(value);
+  const record = value as Record<string, unknown>;
+  const items: ImageItemAnalysis[] = [];
+
+  if (!Array.isArray(record.items)) {
+    issues.push({ path: 'items', message: 'Expected an array of per-image items.', action: 'dropped' });
+  } else {
+    record.items.forEach((entry, index) => {
+      const path = `items[${index}]`;
+      const imageIndex = isRecord(entry) ? Number(entry.imageIndex) : NaN;
+      if (!Number.isInteger(imageIndex) || imageIndex < 0 || imageIndex >= imageCount) {
+        issues.push({ path: `${path}.imageIndex`, message: `Image index must be between 0 and ${imageCount - 1}.`, action: 'dropped' });
+        return;
+      }
+      const analysis = asText((entry as Record<string, unknown>).analysis) ?? '';
+      const altText = asText((entry as Record<string, unknown>).altText)?.slice(0, MAX_ALT_TEXT_CHARS);
+      const attributes = validateAttributes((entry as Record<string, unknown>).attributes, `${path}.attributes`, issues);
+      items.push({ imageIndex, analysis, ...(altText ? { altText } : {}), attributes });
+    });
+  }
+
+  const comparison = asText(record.comparison);
+  return {
+    value: {
+      analysis: base.analysis,
+      items,
+      complementaryItemTypes: base.complementaryItemTypes,
+      ...(comparison ? { comparison } : {}),
+    },
+    issues,
+  };
+};
+
+// Gemini reports boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid.
+const validateBox = (value: unknown, path: string, issues: ValidationIssue[]): BoundingBox | null => {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every(n => typeof n === 'number' && Number.isFinite(n))) {
+    issues.push({ path, message: 'Expected a box of four numbers [ymin, xmin, ymax, xmax].', action: 'dropped' });
+    return null;
+  }
+  const [ymin, xmin, ymax, xmax] = (value as number[]).map(n => Math.min(1000, Math.max(0, n)) / 1000);
+  if (xmax - xmin < 0.01 || ymax - ymin < 0.01) {
+    issues.push({ path, message: 'Box was empty or inverted.', action: 'dropped' });
+    return null;
+  }
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+export const validateDetectedItems = (value: unknown): ValidationResult<DetectedItem[]> => {
+  const issues: ValidationIssue[] = [];
+  const list = isRecord(value) ? value.items : value;
+  if (!Array.isArray(list)) {
+    issues.push({ path: 'items', message: 'Expected an array of detected items.', action: 'dropped' });
+    return { value: [], issues };
+  }
+  const items: DetectedItem[] = [];
+  list.forEach((entry, index) => {
+    const path = `items[${index}]`;
+    const label = isRecord(entry) ? asText(entry.label) : null;
+    if (!isRecord(entry) || !label) {
+      issues.push({ path, message: 'Detected item had no label.', action: 'dropped' });
+      return;
+    }
+    const box = validateBox(entry.box_2d, `${path}.box_2d`, issues);
+    if (!box) return;
+    items.push({
+      id: `item-${index}`,
+      label,
+      box,
+      attributes: validateAttributes(entry.attributes, `${path}.attributes`, issues),
+      complementaryItemTypes: validateStringList(entry.complementaryItemTypes, `${path}.complementaryItemTypes`, issues),
+    });
+  });
+  return { value: items, issues };
+};
+
+export const validateProductComparison = (value: unknown): ValidationResult<ProductComparison> => {
+  const issues: ValidationIssue[] = [];
+  const summary = isRecord(value) ? asText(value.summary) : null;
+  if (!isRecord(value) || !summary) {
+    throw new ResponseValidationError('Product comparison response had no "summary" text.', [
+      { path: 'summary', message: 'Missing summary text.', action: 'dropped' },
+    ]);
+  }
+  return {
+    value: {
+      summary,
+      similarities: validateStringList(value.similarities, 'similarities', issues),
+      differences: validateStringList(value.differences, 'differences', issues),
+    },
+    issues,
+  };
+};
+
+/** Validates a multi-product comparison; rows and recommendations for products that weren't compared are dropped. */
+export const validateMultiProductComparison = (value: unknown, productIds: string[]): ValidationResult<MultiProductComparison> => {
+  const issues: ValidationIssue[] = [];
+  const verdict = isRecord(value) ? asText(value.verdict) : null;
+  if (!isRecord(value) || !verdict) {
+    throw new ResponseValidationError('Product comparison response had no "verdict" text.', [
+      { path: 'verdict', message: 'Missing verdict text.', action: 'dropped' },
+    ]);
+  }
+
+  const attributes: ExtractedProductAttributes[] = [];
+  const rows = Array.isArray(value.attributes) ? value.attributes : [];
+  if (!Array.isArray(value.attributes)) {
+    issues.push({ path: 'attributes', message: 'Expected an array of attribute rows.', action: 'dropped' });
+  }
+  rows.forEach((entry, index) => {
+    const path = `attributes[${index}]`;
+    const productId = isRecord(entry) ? asText(entry.productId) : null;
+    if (!isRecord(entry) || !productId || !productIds.includes(productId)) {
+      issues.push({ path: `${path}.productId`, message: 'Row did not refer to a compared product.', action: 'dropped' });
+      return;
+    }
+    if (attributes.some(row => row.productId === productId)) {
+      issues.push({ path, message: `Duplicate row for "${productId}".`, action: 'dropped' });
+      return;
+    }
+    const field = (key: string) => {
+      const text = asText(entry[key]);
+      if (text === null) issues.push({ path: `${path}.${key}`, message: `Missing "${key}"; left blank.`, action: 'repaired' });
+      return text ?? '';
+    };
+    attributes.push({ productId, material: field('material'), color: field('color'), style: field('style'), useCase: field('useCase') });
+  });
+
+  let recommendedProductId = asText(value.recommendedProductId) ?? undefined;
+  if (recommendedProductId && !productIds.includes(recommendedProductId)) {
+    issues.push({ path: 'recommendedProductId', message: 'Recommended a product that was not compared.', action: 'repaired' });
+    recommendedProductId = undefined;
+  }
+  return { value: { attributes, verdict, ...(recommendedProductId ? { recommendedProductId } : {}) }, issues };
+};
+
+const validatePicks = (value: unknown, path: string, issues: ValidationIssue[]): RankedPick[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected an array of picks.', action: 'dropped' });
+    return [];
+  }
+  const picks: RankedPick[] = [];
+  value.forEach((entry, index) => {
+    const id = isRecord(entry) ? asText(entry.id) : null;
+    if (!id) {
+      issues.push({ path: `${path}[${index}]`, message: 'Pick had no id.', action: 'dropped' });
+      return;
+    }
+    const reason = isRecord(entry) ? asText(entry.reason) : null;
+    picks.push(reason ? { id, reason } : { id });
+  });
+  return picks;
+};
+
+export const validateRanking = (value: unknown): ValidationResult<CatalogRanking> => {
+  const issues: ValidationIssue[] = [];
+  if (!isRecord(value)) {
+    issues.push({ path: '$', message: 'Ranking response was not an object.', action: 'dropped' });
+    return { value: { similar: [], complementary: [] }, issues };
+  }
+  return {
+    value: {
+      similar: validatePicks(value.similar, 'similar', issues),
+      complementary: validatePicks(value.complementary, 'complementary', issues),
+    },
+    issues,
+  };
+};
+
+// Prices may come back as numbers, in the `currency` they were asked for, or as text like "€50" that names
+// its own. Stored bounds are already amounts with a currency.
+const validatePriceBound = (value: unknown, path: string, issues: ValidationIssue[], currency: string): Money | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return fromMajorUnits(value, currency);
+  if (typeof value === 'string') {
+    const parsed = parsePrice(value, currency);
+    if (parsed) return parsed;
+  }
+  if (isRecord(value) && Number.isInteger(value.amountMinor) && (value.amountMinor as number) >= 0
+    && typeof value.currency === 'string' && /^[A-Z]{3}$/.test(value.currency)) {
+    return { amountMinor: value.amountMinor as number, currency: value.currency };
+  }
+  issues.push({ path, message: 'Expected a non-negative price.', action: 'dropped' });
+  return undefined;
+};
+
+// A lower bound above the upper one is dropped; bounds in different currencies can't be compared.
+const dropInvertedBounds = <K extends string>(bounds: Partial<Record<K, Money>>, minKey: K, maxKey: K, path: string, issues: ValidationIssue[]) => {
+  const min = bounds[minKey];
+  const max = bounds[maxKey];
+  if (min && max && min.currency === max.currency && min.amountMinor > max.amountMinor) {
+    issues.push({ path, message: 'Lowest price was above the highest.', action: 'dropped' });
+    delete bounds[minKey];
+  }
+};
+
+/**
+ * Validates the arguments of a refineSearch call, with bare price numbers read in `currency`.
+ * Unknown keys in "clear" are dropped; "all" clears everything.
+ */
+export const validateConstraintChange = (value: unknown, path: string, currency: string): ValidationResult<ConstraintChange> => {
+  const issues: ValidationIssue[] = [];
+  const change: ConstraintChange = { set: {}, clear: [] };
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'Refinement arguments were not an object.', action: 'dropped' });
+    return { value: change, issues };
+  }
+
+  (['category', 'itemType', 'color', 'material', 'style', 'size'] as const).forEach(key => {
+    if (value[key] === undefined || value[key] === null) return;
+    const text = asText(value[key]);
+    if (text === null) {
+      issues.push({ path: `${path}.${key}`, message: `Expected a string for "${key}".`, action: 'dropped' });
+      return;
+    }
+    change.set[key] = text.toLowerCase();
+  });
+  (['minPrice', 'maxPrice'] as const).forEach(key => {
+    if (value[key] === undefined || value[key] === null) return;
+    const bound = validatePriceBound(value[key], `${path}.${key}`, issues, currency);
+    if (bound !== undefined) change.set[key] = bound;
+  });
+  dropInvertedBounds(change.set, 'minPrice', 'maxPrice', `${path}.minPrice`, issues);
+
+  const cleared = value.clear === undefined ? [] : Array.isArray(value.clear) ? value.clear : [value.clear];
+  cleared.forEach((key, index) => {
+    if (key === 'all') {
+      change.clear.push(...SEARCH_CONSTRAINT_KEYS);
+    } else if (SEARCH_CONSTRAINT_KEYS.includes(key as SearchConstraintKey)) {
+      change.clear.push(key as SearchConstraintKey);
+    } else {
+      issues.push({ path: `${path}.clear[${index}]`, message: `Unknown constraint "${String(key)}".`, action: 'dropped' });
+    }
+  });
+  change.clear = Array.from(new Set(change.clear)).filter(key => change.set[key] === undefined);
+  return { value: change, issues };
+};
+
+/**
+ * Validates a style profile change, from a rememberPreference call or from storage. A lone string counts as a
+ * one-entry list, and a bare budget number is read in `currency`.
+ */
+export const validateStyleProfileUpdate = (value: unknown, path: string, currency: string): ValidationResult<StyleProfileUpdate> => {
+  const issues: ValidationIssue[] = [];
+  const update: StyleProfileUpdate = {};
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'Style profile was not an object.', action: 'dropped' });
+    return { value: update, issues };
+  }
+
+  (['sizes', 'favoriteColors', 'avoidBrands', 'avoidMaterials', 'notes'] as const).forEach(key => {
+    if (value[key] === undefined || value[key] === null) return;
+    const entries = validateStringList(Array.isArray(value[key]) ? value[key] : [value[key]], `${path}.${key}`, issues);
+    if (entries.length > 0) update[key] = entries;
+  });
+  if (value.fit !== undefined && value.fit !== null) {
+    const fit = asText(value.fit);
+    if (fit === null) {
+      issues.push({ path: `${path}.fit`, message: 'Expected a string for "fit".', action: 'dropped' });
+    } else {
+      update.fit = fit;
+    }
+  }
+  (['budgetMin', 'budgetMax'] as const).forEach(key => {
+    if (value[key] === undefined || value[key] === null) return;
+    const bound = validatePriceBound(value[key], `${path}.${key}`, issues, currency);
+    if (bound !== undefined) update[key] = bound;
+  });
+  dropInvertedBounds(update, 'budgetMin', 'budgetMax', `${path}.budgetMin`, issues);
+  return { value: update, issues };
+};
+
+/** Validates a text query analysis, with bare price numbers read in `currency`. */
+export const validateTextQueryAnalysis = (value: unknown, currency: string): ValidationResult<TextQueryAnalysis> => {
+  const { value: analysis, issues } = validateImageAnalysis(value);
+  const record = value as Record<string, unknown>;
+  const result: TextQueryAnalysis = { ...analysis };
+  (['minPrice', 'maxPrice'] as const).forEach(key => {
+    if (record[key] === undefined || record[key] === null) return;
+    const bound = validatePriceBound(record[key], key, issues, currency);
+    if (bound !== undefined) result[key] = bound;
+  });
+  dropInvertedBounds(result, 'minPrice', 'maxPrice', 'minPrice', issues);
+  return { value: result, issues };
+};
+
+const MAX_LOOKS = 3;
+const MAX_LOOK_SLOTS = 5;
+
+/** Validates planned looks. Slots without item types can't be filled and are dropped, as are looks left with none. */
+export const validateLookPlans = (value: unknown): ValidationResult<LookPlan[]> => {
+  const issues: ValidationIssue[] = [];
+  const rawLooks = isRecord(value) ? value.looks : undefined;
+  if (!Array.isArray(rawLooks)) {
+    throw new ResponseValidationError('Look plan response had no "looks" array.', [
+      { path: 'looks', message: 'Expected an array of looks.', action: 'dropped' },
+    ]);
+  }
+
+  const looks: LookPlan[] = [];
+  rawLooks.slice(0, MAX_LOOKS).forEach((rawLook, lookIndex) => {
+    const path = `looks[${lookIndex}]`;
+    const name = isRecord(rawLook) ? asText(rawLook.name) : null;
+    if (!isRecord(rawLook) || !name || !Array.isArray(rawLook.slots)) {
+      issues.push({ path, message: 'Look needs a name and a slots array.', action: 'dropped' });
+      return;
+    }
+    const slots: LookPlan['slots'] = [];
+    rawLook.slots.slice(0, MAX_LOOK_SLOTS).forEach((rawSlot, slotIndex) => {
+      const slotPath = `${path}.slots[${slotIndex}]`;
+      const slotName = isRecord(rawSlot) ? asText(rawSlot.name) : null;
+      const itemTypes = isRecord(rawSlot) ? validateStringList(rawSlot.itemTypes, `${slotPath}.itemTypes`, issues) : [];
+      if (!slotName || itemTypes.length === 0) {
+        issues.push({ path: slotPath, message: 'Slot needs a name and at least one item type.', action: 'dropped' });
+        return;
+      }
+      slots.push({ name: slotName, itemTypes });
+    });
+    if (slots.length === 0) {
+      issues.push({ path, message: 'Look had no usable slots.', action: 'dropped' });
+      return;
+    }
+    looks.push({ name, description: asText(rawLook.description) ?? '', slots });
+  });
+  return { value: looks, issues };
+};
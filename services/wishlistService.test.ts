@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { sampleCatalog } from '../data/sampleCatalog';
+import { exportCollectionToCsv } from './wishlistService';
+
+describe('exportCollectionToCsv', () => {
+  it('keeps cells that look like formulas as plain text', () => {
+    const [product] = sampleCatalog;
+    const csv = exportCollectionToCsv({ id: 'saved', name: '=HYPERLINK("http://example.com")', createdAt: new Date() }, [{
+      product: { ...product, name: '+1 jacket', description: '-fits all, @home' },
+      collectionId: 'saved',
+      savedAt: new Date('2026-01-01T00:00:00Z'),
+      source: { sessionId: null, title: '@search' },
+    }]);
+
+    const row = csv.split('\n')[1];
+    expect(row).toMatch(/^"'=HYPERLINK\(""http:\/\/example.com""\)",/);
+    expect(row).toContain(`,'+1 jacket,"'-fits all, @home",`);
+    expect(row).toContain(`,'@search,`);
+    expect(row).not.toContain(`'${product.price.currency}`);
+  });
+});
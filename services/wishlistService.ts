@@ -0,0 +1,134 @@
+import { Product, WishlistCollection, WishlistItem, WishlistState } from '../types';
+import { toMajorUnits } from './priceService';
+
+const STORAGE_KEY = 'shopsmarter.wishlist';
+export const DEFAULT_COLLECTION_ID = 'saved';
+const LEGACY_DEFAULT_COLLECTION_NAME = 'Saved Items';
+
+const createDefaultCollection = (): WishlistCollection => ({
+  id: DEFAULT_COLLECTION_ID,
+  name: '',
+  createdAt: new Date(),
+});
+
+export const createEmptyWishlist = (): WishlistState => ({
+  collections: [createDefaultCollection()],
+  items: [],
+  activeCollectionId: DEFAULT_COLLECTION_ID,
+});
+
+// JSON turns Dates into strings; turn them back so the rest of the app can rely on the types.
+const reviveWishlist = (raw: WishlistState): WishlistState => {
+  const collections = (raw.collections || []).map(c => ({
+    ...c,
+    // Wishlists saved before the default name was translated stored it in English.
+    name: c.id === DEFAULT_COLLECTION_ID && c.name === LEGACY_DEFAULT_COLLECTION_NAME ? '' : c.name,
+    createdAt: new Date(c.createdAt),
+  }));
+  if (!collections.some(c => c.id === DEFAULT_COLLECTION_ID)) {
+    collections.unshift(createDefaultCollection());
+  }
+  const collectionIds = new Set(collections.map(c => c.id));
+  return {
+    collections,
+    items: (raw.items || [])
+      .filter(item => item.product && item.product.id)
+      .map(item => ({
+        ...item,
+        savedAt: new Date(item.savedAt),
+        collectionId: collectionIds.has(item.collectionId) ? item.collectionId : DEFAULT_COLLECTION_ID,
+      })),
+    activeCollectionId: collectionIds.has(raw.activeCollectionId) ? raw.activeCollectionId : DEFAULT_COLLECTION_ID,
+  };
+};
+
+export const loadWishlist = (): WishlistState => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? reviveWishlist(JSON.parse(stored)) : createEmptyWishlist();
+  } catch (error) {
+    console.warn("Could not load wishlist, starting empty:", error);
+    return createEmptyWishlist();
+  }
+};
+
+export const saveWishlist = (wishlist: WishlistState): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(wishlist));
+  } catch (error) {
+    console.warn("Could not save wishlist:", error);
+  }
+};
+
+export const isInWishlist = (wishlist: WishlistState, productId: string): boolean =>
+  wishlist.items.some(item => item.product.id === productId);
+
+export const addToWishlist = (wishlist: WishlistState, product: Product, source: WishlistItem['source']): WishlistState => {
+  if (isInWishlist(wishlist, product.id)) return wishlist;
+  const item: WishlistItem = { product, collectionId: wishlist.activeCollectionId, savedAt: new Date(), source };
+  return { ...wishlist, items: [...wishlist.items, item] };
+};
+
+export const removeFromWishlist = (wishlist: WishlistState, productId: string): WishlistState => ({
+  ...wishlist,
+  items: wishlist.items.filter(item => item.product.id !== productId),
+});
+
+export const moveWishlistItem = (wishlist: WishlistState, productId: string, collectionId: string): WishlistState => ({
+  ...wishlist,
+  items: wishlist.items.map(item => (item.product.id === productId ? { ...item, collectionId } : item)),
+});
+
+export const createCollection = (wishlist: WishlistState, name: string): WishlistState => {
+  const collection: WishlistCollection = {
+    id: `collection-${Date.now().toString(36)}`,
+    name: name.trim(),
+    createdAt: new Date(),
+  };
+  return { ...wishlist, collections: [...wishlist.collections, collection], activeCollectionId: collection.id };
+};
+
+export const renameCollection = (wishlist: WishlistState, collectionId: string, name: string): WishlistState => ({
+  ...wishlist,
+  collections: wishlist.collections.map(c => (c.id === collectionId ? { ...c, name: name.trim() } : c)),
+});
+
+/** Deletes a collection; its items move to the default collection rather than being lost. */
+export const deleteCollection = (wishlist: WishlistState, collectionId: string): WishlistState => {
+  if (collectionId === DEFAULT_COLLECTION_ID) return wishlist;
+  return {
+    collections: wishlist.collections.filter(c => c.id !== collectionId),
+    items: wishlist.items.map(item => (item.collectionId === collectionId ? { ...item, collectionId: DEFAULT_COLLECTION_ID } : item)),
+    activeCollectionId: wishlist.activeCollectionId === collectionId ? DEFAULT_COLLECTION_ID : wishlist.activeCollectionId,
+  };
+};
+
+export const getCollectionItems = (wishlist: WishlistState, collectionId: string): WishlistItem[] =>
+  wishlist.items.filter(item => item.collectionId === collectionId);
+
+export const exportCollectionToJson = (collection: WishlistCollection, items: WishlistItem[]): string =>
+  JSON.stringify({ collection, items }, null, 2);
+
+// Spreadsheets run a cell that starts with =, +, -, @, a tab or a carriage return as a formula, so text from a catalog or the
+// AI gets a leading apostrophe to stay plain text. Numbers (prices) are left as numbers.
+const escapeCsv = (value: string | number): string => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportCollectionToCsv = (collection: WishlistCollection, items: WishlistItem[]): string => {
+  const header = ['collection', 'id', 'name', 'description', 'price', 'currency', 'category', 'imageUrl', 'foundIn', 'savedAt'];
+  const rows = items.map(({ product, source, savedAt }) => [
+    collection.name,
+    product.id,
+    product.name,
+    product.description,
+    toMajorUnits(product.price),
+    product.price.currency,
+    product.category,
+    product.imageUrl,
+    source.title,
+    savedAt.toISOString(),
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+};
@@ -1,13 +1,63 @@
 
-import { Chat } from "@google/genai";
+export interface Money {
+  amountMinor: number; // Integer amount in the currency's minor unit, e.g. cents
+  currency: string; // ISO 4217 code, e.g. "USD"
+}
+
+export interface ProductAttributes {
+  category: string;
+  itemType: string; // Specific kind of item, e.g. "jacket", "sneakers", "floor lamp"
+  color: string;
+  material: string;
+  style: string;
+}
 
 export interface Product {
   id: string;
   name: string;
   description: string;
-  price: string;
+  price: Money;
   imageUrl: string;
   category: string;
+  attributes?: ProductAttributes;
+  matchReason?: string; // Why the AI picked this item for the uploaded image
+}
+
+export interface CatalogQuery {
+  attributes: Partial<ProductAttributes>;
+  requiredAttributes?: Partial<ProductAttributes>; // Hard filters, e.g. a colour the shopper insisted on
+  itemTypes?: string[]; // Restrict results to these item types, e.g. for complementary searches
+  excludeItemTypes?: string[];
+  excludeIds?: string[];
+  minPrice?: Money;
+  maxPrice?: Money;
+  limit?: number;
+}
+
+export interface CatalogFacets {
+  categories: string[];
+  itemTypes: string[];
+}
+
+export interface CatalogProvider {
+  currency: string; // ISO 4217 code the prices are listed in; price bounds in other currencies can't be applied
+  search(query: CatalogQuery): Promise<Product[]>;
+  getFacets(): Promise<CatalogFacets>;
+}
+
+export type ProductListKind = 'similar' | 'complementary';
+
+// The product grid can also show both lists together.
+export type ProductTab = ProductListKind | 'all';
+
+export type ProductSort = 'relevance' | 'price-asc' | 'price-desc' | 'name';
+
+export interface ProductFilters {
+  sort: ProductSort;
+  category: string | null;
+  minPrice: number | null; // Major units, e.g. 25 for $25.00
+  maxPrice: number | null;
+  query: string; // Matched against name and description
 }
 
 export interface ChatMessage {
@@ -15,33 +65,461 @@ export interface ChatMessage {
   sender: 'user' | 'ai';
   text: string;
   timestamp: Date;
+  products?: Product[]; // Catalog items the AI suggested in this turn
+  productTarget?: ProductListKind; // Which product tab the suggestions belong to
+  isStreaming?: boolean; // True while tokens are still arriving for this message
+  wasStopped?: boolean; // The user cancelled the stream; text holds the partial reply
+  errorKind?: AIErrorKind; // The reply failed; text holds whatever arrived before the failure
+  profileUpdate?: StyleProfileUpdate; // A lasting preference the AI offered to remember
+  profileUpdateStatus?: 'pending' | 'saved' | 'dismissed';
+}
+
+// Lasting preferences the shopper sets once, added to every analysis and chat prompt. Stored on the device.
+export interface StyleProfile {
+  sizes: string[]; // Free text per kind of item, e.g. "M tops", "EU 42 shoes"
+  budgetMin?: Money; // In the currency the shopper stated it in
+  budgetMax?: Money;
+  favoriteColors: string[];
+  avoidBrands: string[];
+  avoidMaterials: string[];
+  fit: string; // Gender or fit preference, e.g. "womenswear, relaxed fit"
+  notes: string[]; // Anything else the shopper asked to be remembered
+}
+
+// A profile change proposed from chat. List entries are added to the profile, the other fields replace it.
+export type StyleProfileUpdate = Partial<StyleProfile>;
+
+// The shopper's display language and the currency AI replies should quote prices in.
+export interface LocaleSettings {
+  locale: string; // BCP 47 tag, e.g. "en-US" or "ar-SA"
+  currency: string; // ISO 4217 code
+}
+
+// A UI string, or its plural forms keyed by Intl.PluralRules category ("other" is always required).
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export interface CartItem {
+  product: Product;
+  quantity: number;
+}
+
+export interface ShippingDetails {
+  fullName: string;
+  email: string;
+  address: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+export enum CheckoutStep {
+  REVIEW = 'review',
+  SHIPPING = 'shipping',
+  CONFIRMATION = 'confirmation',
+}
+
+export interface CartState {
+  items: CartItem[];
+}
+
+export interface ImageAnalysis {
+  analysis: string;
+  altText?: string; // One sentence describing the photo for screen readers
+  attributes?: ProductAttributes;
+  complementaryItemTypes: string[];
+}
+
+// A typed or spoken request ("a linen summer dress under $120") read like a photo of the item.
+export interface TextQueryAnalysis extends ImageAnalysis {
+  minPrice?: Money;
+  maxPrice?: Money;
+}
+
+export interface ImageItemAnalysis {
+  imageIndex: number; // Zero-based position of the image in the upload
+  analysis: string;
+  altText?: string;
+  attributes?: ProductAttributes;
+}
+
+export interface MultiImageAnalysis {
+  analysis: string; // Overall description of the look or of how the images relate
+  items: ImageItemAnalysis[];
+  complementaryItemTypes: string[];
+  comparison?: string;
+}
+
+export interface RankedPick {
+  id: string;
+  reason?: string;
+}
+
+export interface CatalogRanking {
+  similar: RankedPick[];
+  complementary: RankedPick[];
+}
+
+export interface ValidationIssue {
+  path: string; // Where in the response the problem was found, e.g. "similarProducts[2].price"
+  message: string;
+  action: 'dropped' | 'repaired';
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: ValidationIssue[];
+}
+
+export interface UploadedImage {
+  id: string;
+  base64: string;
+  mimeType: string;
+}
+
+// 'outfit' treats all images as one look; 'compare' analyses each image on its own and compares them.
+export type AnalysisMode = 'outfit' | 'compare';
+
+/** A rectangle in fractions (0-1) of the image's width and height, measured from the top-left corner. */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A separate item found in a photo, e.g. the jacket in a full outfit shot. */
+export interface DetectedItem {
+  id: string;
+  label: string;
+  box: BoundingBox;
+  attributes?: ProductAttributes;
+  complementaryItemTypes: string[];
+}
+
+export interface ItemProducts {
+  similarProducts: Product[];
+  complementaryProducts: Product[];
+}
+
+export interface ImageResult extends ImageItemAnalysis {
+  similarProducts: Product[];
+}
+
+/** How a catalog product compares with the item in the uploaded photo. */
+export interface ProductComparison {
+  summary: string;
+  similarities: string[];
+  differences: string[];
+}
+
+/** Attributes Gemini reads from a product's details so several products can be compared in one table. */
+export interface ExtractedProductAttributes {
+  productId: string;
+  material: string;
+  color: string;
+  style: string;
+  useCase: string;
+}
+
+export interface MultiProductComparison {
+  attributes: ExtractedProductAttributes[];
+  verdict: string;
+  recommendedProductId?: string;
+}
+
+// Refinements the shopper asked for in chat ("same but in black under $50"). They accumulate across turns
+// and every change re-runs the product search for the grid.
+export interface SearchConstraints {
+  color?: string;
+  material?: string;
+  style?: string;
+  size?: string; // The catalog has no sizes, so this only steers the AI ranking
+  category?: string; // Swaps the search to another category...
+  itemType?: string; // ...or kind of item
+  minPrice?: Money; // Only applied when in the catalog's currency
+  maxPrice?: Money;
+}
+
+export type SearchConstraintKey = keyof SearchConstraints;
+
+export interface ConstraintChange {
+  set: SearchConstraints;
+  clear: SearchConstraintKey[];
+}
+
+// What a refined search starts from: the analysed photo, or the detected item being shopped for.
+export interface SearchBase {
+  description: string;
+  attributes: ProductAttributes[];
+  complementaryItemTypes: string[];
+}
+
+// The grid as it was before a refinement, kept so the refinement can be undone.
+export interface ResultsSnapshot {
+  similarProducts: Product[];
+  complementaryProducts: Product[];
+  constraints: SearchConstraints;
+}
+
+export interface ChatReply {
+  text: string;
+  products: Product[];
+  productTarget?: ProductListKind;
+  constraintChange?: ConstraintChange; // Set when the model refined the running search constraints
+  profileUpdate?: StyleProfileUpdate; // Set when the model offered to remember a lasting preference
+}
+
+// What the AI plans for a complete-the-look set: the slots to fill around the shopper's item, by item type.
+export interface LookPlan {
+  name: string; // e.g. "Weekend casual" or "Cosy reading corner"
+  description: string;
+  slots: { name: string; itemTypes: string[] }[];
+}
+
+export interface LookSlot {
+  name: string; // e.g. "Shoes" or "Rug"; for the anchor, the shopper's item type (empty when unknown)
+  itemTypes: string[];
+  candidates: Product[]; // Best match first; the shopper can swap to any of them
+  selectedId: string | null; // null when nothing fits the budget or the catalog has no match
+  isAnchor?: boolean; // Holds the shopper's own item, filled from the similar products
+}
+
+// A coordinated set built from a LookPlan, e.g. top + bottom + shoes + accessory, or sofa + rug + lamp.
+export interface Look {
+  id: string;
+  name: string;
+  description: string;
+  slots: LookSlot[];
 }
 
 export interface GeminiAnalysisResponse {
   analysis: string;
+  attributes?: ProductAttributes; // Attributes of the main item in the image, when one was recognised
   similarProducts: Product[];
   complementaryProducts: Product[];
+  imageResults?: ImageResult[]; // Per-image results when several images were analysed together
+  altTexts?: string[]; // AI-written alt text per uploaded image, by position; empty where the model gave none
+  comparison?: string;
+  searchBase?: SearchBase; // Starting point for chat refinements; absent when no item was recognised
+  constraints?: SearchConstraints; // Price limits stated in a text query, applied like chat refinements
+  validationIssues?: ValidationIssue[];
+}
+
+export interface ShoppingSession {
+  id: string;
+  title: string; // Empty when there was nothing to name the session after
+  createdAt: Date;
+  updatedAt: Date;
+  thumbnail: string | null; // Small JPEG data URL of the uploaded image
+  analyzedText: string | null;
+  attributes?: ProductAttributes;
+  similarProducts: Product[];
+  complementaryProducts: Product[];
+  chatMessages: ChatMessage[];
+}
+
+export type ShoppingSessionSummary = Pick<ShoppingSession, 'id' | 'title' | 'createdAt' | 'updatedAt' | 'thumbnail'>;
+
+export type SharedChatExcerpt = Pick<ChatMessage, 'sender' | 'text' | 'timestamp'>;
+
+// A read-only copy of a search that can be passed on as a link or a JSON file, or printed as a report.
+export interface SharedResult {
+  version: number;
+  title: string; // Empty when the sender's session had no title
+  sharedAt: Date;
+  image: string | null; // JPEG data URL of the uploaded photo; left out of links that would get too long
+  imageAlt?: string;
+  analysis: string | null;
+  attributes?: ProductAttributes;
+  similarProducts: Product[];
+  complementaryProducts: Product[];
+  chatExcerpts: SharedChatExcerpt[]; // Only the messages the sender picked
+  note?: string; // From the sender, e.g. a personal shopper writing to a client
+}
+
+export interface WishlistCollection {
+  id: string;
+  name: string; // Empty for the default collection until the shopper renames it
+  createdAt: Date;
+}
+
+export interface WishlistItem {
+  product: Product;
+  collectionId: string;
+  savedAt: Date;
+  source: {
+    sessionId: string | null;
+    title: string; // Title of the search the product was found in; empty when it had none
+  };
+}
+
+export interface WishlistState {
+  collections: WishlistCollection[];
+  items: WishlistItem[];
+  activeCollectionId: string; // Collection that the heart toggle saves into
+}
+
+// --- AI provider ---
+// The app talks to its model through these interfaces so it can run against Gemini or an offline mock.
+// Requests carry task inputs, not prompts: the provider that runs the model writes the prompt, response
+// schema and tool declarations itself (see services/promptService.ts), so a client can't choose what is asked.
+
+export type AIProviderId = 'gemini' | 'mock' | 'proxy';
+
+// How a model call failed; see services/aiErrors.ts for the matching error classes.
+export type AIErrorKind = 'quota' | 'safety' | 'network' | 'parse' | 'timeout' | 'cancelled' | 'unknown';
+
+// Browser-side setup. Gemini itself only runs on the API server, so the key never reaches the client bundle.
+export interface AIProviderConfig {
+  provider: Exclude<AIProviderId, 'gemini'>;
+}
+
+export interface AIImageInput {
+  base64: string;
+  mimeType: string;
+}
+
+// What every prompt may use about the shopper: their language and currency, and their saved preferences.
+export interface AIShopperContext {
+  locale: LocaleSettings;
+  styleProfile: StyleProfile;
+  catalogCurrency: string; // Price limits the model writes are asked for in this currency
+}
+
+// The inputs of each structured task, keyed by task.
+export interface AITaskInputs {
+  imageAnalysis: { image: AIImageInput; userPrompt?: string; facets: CatalogFacets };
+  multiImageAnalysis: { images: AIImageInput[]; mode: AnalysisMode; userPrompt?: string; facets: CatalogFacets };
+  textQuery: { query: string; facets: CatalogFacets };
+  itemDetection: { image: AIImageInput; facets: CatalogFacets };
+  ranking: { analysis: string; userPrompt?: string; similar: Product[]; complementary: Product[] };
+  productComparison: { product: Product; analyzedText: string };
+  multiProductComparison: { products: Product[]; analyzedText: string | null; shopperNeeds: string[] };
+  lookPlanning: {
+    analysis: string;
+    attributes?: ProductAttributes;
+    subjectIds: string[]; // The shopper's own item and its alternatives, which anchor every look
+    itemTypes: string[];
+    budget: Money | null;
+  };
+}
+
+export type AITask = keyof AITaskInputs;
+
+export type AIStructuredRequest = { [T in AITask]: { task: T; shopper: AIShopperContext } & AITaskInputs[T] }[AITask];
+
+export interface AIFunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface AIFunctionResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+// Tools the shopping chat can call; each call is answered with an AIFunctionResult of the same name.
+export type AIChatToolName = 'searchCatalog' | 'refineSearch' | 'rememberPreference';
+
+export interface AIChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// What a chat is about. 'shopping' is the main assistant with the catalog tools; 'product' answers
+// questions about one product and has no tools.
+export type AIChatOptions = (
+  | { topic: 'shopping' }
+  | { topic: 'product'; product: Product; analyzedText?: string | null }
+) & {
+  shopper: AIShopperContext;
+  history?: AIChatTurn[];
+};
+
+export interface AIChatChunk {
+  text: string;
+  functionCalls: AIFunctionCall[];
+}
+
+export interface AIChatSendOptions {
+  allowTools?: boolean; // false makes the model answer in text, e.g. once a turn has used its tool rounds
+}
+
+export interface AIChatSession {
+  /** Sends a user message, or the results of the function calls the model asked for, and streams the reply. */
+  sendMessageStream(message: string | AIFunctionResult[], signal?: AbortSignal, options?: AIChatSendOptions): Promise<AsyncIterable<AIChatChunk>>;
+}
+
+export interface AIProvider {
+  readonly id: AIProviderId;
+  readonly model: string;
+  /** Returns the raw JSON text of the task's response; callers validate it. */
+  generateStructured(request: AIStructuredRequest, signal?: AbortSignal): Promise<string | undefined>;
+  createChat(options: AIChatOptions): AIChatSession;
+}
+
+// --- API server ---
+// Request and response bodies of the server in server/, shared with the proxy provider that calls it.
+
+export interface AnalyzeResponseBody {
+  text?: string;
+}
+
+// The first message carries the options that create the session; later ones send back its id.
+export type ChatRequestBody = (
+  | { sessionId: string }
+  | { options: AIChatOptions }
+) & {
+  message: string | AIFunctionResult[];
+  allowTools?: false; // Omitted when tools are allowed
+};
+
+export interface ApiErrorBody {
+  error: string;
+  kind?: AIErrorKind; // Set when the model call itself failed, so the client can rebuild the typed error
 }
 
 export interface AppState {
+  sessionId: string | null;
+  sessionThumbnail: string | null;
   uploadedImage: string | null;
   uploadedImageType: string | null;
+  uploadedImages: UploadedImage[]; // Every image in the current analysis; empty for a restored session
+  analysisMode: AnalysisMode;
+  imageResults: ImageResult[];
+  imageAltTexts: string[]; // By upload position, for the previews
+  comparison: string | null;
+  detectedItems: DetectedItem[];
+  selectedItemId: string | null; // null means results for the whole photo
+  itemResults: Record<string, ItemProducts>; // Cached per detected item so switching boxes doesn't re-query
   analyzedText: string | null;
+  analyzedAttributes: ProductAttributes | null;
   similarProducts: Product[];
   complementaryProducts: Product[];
+  validationIssues: ValidationIssue[];
+  searchBase: SearchBase | null; // For the whole photo; a selected detected item is refined from its own attributes
+  constraints: SearchConstraints;
+  resultsHistory: ResultsSnapshot[]; // Most recent last; popped by undo
   chatMessages: ChatMessage[];
-  currentChat: Chat | null;
+  currentChat: AIChatSession | null;
   isLoading: boolean;
   // Add missing loadingState property
   loadingState: LoadingState;
   error: string | null;
+  errorKind: AIErrorKind | null; // Set when `error` came from a model call; null for other failures
   isCheckoutModalOpen: boolean;
   userInput: string;
-  activeTab: 'similar' | 'complementary';
+  activeTab: ProductTab;
 }
 
 export enum LoadingState {
   IDLE = 'idle',
   ANALYZING_IMAGE = 'analyzing_image',
-  CHATTING = 'chatting',
+  ANALYZING_QUERY = 'analyzing_query', // Reading a typed or spoken request
+  SEARCHING_ITEM = 'searching_item', // Finding products for one detected item
+  REFINING = 'refining', // Re-running the product search with new chat constraints
+  CHATTING = 'chatting', // Waiting for the first chunk of a chat reply
+  STREAMING = 'streaming', // Chat reply chunks are arriving
 }
\ No newline at end of file
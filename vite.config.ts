@@ -3,10 +3,17 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Only non-secret settings are inlined into the client; GEMINI_API_KEY stays with the API server.
+    const apiProxy = { '/api': `http://localhost:${env.PORT || 8787}` };
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
+      },
+      server: {
+        proxy: apiProxy
+      },
+      preview: {
+        proxy: apiProxy
       },
       resolve: {
         alias: {